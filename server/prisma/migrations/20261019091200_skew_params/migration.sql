@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "SkewSnapshot" ADD COLUMN "centerDelta" REAL NOT NULL DEFAULT 0.2;
+ALTER TABLE "SkewSnapshot" ADD COLUMN "maxDelta" REAL NOT NULL DEFAULT 0.3;
+ALTER TABLE "SkewSnapshot" ADD COLUMN "minDelta" REAL NOT NULL DEFAULT 0.1;
+ALTER TABLE "SkewSnapshot" ADD COLUMN "targetDte" INTEGER NOT NULL DEFAULT 30;
+
+-- CreateIndex
+CREATE INDEX "SkewSnapshot_symbol_minDelta_maxDelta_centerDelta_targetDte_timestamp_idx" ON "SkewSnapshot"("symbol", "minDelta", "maxDelta", "centerDelta", "targetDte", "timestamp");
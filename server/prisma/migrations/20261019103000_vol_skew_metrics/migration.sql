@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "SkewSnapshot" ADD COLUMN "atmIv" REAL;
+ALTER TABLE "SkewSnapshot" ADD COLUMN "butterfly25" REAL;
+ALTER TABLE "SkewSnapshot" ADD COLUMN "riskReversal10" REAL;
+ALTER TABLE "SkewSnapshot" ADD COLUMN "riskReversal25" REAL;
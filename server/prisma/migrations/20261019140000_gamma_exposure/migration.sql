@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SkewSnapshot" ADD COLUMN "gammaFlip" REAL;
+ALTER TABLE "SkewSnapshot" ADD COLUMN "totalGex" REAL;
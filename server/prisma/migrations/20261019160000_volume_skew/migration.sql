@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "SkewSnapshot" ADD COLUMN "callVolume" INTEGER;
+ALTER TABLE "SkewSnapshot" ADD COLUMN "putVolume" INTEGER;
+ALTER TABLE "SkewSnapshot" ADD COLUMN "volumeSkew" REAL;
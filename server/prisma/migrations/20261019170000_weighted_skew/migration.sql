@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "SkewSnapshot" ADD COLUMN "deltaWeightedSkew" REAL;
+ALTER TABLE "SkewSnapshot" ADD COLUMN "notionalWeightedSkew" REAL;
+ALTER TABLE "SkewSnapshot" ADD COLUMN "premiumWeightedSkew" REAL;
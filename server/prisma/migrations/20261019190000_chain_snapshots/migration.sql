@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ChainOptionSnapshot" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "snapshotId" INTEGER NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "strike" REAL NOT NULL,
+    "type" TEXT NOT NULL,
+    "delta" REAL,
+    "iv" REAL,
+    "openInterest" INTEGER,
+    "bid" REAL,
+    "ask" REAL,
+    "volume" INTEGER,
+    "greeksSource" TEXT,
+    CONSTRAINT "ChainOptionSnapshot_snapshotId_fkey" FOREIGN KEY ("snapshotId") REFERENCES "SkewSnapshot" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ChainOptionSnapshot_snapshotId_idx" ON "ChainOptionSnapshot"("snapshotId");
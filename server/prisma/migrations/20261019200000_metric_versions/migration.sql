@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "SkewSnapshot" ADD COLUMN "metricVersion" TEXT NOT NULL DEFAULT 'live';
+ALTER TABLE "SkewSnapshot" ADD COLUMN "sourceSnapshotId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SkewSnapshot_sourceSnapshotId_metricVersion_key" ON "SkewSnapshot"("sourceSnapshotId", "metricVersion");
+
+-- CreateIndex
+CREATE INDEX "SkewSnapshot_symbol_metricVersion_timestamp_idx" ON "SkewSnapshot"("symbol", "metricVersion", "timestamp");
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "CalculationRun" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "symbol" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "cacheHit" BOOLEAN NOT NULL DEFAULT false,
+    "startedAt" DATETIME NOT NULL,
+    "finishedAt" DATETIME NOT NULL,
+    "durationMs" INTEGER NOT NULL,
+    "chainMs" INTEGER,
+    "phase1Ms" INTEGER,
+    "phase2Ms" INTEGER,
+    "symbolsSubscribed" INTEGER,
+    "deltaReceived" INTEGER,
+    "deltaCoverage" REAL,
+    "oiSymbols" INTEGER,
+    "oiReceived" INTEGER,
+    "oiCoverage" REAL,
+    "quoteCoverage" REAL,
+    "underlyingReceived" BOOLEAN,
+    "expirationDate" TEXT,
+    "dte" INTEGER,
+    "error" TEXT,
+    "minDelta" REAL NOT NULL,
+    "maxDelta" REAL NOT NULL,
+    "centerDelta" REAL NOT NULL,
+    "targetDte" INTEGER NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "CalculationRun_startedAt_idx" ON "CalculationRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "CalculationRun_symbol_startedAt_idx" ON "CalculationRun"("symbol", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "CalculationRun_status_startedAt_idx" ON "CalculationRun"("status", "startedAt");
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "AlertRule" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "condition" TEXT NOT NULL,
+    "metric" TEXT NOT NULL DEFAULT 'oiSkew',
+    "threshold" REAL,
+    "windowMinutes" INTEGER,
+    "lookback" TEXT,
+    "fromSentiment" TEXT,
+    "toSentiment" TEXT,
+    "webhookUrl" TEXT,
+    "cooldownMinutes" INTEGER NOT NULL DEFAULT 60,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "minDelta" REAL NOT NULL DEFAULT 0.1,
+    "maxDelta" REAL NOT NULL DEFAULT 0.3,
+    "centerDelta" REAL NOT NULL DEFAULT 0.2,
+    "targetDte" INTEGER NOT NULL DEFAULT 30,
+    "active" BOOLEAN NOT NULL DEFAULT false,
+    "lastTriggeredAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "AlertDelivery" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "ruleId" INTEGER NOT NULL,
+    "snapshotId" INTEGER,
+    "symbol" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "responseStatus" INTEGER,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deliveredAt" DATETIME,
+    CONSTRAINT "AlertDelivery_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "AlertRule" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AlertRule_symbol_enabled_idx" ON "AlertRule"("symbol", "enabled");
+
+-- CreateIndex
+CREATE INDEX "AlertDelivery_ruleId_createdAt_idx" ON "AlertDelivery"("ruleId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AlertDelivery_status_idx" ON "AlertDelivery"("status");
+
+-- CreateIndex
+CREATE INDEX "AlertDelivery_createdAt_idx" ON "AlertDelivery"("createdAt");
@@ -1,19 +1,35 @@
+import type { TradingCalendar } from '../services/marketHours';
+
 export const ASSET_GROUPS = {
     fx: {
         name: 'FX',
+        calendar: 'cme-globex',
         symbols: ['/6E', '/6B', '/6A', '/6C', '/6J']
     },
     indices: {
         name: 'Indices',
+        calendar: 'cme-globex',
         symbols: ['/ES', '/NQ', '/RTY']
     },
     bonds: {
         name: 'Bonds',
+        calendar: 'cme-globex',
         symbols: ['/ZB', '/ZN', '/ZF', '/ZT']
     },
     crypto: {
         name: 'Crypto',
+        calendar: '24/7',
         symbols: ['/BTC', '/ETH']
+    },
+    etfs: {
+        name: 'ETFs',
+        calendar: 'nyse',
+        symbols: ['SPY', 'QQQ', 'IWM', 'TLT', 'GLD']
+    },
+    sectors: {
+        name: 'Sector SPDRs',
+        calendar: 'nyse',
+        symbols: ['XLK', 'XLF', 'XLE', 'XLV', 'XLI', 'XLY', 'XLP', 'XLU', 'XLB', 'XLRE', 'XLC']
     }
 } as const;
 
@@ -36,9 +52,53 @@ export const SYMBOL_DESCRIPTIONS: Record<string, string> = {
     '/ZT': '2-Year T-Note',
     // Crypto
     '/BTC': 'Bitcoin',
-    '/ETH': 'Ethereum'
+    '/ETH': 'Ethereum',
+    // ETFs
+    'SPY': 'S&P 500 ETF',
+    'QQQ': 'Nasdaq 100 ETF',
+    'IWM': 'Russell 2000 ETF',
+    'TLT': '20+ Year Treasury ETF',
+    'GLD': 'Gold ETF',
+    // Sector SPDRs
+    'XLK': 'Technology',
+    'XLF': 'Financials',
+    'XLE': 'Energy',
+    'XLV': 'Health Care',
+    'XLI': 'Industrials',
+    'XLY': 'Consumer Discretionary',
+    'XLP': 'Consumer Staples',
+    'XLU': 'Utilities',
+    'XLB': 'Materials',
+    'XLRE': 'Real Estate',
+    'XLC': 'Communication Services'
+};
+
+// Option contract multipliers (underlying units per contract) by futures root
+export const CONTRACT_MULTIPLIERS: Record<string, number> = {
+    // FX
+    '/6E': 125000,
+    '/6B': 62500,
+    '/6A': 100000,
+    '/6C': 100000,
+    '/6J': 12500000,
+    // Indices
+    '/ES': 50,
+    '/NQ': 20,
+    '/YM': 5,
+    '/RTY': 50,
+    // Bonds
+    '/ZB': 1000,
+    '/ZN': 1000,
+    '/ZF': 1000,
+    '/ZT': 2000,
+    // Crypto
+    '/BTC': 5,
+    '/ETH': 50
 };
 
+// Standard equity/ETF option contract size (the chain's shares-per-contract takes precedence)
+export const DEFAULT_CONTRACT_MULTIPLIER = 100;
+
 export type AssetGroupKey = keyof typeof ASSET_GROUPS;
 export type AssetGroup = typeof ASSET_GROUPS[AssetGroupKey];
 
@@ -52,3 +112,21 @@ export const getGroupForSymbol = (symbol: string): AssetGroupKey | null => {
     }
     return null;
 };
+
+/**
+ * Trading calendar a symbol's options follow: its group's calendar, otherwise
+ * CME Globex for futures and NYSE hours for equities
+ */
+export const getTradingCalendar = (symbol: string): TradingCalendar => {
+    const group = getGroupForSymbol(symbol.toUpperCase());
+    if (group) return ASSET_GROUPS[group].calendar;
+    return symbol.startsWith('/') ? 'cme-globex' : 'nyse';
+};
+
+/**
+ * Contract multiplier for a symbol's options (futures contracts map to their root)
+ */
+export const getContractMultiplier = (symbol: string): number => {
+    const root = symbol.toUpperCase().replace(/^(\/[A-Z0-9]{1,3}?)[FGHJKMNQUVXZ]\d{1,2}$/, '$1');
+    return CONTRACT_MULTIPLIERS[root] ?? DEFAULT_CONTRACT_MULTIPLIER;
+};
@@ -2,6 +2,9 @@ import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import { apiRouter } from './routes/api';
+import { snapshotScheduler } from './services/scheduler';
+import { alertEngine } from './services/alerts';
+import { loadSkewCache } from './services/cache';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -22,8 +25,12 @@ app.get('/', (_req, res) => {
     res.json({ status: 'Tasty Proxy Server', version: '1.0.0' });
 });
 
-// Start server
-app.listen(PORT, () => {
-    console.log(`🚀 Server running on http://localhost:${PORT}`);
-    console.log(`📡 CORS enabled for: ${CORS_ORIGIN}`);
+// Start server once persisted cache entries are restored
+loadSkewCache().then(() => {
+    app.listen(PORT, () => {
+        console.log(`🚀 Server running on http://localhost:${PORT}`);
+        console.log(`📡 CORS enabled for: ${CORS_ORIGIN}`);
+        alertEngine.start();
+        snapshotScheduler.start();
+    });
 });
@@ -1,14 +1,54 @@
-import { Router, Request, Response } from 'express';
-import { authenticate, fetchOptionChain, streamSkewCalculation, cleanupStreamer, searchSymbols } from '../services/tastytrade';
-import { skewCache } from '../services/cache';
-import { saveSkewSnapshot, getSkewHistory, getTrackedSymbols, getLatestSnapshots } from '../services/db';
-import { ASSET_GROUPS, ALL_SYMBOLS, AssetGroupKey, SYMBOL_DESCRIPTIONS } from '../config/assets';
+import { Router, Request, Response, text } from 'express';
+import { authenticate, fetchOptionChain, listExpirations, streamSkewCalculation, streamTermStructureCalculation, calculateSmile, calculateGex, calculateOiDistribution, cleanupStreamer, searchSymbols, resolveSkewParams, hasExpirationSelection, SkewParams, SkewResult, ExpirationTypeFilter, DEFAULT_TERM_STRUCTURE_MAX_DTE } from '../services/tastytrade';
+import { getMarketDataProvider } from '../services/providers';
+import { streamerSessions } from '../services/streamerSession';
+import { skewCache, getSymbolKey, getSkewCacheKey, getExpirationKeySuffix, getSessionTtlMs } from '../services/cache';
+import { snapshotScheduler } from '../services/scheduler';
+import { cacheRevalidator } from '../services/revalidator';
+import { saveSkewSnapshot, getSkewHistory, getSkewHistorySeries, getCalculationRuns, getCalculationRun, CalculationRunQuery, RunTrigger, RunStatus, getAlertRules, getAlertRule, createAlertRule, updateAlertRule, deleteAlertRule, getAlertDeliveries, AlertRuleInput, AlertRuleRecord, AlertDeliveryRecord, ALERT_DELIVERY_STATUSES, isAlertDeliveryStatus, getTrackedSymbols, getLatestSnapshots, getSnapshotChain, getMetricVersions, LIVE_METRIC_VERSION } from '../services/db';
+import { bucketHistory, isHistoryInterval, HISTORY_INTERVALS } from '../services/historyBuckets';
+import { getSkewRank, getCachedResultRank, isRankLookback, RANK_LOOKBACKS, DEFAULT_RANK_LOOKBACK, SkewRank } from '../services/skewRank';
+import { exportHistory, importHistory, parseHistoryFile, parseHistoryExportQuery, isHistoryFormat, HistoryExportQuery, HistoryFileRecord, HISTORY_CONTENT_TYPES } from '../services/historyTransfer';
+import { RunRecorder, RUN_TRIGGERS, RUN_STATUSES } from '../services/runLog';
+import { alertEngine, parseAlertRule } from '../services/alerts';
+import { recomputeJob, parseRecomputeRequest, RecomputeRequest } from '../services/recompute';
+import { getSessionState, SessionState, TradingCalendar } from '../services/marketHours';
+import { ASSET_GROUPS, ALL_SYMBOLS, AssetGroupKey, SYMBOL_DESCRIPTIONS, getTradingCalendar } from '../config/assets';
 
 export const apiRouter = Router();
 
-// Helper to normalize symbol for cache key (uppercase, no leading slash variations)
-const getCacheKey = (symbol: string): string => {
-    return symbol.toUpperCase().replace(/^\/+/, '');
+// Parse minDelta/maxDelta/centerDelta/targetDte and the expiration selection
+// (expirationType, expirationDate) from the query string (throws on invalid input)
+const parseSkewParams = (query: Request['query']): SkewParams => {
+    const parseString = (name: keyof SkewParams): string | undefined => {
+        const raw = query[name];
+        return typeof raw === 'string' && raw !== '' ? raw : undefined;
+    };
+    const parseNumber = (name: keyof SkewParams): number | undefined => {
+        const raw = query[name];
+        if (raw === undefined || raw === '') return undefined;
+        const value = Number(raw);
+        if (!Number.isFinite(value)) {
+            throw new Error(`Invalid ${name}: ${raw}`);
+        }
+        return value;
+    };
+
+    return resolveSkewParams({
+        minDelta: parseNumber('minDelta'),
+        maxDelta: parseNumber('maxDelta'),
+        centerDelta: parseNumber('centerDelta'),
+        targetDte: parseNumber('targetDte'),
+        expirationType: parseString('expirationType') as ExpirationTypeFilter | undefined,
+        expirationDate: parseString('expirationDate'),
+    });
+};
+
+// History is a rolling targetDte series; calculations for a picked expiration aren't recorded
+const saveHistorySnapshot = (symbol: string, params: SkewParams, result: SkewResult) => {
+    if (!hasExpirationSelection(params)) {
+        saveSkewSnapshot(symbol, result);
+    }
 };
 
 // Health check
@@ -16,36 +56,88 @@ apiRouter.get('/health', (_req: Request, res: Response) => {
     res.json({
         status: 'ok',
         timestamp: new Date().toISOString(),
+        provider: getMarketDataProvider().name,
+        streamer: streamerSessions.stats(),
         cache: skewCache.stats()
     });
 });
 
-// Get market status for all assets (cached/uncached status)
-apiRouter.get('/market-status', (_req: Request, res: Response) => {
-    const status: Record<string, { cached: boolean; data: any | null }> = {};
+// Get market status for all assets (cached/uncached status and trading session).
+// Expired results are returned as stale while a background refresh recalculates them.
+apiRouter.get('/market-status', async (req: Request, res: Response) => {
+    const { lookback = DEFAULT_RANK_LOOKBACK } = req.query;
+    if (!isRankLookback(lookback)) {
+        res.status(400).json({ error: `Invalid lookback: must be one of ${Object.keys(RANK_LOOKBACKS).join(', ')}` });
+        return;
+    }
+
+    const status: Record<string, { cached: boolean; stale: boolean; refreshing: boolean; updatedAt: string | null; calendar: TradingCalendar; session: SessionState; rank: SkewRank | null; data: SkewResult | null }> = {};
+    const staleSymbols: string[] = [];
+    const now = new Date();
 
     for (const symbol of ALL_SYMBOLS) {
-        const cacheKey = getCacheKey(symbol);
-        const cachedResult = skewCache.get(cacheKey);
+        const calendar = getTradingCalendar(symbol);
+        const cacheKey = getSkewCacheKey(symbol);
+        const entry = skewCache.getEntry(cacheKey);
+        if (entry?.stale) {
+            staleSymbols.push(symbol);
+        }
         status[symbol] = {
-            cached: cachedResult !== null,
-            data: cachedResult
+            cached: entry !== null,
+            stale: entry?.stale ?? false,
+            refreshing: false,
+            updatedAt: entry?.updatedAt.toISOString() ?? null,
+            calendar,
+            session: getSessionState(calendar, now),
+            rank: null,
+            data: (entry?.data as SkewResult | undefined) ?? null
         };
     }
 
+    // Rank each cached result against the symbol's own history (cached until the next snapshot)
+    await Promise.all(ALL_SYMBOLS.map(async (symbol) => {
+        const { data, updatedAt } = status[symbol];
+        if (!data || !updatedAt) return;
+        try {
+            status[symbol].rank = await getCachedResultRank(symbol, lookback, {
+                oiSkew: data.skew,
+                pricingSkew: data.pricingSkew,
+                impliedMove: data.impliedMove
+            }, new Date(updatedAt));
+        } catch (error) {
+            console.error(`Skew rank error for ${symbol}:`, error instanceof Error ? error.message : error);
+        }
+    }));
+
+    if (staleSymbols.length > 0) {
+        cacheRevalidator.refresh(staleSymbols);
+    }
+    for (const symbol of ALL_SYMBOLS) {
+        status[symbol].refreshing = cacheRevalidator.isRefreshing(symbol);
+    }
+
     res.json({
         groups: ASSET_GROUPS,
         descriptions: SYMBOL_DESCRIPTIONS,
+        lookback,
         status
     });
 });
 
 // SSE endpoint for batch skew calculation (sequential processing)
-// Note: Sequential processing required because Tastytrade streamer is a shared resource
+// Note: Symbols run one after another to keep the load on the shared streamer connection bounded
 apiRouter.get('/stream-batch', async (req: Request, res: Response) => {
     const symbolsParam = req.query.symbols as string | undefined;
     const groupParam = req.query.group as AssetGroupKey | undefined;
 
+    let params: SkewParams;
+    try {
+        params = parseSkewParams(req.query);
+    } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid parameters' });
+        return;
+    }
+
     // Determine which symbols to process
     let symbols: string[] = [];
     if (symbolsParam) {
@@ -64,22 +156,23 @@ apiRouter.get('/stream-batch', async (req: Request, res: Response) => {
     res.flushHeaders();
 
     // Send initial connection event
-    res.write(`data: ${JSON.stringify({ type: 'connected', symbols, total: symbols.length })}\n\n`);
+    res.write(`data: ${JSON.stringify({ type: 'connected', symbols, total: symbols.length, params })}\n\n`);
 
     // Track state
-    const results: Record<string, any> = {};
+    const results: Record<string, SkewResult> = {};
     const errors: Record<string, string> = {};
     let isClientConnected = true;
+    const abortController = new AbortController();
 
-    // Handle client disconnect
+    // Handle client disconnect (only cancels this batch's calculations)
     req.on('close', () => {
         isClientConnected = false;
         console.log('Batch stream client disconnected');
-        cleanupStreamer();
+        abortController.abort();
     });
 
     // Send progress event helper
-    const sendProgress = (symbol: string, status: string, data?: any) => {
+    const sendProgress = (symbol: string, status: string, data?: unknown) => {
         if (!isClientConnected) return;
         res.write(`data: ${JSON.stringify({ type: 'progress', symbol, status, data })}\n\n`);
     };
@@ -88,11 +181,14 @@ apiRouter.get('/stream-batch', async (req: Request, res: Response) => {
     const processSymbol = async (symbol: string): Promise<void> => {
         if (!isClientConnected) return;
 
-        const cacheKey = getCacheKey(symbol);
+        const cacheKey = getSkewCacheKey(symbol, params);
+
+        const recorder = new RunRecorder(symbol, 'batch', params, abortController.signal);
 
         // Check cache first
-        const cachedResult = skewCache.get(cacheKey);
+        const cachedResult = skewCache.get(cacheKey) as SkewResult | null;
         if (cachedResult) {
+            recorder.cacheHit();
             sendProgress(symbol, 'cached', cachedResult);
             results[symbol] = cachedResult;
             return;
@@ -105,17 +201,18 @@ apiRouter.get('/stream-batch', async (req: Request, res: Response) => {
 
             await new Promise<void>((resolve) => {
                 streamSkewCalculation(symbol, (progress) => {
+                    recorder.track(progress);
                     if (!isClientConnected) {
                         resolve();
                         return;
                     }
 
                     if (progress.type === 'phase1' || progress.type === 'phase2') {
-                        sendProgress(symbol, progress.type, { message: progress.message });
+                        sendProgress(symbol, progress.type, { message: progress.message, coverage: progress.data?.coverage });
                     } else if (progress.type === 'result') {
-                        skewCache.set(cacheKey, progress.data);
+                        skewCache.set(cacheKey, progress.data, getSessionTtlMs(symbol));
                         // Save to database for historical tracking
-                        saveSkewSnapshot(symbol, progress.data);
+                        saveHistorySnapshot(symbol, params, progress.data);
                         results[symbol] = progress.data;
                         sendProgress(symbol, 'complete', progress.data);
                         resolve();
@@ -124,10 +221,11 @@ apiRouter.get('/stream-batch', async (req: Request, res: Response) => {
                         sendProgress(symbol, 'error', { error: progress.message });
                         resolve();
                     }
-                });
+                }, params, abortController.signal);
             });
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Unknown error';
+            recorder.track({ type: 'error', message });
             errors[symbol] = message;
             sendProgress(symbol, 'error', { error: message });
         }
@@ -186,13 +284,30 @@ apiRouter.get('/symbols/search/:query', async (req: Request, res: Response) => {
     }
 });
 
+// List every upcoming expiration (all types) for a symbol
+apiRouter.get('/expirations/:symbol', async (req: Request, res: Response) => {
+    try {
+        const { symbol } = req.params;
+
+        await authenticate();
+        const expirations = await listExpirations(symbol);
+
+        res.json({ symbol: symbol.toUpperCase(), count: expirations.length, data: expirations });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Expirations error:', message);
+        res.status(500).json({ error: message });
+    }
+});
+
 // Fetch option chain for a symbol
 apiRouter.get('/option-chain/:symbol', async (req: Request, res: Response) => {
     try {
         const { symbol } = req.params;
+        const params = parseSkewParams(req.query);
 
         await authenticate();
-        const result = await fetchOptionChain(symbol);
+        const result = await fetchOptionChain(symbol, params.targetDte, params);
 
         res.json(result);
     } catch (error) {
@@ -205,7 +320,16 @@ apiRouter.get('/option-chain/:symbol', async (req: Request, res: Response) => {
 // SSE endpoint for streaming skew calculation (with caching)
 apiRouter.get('/stream-skew/:symbol', async (req: Request, res: Response) => {
     const { symbol } = req.params;
-    const cacheKey = getCacheKey(symbol);
+
+    let params: SkewParams;
+    try {
+        params = parseSkewParams(req.query);
+    } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid parameters' });
+        return;
+    }
+
+    const cacheKey = getSkewCacheKey(symbol, params);
 
     // Set SSE headers
     res.setHeader('Content-Type', 'text/event-stream');
@@ -214,12 +338,21 @@ apiRouter.get('/stream-skew/:symbol', async (req: Request, res: Response) => {
     res.setHeader('X-Accel-Buffering', 'no');
     res.flushHeaders();
 
+    // Handle client disconnect (only cancels this request's calculation)
+    const abortController = new AbortController();
+    req.on('close', () => {
+        console.log('Client disconnected, cleaning up...');
+        abortController.abort();
+    });
+    const recorder = new RunRecorder(symbol, 'ui', params, abortController.signal);
+
     // Check cache first
     const cachedResult = skewCache.get(cacheKey);
     if (cachedResult) {
+        recorder.cacheHit();
         console.log(`[Cache HIT] ${cacheKey}`);
         res.write(`data: ${JSON.stringify({ type: 'connected', message: 'Found cached result!' })}\n\n`);
-        res.write(`data: ${JSON.stringify({ type: 'cached', message: 'Using cached data (1 hour TTL)' })}\n\n`);
+        res.write(`data: ${JSON.stringify({ type: 'cached', message: 'Using cached data (valid for the current trading session)' })}\n\n`);
         res.write(`data: ${JSON.stringify({ type: 'result', data: cachedResult })}\n\n`);
         res.write('event: close\ndata: done\n\n');
         res.end();
@@ -231,41 +364,231 @@ apiRouter.get('/stream-skew/:symbol', async (req: Request, res: Response) => {
     // Send initial connection event
     res.write(`data: ${JSON.stringify({ type: 'connected', message: 'Starting calculation...' })}\n\n`);
 
-    // Handle client disconnect
-    req.on('close', () => {
-        console.log('Client disconnected, cleaning up...');
-        cleanupStreamer();
-    });
-
     try {
         await streamSkewCalculation(symbol, (progress) => {
+            recorder.track(progress);
+
             // Send progress event to client
             res.write(`data: ${JSON.stringify(progress)}\n\n`);
 
             // Cache the result and end stream
             if (progress.type === 'result') {
-                skewCache.set(cacheKey, progress.data);
+                const ttlMs = getSessionTtlMs(symbol);
+                skewCache.set(cacheKey, progress.data, ttlMs);
                 // Save to database for historical tracking
-                saveSkewSnapshot(symbol, progress.data);
-                console.log(`[Cache SET] ${cacheKey} - cached for 1 hour`);
+                saveHistorySnapshot(symbol, params, progress.data);
+                console.log(`[Cache SET] ${cacheKey} - cached for ${Math.round(ttlMs / 60000)} min`);
                 res.write('event: close\ndata: done\n\n');
                 res.end();
             } else if (progress.type === 'error') {
                 res.write('event: close\ndata: done\n\n');
                 res.end();
             }
-        });
+        }, params, abortController.signal);
     } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
+        recorder.track({ type: 'error', message });
         res.write(`data: ${JSON.stringify({ type: 'error', message })}\n\n`);
         res.end();
     }
 });
 
+// SSE endpoint for skew term structure across all monthly expirations (with caching)
+apiRouter.get('/stream-term-structure/:symbol', async (req: Request, res: Response) => {
+    const { symbol } = req.params;
+
+    let params: SkewParams;
+    let maxDte = DEFAULT_TERM_STRUCTURE_MAX_DTE;
+    try {
+        params = parseSkewParams(req.query);
+        if (req.query.maxDte !== undefined) {
+            maxDte = Number(req.query.maxDte);
+            if (!Number.isInteger(maxDte) || maxDte <= 0) {
+                throw new Error(`Invalid maxDte: ${req.query.maxDte}`);
+            }
+        }
+    } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid parameters' });
+        return;
+    }
+
+    const cacheKey = `${getSymbolKey(symbol)}:term:${params.minDelta}-${params.maxDelta}@${params.centerDelta}:${maxDte}d${getExpirationKeySuffix({ expirationType: params.expirationType })}`;
+
+    // Set SSE headers
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    // Check cache first
+    const cachedResult = skewCache.get(cacheKey);
+    if (cachedResult) {
+        console.log(`[Cache HIT] ${cacheKey}`);
+        res.write(`data: ${JSON.stringify({ type: 'connected', message: 'Found cached result!' })}\n\n`);
+        res.write(`data: ${JSON.stringify({ type: 'cached', message: 'Using cached data (valid for the current trading session)' })}\n\n`);
+        res.write(`data: ${JSON.stringify({ type: 'result', data: cachedResult })}\n\n`);
+        res.write('event: close\ndata: done\n\n');
+        res.end();
+        return;
+    }
+
+    console.log(`[Cache MISS] ${cacheKey} - fetching fresh data`);
+
+    // Send initial connection event
+    res.write(`data: ${JSON.stringify({ type: 'connected', message: 'Starting term structure calculation...' })}\n\n`);
+
+    // Handle client disconnect (only cancels this request's calculation)
+    const abortController = new AbortController();
+    req.on('close', () => {
+        console.log('Client disconnected, cleaning up...');
+        abortController.abort();
+    });
+
+    try {
+        await streamTermStructureCalculation(symbol, (progress) => {
+            res.write(`data: ${JSON.stringify(progress)}\n\n`);
+
+            if (progress.type === 'result') {
+                const ttlMs = getSessionTtlMs(symbol);
+                skewCache.set(cacheKey, progress.data, ttlMs);
+                console.log(`[Cache SET] ${cacheKey} - cached for ${Math.round(ttlMs / 60000)} min`);
+                res.write('event: close\ndata: done\n\n');
+                res.end();
+            } else if (progress.type === 'error') {
+                res.write('event: close\ndata: done\n\n');
+                res.end();
+            }
+        }, params, maxDte, abortController.signal);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        res.write(`data: ${JSON.stringify({ type: 'error', message })}\n\n`);
+        res.end();
+    }
+});
+
+// Implied volatility smile (call/put IV by strike and by delta) for the selected expiration
+apiRouter.get('/smile/:symbol', async (req: Request, res: Response) => {
+    const { symbol } = req.params;
+
+    let params: SkewParams;
+    try {
+        params = parseSkewParams(req.query);
+    } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid parameters' });
+        return;
+    }
+
+    const cacheKey = `${getSymbolKey(symbol)}:smile:${params.targetDte}d${getExpirationKeySuffix(params)}`;
+    const abortController = new AbortController();
+    req.on('close', () => abortController.abort());
+
+    try {
+        const cached = skewCache.get(cacheKey);
+        if (cached) {
+            console.log(`[Cache HIT] ${cacheKey}`);
+            res.json({ cached: true, data: cached });
+            return;
+        }
+
+        const smile = await calculateSmile(symbol, params, abortController.signal);
+        const ttlMs = getSessionTtlMs(symbol);
+        skewCache.set(cacheKey, smile, ttlMs);
+        console.log(`[Cache SET] ${cacheKey} - cached for ${Math.round(ttlMs / 60000)} min`);
+
+        res.json({ cached: false, data: smile });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Smile error:', message);
+        res.status(500).json({ error: message });
+    }
+});
+
+// Dealer gamma exposure by strike for the selected expiration
+apiRouter.get('/gex/:symbol', async (req: Request, res: Response) => {
+    const { symbol } = req.params;
+
+    let params: SkewParams;
+    try {
+        params = parseSkewParams(req.query);
+    } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid parameters' });
+        return;
+    }
+
+    const cacheKey = `${getSymbolKey(symbol)}:gex:${params.targetDte}d${getExpirationKeySuffix(params)}`;
+    const abortController = new AbortController();
+    req.on('close', () => abortController.abort());
+
+    try {
+        const cached = skewCache.get(cacheKey);
+        if (cached) {
+            console.log(`[Cache HIT] ${cacheKey}`);
+            res.json({ cached: true, data: cached });
+            return;
+        }
+
+        const gex = await calculateGex(symbol, params, abortController.signal);
+        const ttlMs = getSessionTtlMs(symbol);
+        skewCache.set(cacheKey, gex, ttlMs);
+        console.log(`[Cache SET] ${cacheKey} - cached for ${Math.round(ttlMs / 60000)} min`);
+
+        res.json({ cached: false, data: gex });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('GEX error:', message);
+        res.status(500).json({ error: message });
+    }
+});
+
+// Open interest by strike: max pain, OI walls and put/call ratio per strike
+apiRouter.get('/oi-distribution/:symbol', async (req: Request, res: Response) => {
+    const { symbol } = req.params;
+
+    let params: SkewParams;
+    try {
+        params = parseSkewParams(req.query);
+    } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid parameters' });
+        return;
+    }
+
+    const cacheKey = `${getSymbolKey(symbol)}:oi:${params.targetDte}d${getExpirationKeySuffix(params)}`;
+    const abortController = new AbortController();
+    req.on('close', () => abortController.abort());
+
+    try {
+        const cached = skewCache.get(cacheKey);
+        if (cached) {
+            console.log(`[Cache HIT] ${cacheKey}`);
+            res.json({ cached: true, data: cached });
+            return;
+        }
+
+        const distribution = await calculateOiDistribution(symbol, params, abortController.signal);
+        const ttlMs = getSessionTtlMs(symbol);
+        skewCache.set(cacheKey, distribution, ttlMs);
+        console.log(`[Cache SET] ${cacheKey} - cached for ${Math.round(ttlMs / 60000)} min`);
+
+        res.json({ cached: false, data: distribution });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('OI distribution error:', message);
+        res.status(500).json({ error: message });
+    }
+});
+
 // Get cached result directly (non-streaming, returns null if not cached)
 apiRouter.get('/skew/:symbol', async (req: Request, res: Response) => {
     const { symbol } = req.params;
-    const cacheKey = getCacheKey(symbol);
+
+    let cacheKey: string;
+    try {
+        cacheKey = getSkewCacheKey(symbol, parseSkewParams(req.query));
+    } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid parameters' });
+        return;
+    }
 
     const cached = skewCache.get(cacheKey);
     if (cached) {
@@ -275,49 +598,493 @@ apiRouter.get('/skew/:symbol', async (req: Request, res: Response) => {
     }
 });
 
-// Clear cache for a symbol (or all if no symbol provided)
+// Clear cache for a symbol, all param variants (or all if no symbol provided)
 apiRouter.delete('/cache/:symbol?', (_req: Request, res: Response) => {
     const { symbol } = _req.params;
 
     if (symbol) {
-        const cacheKey = getCacheKey(symbol);
-        skewCache.delete(cacheKey);
-        res.json({ cleared: cacheKey });
+        const symbolKey = getSymbolKey(symbol);
+        const count = skewCache.deleteByPrefix(`${symbolKey}:`);
+        res.json({ cleared: symbolKey, count });
     } else {
         skewCache.clear();
         res.json({ cleared: 'all' });
     }
 });
 
-// Cleanup endpoint (for manual cleanup if needed)
+// Cleanup endpoint (for manual cleanup if needed; skipped while sessions are open)
 apiRouter.post('/cleanup', async (_req: Request, res: Response) => {
     try {
-        await cleanupStreamer();
-        res.json({ status: 'cleaned up' });
+        const cleaned = await cleanupStreamer();
+        res.json(cleaned
+            ? { status: 'cleaned up' }
+            : { status: 'in use', sessions: streamerSessions.stats().sessions });
     } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         res.status(500).json({ error: message });
     }
 });
 
+// ========== SCHEDULER ENDPOINTS ==========
+
+// Scheduled snapshot collector status
+apiRouter.get('/scheduler', (_req: Request, res: Response) => {
+    res.json(snapshotScheduler.status());
+});
+
+// Run the collector now (ignores schedule and market hours)
+apiRouter.post('/scheduler/run', (_req: Request, res: Response) => {
+    if (!snapshotScheduler.trigger()) {
+        res.status(409).json({ error: 'A scheduler run is already in progress' });
+        return;
+    }
+    res.status(202).json(snapshotScheduler.status());
+});
+
+// Pause scheduled runs (cancels the run in progress)
+apiRouter.post('/scheduler/pause', (_req: Request, res: Response) => {
+    snapshotScheduler.pause();
+    res.json(snapshotScheduler.status());
+});
+
+apiRouter.post('/scheduler/resume', (_req: Request, res: Response) => {
+    snapshotScheduler.resume();
+    res.json(snapshotScheduler.status());
+});
+
+// ========== RECOMPUTE ENDPOINTS ==========
+
+// Recompute job status (current/last run)
+apiRouter.get('/admin/recompute', (_req: Request, res: Response) => {
+    res.json(recomputeJob.status());
+});
+
+// Recompute history from stored chains as a named metric version
+// Body: version, minDelta, maxDelta, centerDelta, and optional symbols, startDate, endDate, targetDte
+apiRouter.post('/admin/recompute', (req: Request, res: Response) => {
+    let request: RecomputeRequest;
+    try {
+        request = parseRecomputeRequest(req.body ?? {});
+    } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid parameters' });
+        return;
+    }
+
+    if (!recomputeJob.start(request)) {
+        res.status(409).json({ error: 'A recomputation is already in progress' });
+        return;
+    }
+    res.status(202).json(recomputeJob.status());
+});
+
+// List recomputed metric versions
+apiRouter.get('/metric-versions', async (_req: Request, res: Response) => {
+    try {
+        const versions = await getMetricVersions();
+        res.json({ count: versions.length, data: versions });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Metric versions query error:', message);
+        res.status(500).json({ error: message });
+    }
+});
+
+// ========== RUN LOG ENDPOINTS ==========
+
+// Get calculation runs, newest first (symbol, trigger, status, startDate, endDate, limit, cursor)
+apiRouter.get('/runs', async (req: Request, res: Response) => {
+    const { symbol, trigger, status, startDate, endDate, limit, cursor } = req.query;
+
+    let query: CalculationRunQuery;
+    try {
+        if (trigger !== undefined && !RUN_TRIGGERS.includes(trigger as RunTrigger)) {
+            throw new Error(`Invalid trigger: must be one of ${RUN_TRIGGERS.join(', ')}`);
+        }
+        if (status !== undefined && !RUN_STATUSES.includes(status as RunStatus)) {
+            throw new Error(`Invalid status: must be one of ${RUN_STATUSES.join(', ')}`);
+        }
+        const parseDate = (name: string, value: unknown): Date | undefined => {
+            if (value === undefined || value === '') return undefined;
+            const parsed = new Date(String(value));
+            if (Number.isNaN(parsed.getTime())) {
+                throw new Error(`Invalid ${name}: ${value}`);
+            }
+            return parsed;
+        };
+        const pageSize = limit !== undefined ? Number(limit) : 50;
+        if (!Number.isInteger(pageSize) || pageSize <= 0 || pageSize > 500) {
+            throw new Error(`Invalid limit: ${limit} (1-500)`);
+        }
+        if (cursor !== undefined && !/^\d+$/.test(String(cursor))) {
+            throw new Error(`Invalid cursor: ${cursor}`);
+        }
+
+        query = {
+            symbol: typeof symbol === 'string' && symbol !== '' ? symbol : undefined,
+            trigger: trigger as RunTrigger | undefined,
+            status: status as RunStatus | undefined,
+            startDate: parseDate('startDate', startDate),
+            endDate: parseDate('endDate', endDate),
+            limit: pageSize,
+            cursor: cursor !== undefined ? Number(cursor) : undefined,
+        };
+    } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid parameters' });
+        return;
+    }
+
+    try {
+        const runs = await getCalculationRuns(query);
+        res.json({
+            count: runs.length,
+            // Id of the oldest run when more may follow
+            nextCursor: runs.length === query.limit ? runs[runs.length - 1].id : null,
+            data: runs,
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Run log query error:', message);
+        res.status(500).json({ error: message });
+    }
+});
+
+// Get a single calculation run
+apiRouter.get('/runs/:id', async (req: Request, res: Response) => {
+    const runId = Number(req.params.id);
+    if (!Number.isInteger(runId) || runId <= 0) {
+        res.status(400).json({ error: `Invalid run id: ${req.params.id}` });
+        return;
+    }
+
+    try {
+        const run = await getCalculationRun(runId);
+        if (!run) {
+            res.status(404).json({ error: `Run ${runId} not found` });
+            return;
+        }
+        res.json(run);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Run log query error:', message);
+        res.status(500).json({ error: message });
+    }
+});
+
+// ========== ALERT ENDPOINTS ==========
+
+// Look up the rule named by :id, answering 400/404 (and returning null) when there is none
+const findAlertRule = async (req: Request, res: Response): Promise<AlertRuleRecord | null> => {
+    const ruleId = Number(req.params.id);
+    if (!Number.isInteger(ruleId) || ruleId <= 0) {
+        res.status(400).json({ error: `Invalid rule id: ${req.params.id}` });
+        return null;
+    }
+
+    const rule = await getAlertRule(ruleId);
+    if (!rule) {
+        res.status(404).json({ error: `Alert rule ${ruleId} not found` });
+        return null;
+    }
+    return rule;
+};
+
+const sendAlertError = (res: Response, error: unknown) => {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Alert rule error:', message);
+    res.status(500).json({ error: message });
+};
+
+// List alert rules (optionally for one symbol)
+apiRouter.get('/alerts/rules', async (req: Request, res: Response) => {
+    const { symbol } = req.query;
+    try {
+        const rules = await getAlertRules(typeof symbol === 'string' && symbol !== '' ? symbol : undefined);
+        res.json({ count: rules.length, data: rules });
+    } catch (error) {
+        sendAlertError(res, error);
+    }
+});
+
+// Create an alert rule
+// Body: name, symbol, condition, and the fields the condition needs (see services/alerts.ts)
+apiRouter.post('/alerts/rules', async (req: Request, res: Response) => {
+    let input: AlertRuleInput;
+    try {
+        input = parseAlertRule(req.body ?? {});
+    } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid parameters' });
+        return;
+    }
+
+    try {
+        res.status(201).json(await createAlertRule(input));
+    } catch (error) {
+        sendAlertError(res, error);
+    }
+});
+
+// Get a single alert rule
+apiRouter.get('/alerts/rules/:id', async (req: Request, res: Response) => {
+    try {
+        const rule = await findAlertRule(req, res);
+        if (rule) res.json(rule);
+    } catch (error) {
+        sendAlertError(res, error);
+    }
+});
+
+// Update an alert rule (fields missing from the body keep their current value)
+apiRouter.put('/alerts/rules/:id', async (req: Request, res: Response) => {
+    try {
+        const rule = await findAlertRule(req, res);
+        if (!rule) return;
+
+        let input: AlertRuleInput;
+        try {
+            input = parseAlertRule({ ...rule, ...(req.body ?? {}) });
+        } catch (error) {
+            res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid parameters' });
+            return;
+        }
+        res.json(await updateAlertRule(rule.id, input));
+    } catch (error) {
+        sendAlertError(res, error);
+    }
+});
+
+// Delete an alert rule and its delivery log
+apiRouter.delete('/alerts/rules/:id', async (req: Request, res: Response) => {
+    try {
+        const rule = await findAlertRule(req, res);
+        if (!rule) return;
+
+        await deleteAlertRule(rule.id);
+        res.json({ success: true, id: rule.id });
+    } catch (error) {
+        sendAlertError(res, error);
+    }
+});
+
+// Send a test alert through a rule's webhook (the delivery is logged like any other)
+apiRouter.post('/alerts/rules/:id/test', async (req: Request, res: Response) => {
+    try {
+        const rule = await findAlertRule(req, res);
+        if (!rule) return;
+
+        let delivery: AlertDeliveryRecord;
+        try {
+            delivery = await alertEngine.test(rule);
+        } catch (error) {
+            res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid rule' });
+            return;
+        }
+        res.status(202).json(delivery);
+    } catch (error) {
+        sendAlertError(res, error);
+    }
+});
+
+// Webhook delivery log, newest first (cursor-paginated like /runs)
+apiRouter.get('/alerts/deliveries', async (req: Request, res: Response) => {
+    const { ruleId, symbol, status, limit, cursor } = req.query;
+
+    const pageSize = limit !== undefined ? Number(limit) : 50;
+    if (ruleId !== undefined && !/^\d+$/.test(String(ruleId))) {
+        res.status(400).json({ error: `Invalid ruleId: ${ruleId}` });
+        return;
+    }
+    if (status !== undefined && !isAlertDeliveryStatus(status)) {
+        res.status(400).json({ error: `Invalid status: must be one of ${ALERT_DELIVERY_STATUSES.join(', ')}` });
+        return;
+    }
+    if (!Number.isInteger(pageSize) || pageSize <= 0 || pageSize > 500) {
+        res.status(400).json({ error: `Invalid limit: ${limit} (1-500)` });
+        return;
+    }
+    if (cursor !== undefined && !/^\d+$/.test(String(cursor))) {
+        res.status(400).json({ error: `Invalid cursor: ${cursor}` });
+        return;
+    }
+
+    try {
+        const deliveries = await getAlertDeliveries({
+            ruleId: ruleId !== undefined ? Number(ruleId) : undefined,
+            symbol: typeof symbol === 'string' && symbol !== '' ? symbol : undefined,
+            status,
+            limit: pageSize,
+            cursor: cursor !== undefined ? Number(cursor) : undefined,
+        });
+        res.json({
+            count: deliveries.length,
+            // Id of the oldest delivery when more may follow
+            nextCursor: deliveries.length === pageSize ? deliveries[deliveries.length - 1].id : null,
+            data: deliveries,
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Alert delivery query error:', message);
+        res.status(500).json({ error: message });
+    }
+});
+
 // ========== HISTORY ENDPOINTS ==========
 
-// Get historical skew data for a symbol
+// Largest history file accepted by the import endpoint
+const HISTORY_IMPORT_LIMIT = '100mb';
+
+// Stream matching snapshots as a CSV or NDJSON download
+const sendHistoryExport = async (req: Request, res: Response, symbol?: string) => {
+    let query: HistoryExportQuery;
+    try {
+        query = parseHistoryExportQuery(symbol ? { ...req.query, symbols: symbol } : req.query);
+    } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid parameters' });
+        return;
+    }
+
+    const name = `skew-history${symbol ? `-${getSymbolKey(symbol)}` : ''}-${new Date().toISOString().slice(0, 10)}`;
+    res.setHeader('Content-Type', `${HISTORY_CONTENT_TYPES[query.format]}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="${name}.${query.format}"`);
+
+    let isClientConnected = true;
+    req.on('close', () => {
+        isClientConnected = false;
+    });
+
+    try {
+        for await (const chunk of exportHistory(query)) {
+            if (!isClientConnected) break;
+            res.write(chunk);
+        }
+        res.end();
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('History export error:', message);
+        if (res.headersSent) {
+            res.end();
+        } else {
+            res.status(500).json({ error: message });
+        }
+    }
+};
+
+// Export history for every symbol (optional symbols=/ES,SPY)
+// Note: registered before /history/:symbol so "export" isn't taken for a symbol
+apiRouter.get('/history/export', (req: Request, res: Response) => sendHistoryExport(req, res));
+
+// Export history for one symbol
+apiRouter.get('/history/:symbol/export', (req: Request, res: Response) => sendHistoryExport(req, res, req.params.symbol));
+
+// Import a CSV or NDJSON history file sent as the request body (format=csv|ndjson, or from the content type)
+apiRouter.post('/history/import', text({ type: ['text/*', 'application/x-ndjson', 'application/octet-stream'], limit: HISTORY_IMPORT_LIMIT }), async (req: Request, res: Response) => {
+    const contentType = req.headers['content-type'] ?? '';
+    const format = req.query.format ?? (contentType.includes('ndjson') ? 'ndjson' : contentType.includes('csv') ? 'csv' : undefined);
+    if (!isHistoryFormat(format)) {
+        res.status(400).json({ error: 'Invalid format: pass format=csv|ndjson or a text/csv or application/x-ndjson body' });
+        return;
+    }
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+        res.status(400).json({ error: 'Send the history file as the request body' });
+        return;
+    }
+
+    let records: HistoryFileRecord[];
+    try {
+        records = parseHistoryFile(req.body, format);
+    } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid file' });
+        return;
+    }
+
+    try {
+        const result = await importHistory(records);
+        console.log(`[Import] ${result.imported} of ${result.received} snapshots imported (${result.duplicates} duplicates, ${result.invalid} invalid)`);
+        res.json({ format, ...result });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('History import error:', message);
+        res.status(500).json({ error: message });
+    }
+});
+
+// Get historical skew data for a symbol.
+// Raw snapshots page newest first (pass nextCursor back as cursor); with interval=1h|1d|1w
+// the whole range is returned as open/high/low/close/mean buckets, oldest first.
 apiRouter.get('/history/:symbol', async (req: Request, res: Response) => {
     try {
         const { symbol } = req.params;
-        const { limit, startDate, endDate } = req.query;
+        const { limit, startDate, endDate, version, interval, cursor, lookback = DEFAULT_RANK_LOOKBACK } = req.query;
+        const metricVersion = typeof version === 'string' && version !== '' ? version : LIVE_METRIC_VERSION;
 
-        const history = await getSkewHistory({
+        let params: SkewParams;
+        let range: { startDate?: Date; endDate?: Date };
+        let pageSize: number;
+        try {
+            params = parseSkewParams(req.query);
+            const parseDate = (name: string, value: unknown): Date | undefined => {
+                if (value === undefined || value === '') return undefined;
+                const parsed = new Date(String(value));
+                if (Number.isNaN(parsed.getTime())) {
+                    throw new Error(`Invalid ${name}: ${value}`);
+                }
+                return parsed;
+            };
+            range = { startDate: parseDate('startDate', startDate), endDate: parseDate('endDate', endDate) };
+            pageSize = limit !== undefined ? Number(limit) : 100;
+            if (!Number.isInteger(pageSize) || pageSize <= 0 || pageSize > 500) {
+                throw new Error(`Invalid limit: ${limit} (1-500)`);
+            }
+            if (interval !== undefined && !isHistoryInterval(interval)) {
+                throw new Error(`Invalid interval: must be one of ${Object.keys(HISTORY_INTERVALS).join(', ')}`);
+            }
+            if (cursor !== undefined && !/^\d+$/.test(String(cursor))) {
+                throw new Error(`Invalid cursor: ${cursor}`);
+            }
+            if (!isRankLookback(lookback)) {
+                throw new Error(`Invalid lookback: must be one of ${Object.keys(RANK_LOOKBACKS).join(', ')}`);
+            }
+        } catch (error) {
+            res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid parameters' });
+            return;
+        }
+
+        const query = {
             symbol,
-            limit: limit ? parseInt(limit as string, 10) : 100,
-            startDate: startDate ? new Date(startDate as string) : undefined,
-            endDate: endDate ? new Date(endDate as string) : undefined,
+            ...range,
+            params,
+            version: metricVersion,
+        };
+        // Latest snapshot of the series against its own trailing history
+        const rank = await getSkewRank(query, lookback);
+
+        if (isHistoryInterval(interval)) {
+            const buckets = bucketHistory(await getSkewHistorySeries(query), interval);
+            res.json({
+                symbol: symbol.toUpperCase(),
+                params,
+                version: metricVersion,
+                interval,
+                rank,
+                count: buckets.length,
+                data: buckets,
+            });
+            return;
+        }
+
+        const history = await getSkewHistory({
+            ...query,
+            limit: pageSize,
+            cursor: cursor !== undefined ? Number(cursor) : undefined,
         });
 
         res.json({
             symbol: symbol.toUpperCase(),
+            params,
+            version: metricVersion,
+            rank,
             count: history.length,
+            // Id of the oldest row when more may follow
+            nextCursor: history.length === pageSize ? history[history.length - 1].id : null,
             data: history,
         });
     } catch (error) {
@@ -327,6 +1094,38 @@ apiRouter.get('/history/:symbol', async (req: Request, res: Response) => {
     }
 });
 
+// Get the raw per-option chain a history snapshot was computed from
+apiRouter.get('/snapshots/:id/chain', async (req: Request, res: Response) => {
+    const snapshotId = Number(req.params.id);
+    if (!Number.isInteger(snapshotId) || snapshotId <= 0) {
+        res.status(400).json({ error: `Invalid snapshot id: ${req.params.id}` });
+        return;
+    }
+
+    try {
+        const snapshot = await getSnapshotChain(snapshotId);
+        if (!snapshot) {
+            res.status(404).json({ error: `Snapshot ${snapshotId} not found` });
+            return;
+        }
+        if (snapshot.chain.length === 0) {
+            res.status(404).json({ error: `No chain stored for snapshot ${snapshotId} (recorded before chain storage or past retention)` });
+            return;
+        }
+
+        const { chain, ...aggregates } = snapshot;
+        res.json({
+            snapshot: aggregates,
+            count: chain.length,
+            data: chain,
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Snapshot chain query error:', message);
+        res.status(500).json({ error: message });
+    }
+});
+
 // Get all symbols with historical data
 apiRouter.get('/history', async (_req: Request, res: Response) => {
     try {
@@ -0,0 +1,49 @@
+import 'dotenv/config';
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { importHistory, parseHistoryFile, isHistoryFormat } from '../services/historyTransfer';
+import { prisma } from '../services/db';
+
+/**
+ * Import a history file exported by /api/history/export (or written by hand).
+ *
+ * npm run import-history -- skew-history.csv [--format csv|ndjson]
+ *
+ * The format defaults to the file extension (.csv, .ndjson or .jsonl).
+ */
+
+const main = async (): Promise<void> => {
+    const { values, positionals } = parseArgs({
+        options: {
+            format: { type: 'string' }
+        },
+        allowPositionals: true
+    });
+
+    const [file] = positionals;
+    if (!file) {
+        throw new Error('Usage: npm run import-history -- <file> [--format csv|ndjson]');
+    }
+
+    const extension = extname(file).toLowerCase();
+    const format = values.format ?? (extension === '.jsonl' ? 'ndjson' : extension.slice(1));
+    if (!isHistoryFormat(format)) {
+        throw new Error(`Unknown format "${format}": pass --format csv or --format ndjson`);
+    }
+
+    const records = parseHistoryFile(await readFile(file, 'utf8'), format);
+    const result = await importHistory(records);
+
+    for (const [line, message] of Object.entries(result.errors)) {
+        console.log(`[Import] Line ${line}: ${message}`);
+    }
+    console.log(`[Import] ${result.imported} of ${result.received} snapshots imported (${result.duplicates} duplicates, ${result.invalid} invalid)`);
+};
+
+main()
+    .catch((error) => {
+        console.error('[Import]', error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
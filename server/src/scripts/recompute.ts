@@ -0,0 +1,43 @@
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { parseRecomputeRequest, runRecompute } from '../services/recompute';
+import { prisma } from '../services/db';
+
+/**
+ * Recompute history from stored chains as a named metric version.
+ *
+ * npm run recompute -- --version wide --minDelta 0.05 --maxDelta 0.40 \
+ *     [--centerDelta 0.2] [--symbols /ES,SPY] [--startDate 2026-01-01] [--endDate 2026-06-30] [--targetDte 30]
+ */
+
+const main = async (): Promise<void> => {
+    const { values } = parseArgs({
+        options: {
+            version: { type: 'string' },
+            minDelta: { type: 'string' },
+            maxDelta: { type: 'string' },
+            centerDelta: { type: 'string' },
+            symbols: { type: 'string' },
+            startDate: { type: 'string' },
+            endDate: { type: 'string' },
+            targetDte: { type: 'string' }
+        }
+    });
+
+    const request = parseRecomputeRequest(values);
+    const run = await runRecompute(request, ({ processed, written, failed }) => {
+        console.log(`[Recompute] ${processed} processed, ${written} written, ${failed} failed`);
+    });
+
+    for (const [snapshotId, message] of Object.entries(run.errors)) {
+        console.log(`[Recompute] Snapshot ${snapshotId}: ${message}`);
+    }
+    console.log(`[Recompute] Version "${run.version}" done: ${run.written} of ${run.processed} snapshots written`);
+};
+
+main()
+    .catch((error) => {
+        console.error('[Recompute]', error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
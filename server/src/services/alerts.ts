@@ -0,0 +1,429 @@
+import { resolveSkewParams, SkewParams } from './tastytrade';
+import {
+    onSnapshotSaved,
+    getEnabledAlertRules,
+    getSkewHistory,
+    saveAlertRuleState,
+    AlertCondition,
+    ALERT_CONDITIONS,
+    isAlertCondition,
+    AlertRuleInput,
+    AlertRuleRecord,
+    AlertDeliveryRecord,
+    SavedSnapshot
+} from './db';
+import { getSkewRank, isRankLookback, RANK_LOOKBACKS, RANK_METRICS, DEFAULT_RANK_LOOKBACK, RankLookback, RankMetric } from './skewRank';
+import { getSentimentLabel, isSentimentLabel, SENTIMENT_LABELS } from './sentiment';
+import { WebhookDispatcher } from './webhooks';
+
+/**
+ * Alert rules engine.
+ *
+ * Every live snapshot saved through saveSkewSnapshot is checked against the
+ * enabled rules for its symbol and series (delta band and target DTE):
+ *  - crosses_above / crosses_below: the metric crossed the threshold since the previous snapshot
+ *  - change_pct: the metric moved by at least threshold percent (negative for a fall) over windowMinutes
+ *  - sentiment_change: the sentiment label changed, optionally from and/or to given labels
+ *  - percentile_above / percentile_below: the metric's skew rank reached the threshold percentile
+ * Change and percentile rules fire when their condition starts to hold, not on every
+ * snapshot while it does. A rule fires at most once per cooldownMinutes.
+ */
+
+export const ALERT_METRICS = [
+    'oiSkew',
+    'pricingSkew',
+    'impliedMove',
+    'volumeSkew',
+    'deltaWeightedSkew',
+    'premiumWeightedSkew',
+    'notionalWeightedSkew',
+    'underlyingPrice'
+] as const;
+export type AlertMetric = typeof ALERT_METRICS[number];
+
+// Metric names used in alert messages
+const METRIC_LABELS: Record<AlertMetric, string> = {
+    oiSkew: 'OI skew',
+    pricingSkew: 'pricing skew',
+    impliedMove: 'implied move',
+    volumeSkew: 'volume skew',
+    deltaWeightedSkew: 'delta-weighted skew',
+    premiumWeightedSkew: 'premium-weighted skew',
+    notionalWeightedSkew: 'notional-weighted skew',
+    underlyingPrice: 'underlying price'
+};
+
+// Webhook used by rules without their own
+const DEFAULT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL || null;
+
+const MAX_NAME_LENGTH = 80;
+
+interface Evaluation {
+    // Whether the rule's condition holds for this snapshot
+    active: boolean;
+    // Whether the rule fires (a crossing, a label change or the condition starting to hold)
+    triggered: boolean;
+    message: string;
+    // Condition-specific values sent with the alert
+    details: Record<string, unknown>;
+}
+
+type SnapshotValues = Pick<SavedSnapshot, 'oiSkew' | 'pricingSkew'> & Partial<Record<AlertMetric, number | null>>;
+
+const isPercentileCondition = (condition: AlertCondition): boolean =>
+    condition === 'percentile_above' || condition === 'percentile_below';
+
+const formatValue = (value: number | null | undefined): string =>
+    value === null || value === undefined ? 'n/a' : String(Number(value.toPrecision(4)));
+
+const formatWindow = (minutes: number): string =>
+    minutes % 1440 === 0 ? `${minutes / 1440}d` : minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+
+const readMetric = (snapshot: SnapshotValues | null, metric: string): number | null =>
+    snapshot?.[metric as AlertMetric] ?? null;
+
+/**
+ * Build a rule from raw input (JSON body, numbers may be strings). Fields that don't
+ * apply to the condition are cleared. Throws on a missing or invalid field.
+ */
+export const parseAlertRule = (raw: Record<string, unknown>): AlertRuleInput => {
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (name === '' || name.length > MAX_NAME_LENGTH) {
+        throw new Error(`Invalid name: use 1-${MAX_NAME_LENGTH} characters`);
+    }
+
+    const symbol = typeof raw.symbol === 'string' ? raw.symbol.trim().toUpperCase() : '';
+    if (symbol === '') {
+        throw new Error('Missing symbol');
+    }
+
+    const { condition } = raw;
+    if (!isAlertCondition(condition)) {
+        throw new Error(`Invalid condition: must be one of ${ALERT_CONDITIONS.join(', ')}`);
+    }
+
+    const parseNumber = (name: string): number | undefined => {
+        const value = raw[name];
+        if (value === undefined || value === null || value === '') return undefined;
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed)) {
+            throw new Error(`Invalid ${name}: ${value}`);
+        }
+        return parsed;
+    };
+    const parseLabel = (name: string): string | null => {
+        const value = raw[name];
+        if (value === undefined || value === null || value === '') return null;
+        if (!isSentimentLabel(value)) {
+            throw new Error(`Invalid ${name}: must be one of ${SENTIMENT_LABELS.join(', ')}`);
+        }
+        return value;
+    };
+
+    // Sentiment rules read the OI and pricing skew, whatever the metric
+    const metric = condition === 'sentiment_change' ? 'oiSkew' : raw.metric ?? 'oiSkew';
+    const metrics: readonly string[] = isPercentileCondition(condition) ? RANK_METRICS : ALERT_METRICS;
+    if (typeof metric !== 'string' || !metrics.includes(metric)) {
+        throw new Error(`Invalid metric for ${condition}: must be one of ${metrics.join(', ')}`);
+    }
+
+    const threshold = parseNumber('threshold');
+    if (condition !== 'sentiment_change' && threshold === undefined) {
+        throw new Error(`Missing threshold for ${condition}`);
+    }
+    if (isPercentileCondition(condition) && threshold !== undefined && (threshold < 0 || threshold > 100)) {
+        throw new Error('Invalid threshold: percentile must be between 0 and 100');
+    }
+    if (condition === 'change_pct' && threshold === 0) {
+        throw new Error('Invalid threshold: percent change must not be 0');
+    }
+
+    const windowMinutes = parseNumber('windowMinutes');
+    if (condition === 'change_pct' && (windowMinutes === undefined || !Number.isInteger(windowMinutes) || windowMinutes <= 0)) {
+        throw new Error('Invalid windowMinutes: change_pct needs a positive whole number of minutes');
+    }
+
+    const lookback = raw.lookback ?? DEFAULT_RANK_LOOKBACK;
+    if (isPercentileCondition(condition) && !isRankLookback(lookback)) {
+        throw new Error(`Invalid lookback: must be one of ${Object.keys(RANK_LOOKBACKS).join(', ')}`);
+    }
+
+    const fromSentiment = condition === 'sentiment_change' ? parseLabel('fromSentiment') : null;
+    const toSentiment = condition === 'sentiment_change' ? parseLabel('toSentiment') : null;
+    if (fromSentiment !== null && fromSentiment === toSentiment) {
+        throw new Error('Invalid sentiment change: fromSentiment and toSentiment are the same');
+    }
+
+    const webhookUrl = typeof raw.webhookUrl === 'string' && raw.webhookUrl.trim() !== '' ? raw.webhookUrl.trim() : null;
+    if (webhookUrl !== null) {
+        let protocol: string;
+        try {
+            protocol = new URL(webhookUrl).protocol;
+        } catch {
+            throw new Error(`Invalid webhookUrl: ${webhookUrl}`);
+        }
+        if (protocol !== 'http:' && protocol !== 'https:') {
+            throw new Error('Invalid webhookUrl: must be an http(s) URL');
+        }
+    } else if (!DEFAULT_WEBHOOK_URL) {
+        throw new Error('Missing webhookUrl (ALERT_WEBHOOK_URL is not configured)');
+    }
+
+    const cooldownMinutes = parseNumber('cooldownMinutes') ?? 60;
+    if (!Number.isInteger(cooldownMinutes) || cooldownMinutes < 0) {
+        throw new Error('Invalid cooldownMinutes: must be a non-negative integer');
+    }
+
+    const { minDelta, maxDelta, centerDelta, targetDte } = resolveSkewParams({
+        minDelta: parseNumber('minDelta'),
+        maxDelta: parseNumber('maxDelta'),
+        centerDelta: parseNumber('centerDelta'),
+        targetDte: parseNumber('targetDte'),
+    });
+
+    return {
+        name,
+        symbol,
+        condition,
+        metric,
+        threshold: condition === 'sentiment_change' ? null : threshold!,
+        windowMinutes: condition === 'change_pct' ? windowMinutes! : null,
+        lookback: isPercentileCondition(condition) ? lookback as RankLookback : null,
+        fromSentiment,
+        toSentiment,
+        webhookUrl,
+        cooldownMinutes,
+        enabled: raw.enabled === undefined ? true : raw.enabled === true || raw.enabled === 'true',
+        minDelta,
+        maxDelta,
+        centerDelta,
+        targetDte
+    };
+};
+
+export class AlertEngine {
+    private readonly webhooks = new WebhookDispatcher();
+    // Snapshots are evaluated one at a time, in the order they were saved
+    private queue: Promise<void> = Promise.resolve();
+    private started = false;
+
+    /**
+     * Evaluate rules after every saved snapshot and resume pending deliveries
+     */
+    start(): void {
+        if (this.started) return;
+        this.started = true;
+
+        onSnapshotSaved(snapshot => this.enqueue(snapshot));
+        this.webhooks.resume().catch(error => console.error('[Alerts] Failed to resume deliveries:', error));
+        console.log(`[Alerts] Evaluating alert rules on new snapshots${DEFAULT_WEBHOOK_URL ? ' (default webhook configured)' : ''}`);
+    }
+
+    /**
+     * Send a test alert through a rule's webhook
+     */
+    async test(rule: AlertRuleRecord): Promise<AlertDeliveryRecord> {
+        const url = rule.webhookUrl ?? DEFAULT_WEBHOOK_URL;
+        if (!url) {
+            throw new Error('Rule has no webhookUrl and ALERT_WEBHOOK_URL is not configured');
+        }
+
+        const message = `Test alert from rule "${rule.name}" (${rule.symbol})`;
+        return this.webhooks.send({
+            ruleId: rule.id,
+            snapshotId: null,
+            symbol: rule.symbol,
+            message,
+            url,
+            payload: {
+                text: message,
+                content: message,
+                test: true,
+                rule: this.describeRule(rule),
+                triggeredAt: new Date().toISOString()
+            }
+        });
+    }
+
+    private enqueue(snapshot: SavedSnapshot): Promise<void> {
+        this.queue = this.queue
+            .then(() => this.evaluateSnapshot(snapshot))
+            .catch(error => console.error(`[Alerts] Evaluation failed for ${snapshot.symbol}:`, error));
+        return this.queue;
+    }
+
+    private async evaluateSnapshot(snapshot: SavedSnapshot): Promise<void> {
+        const params: SkewParams = {
+            minDelta: snapshot.minDelta,
+            maxDelta: snapshot.maxDelta,
+            centerDelta: snapshot.centerDelta,
+            targetDte: snapshot.targetDte
+        };
+        const rules = await getEnabledAlertRules(snapshot.symbol, params);
+        if (rules.length === 0) return;
+
+        const [previous] = await getSkewHistory({
+            symbol: snapshot.symbol,
+            params,
+            endDate: new Date(snapshot.timestamp.getTime() - 1),
+            limit: 1
+        });
+
+        for (const rule of rules) {
+            try {
+                const evaluation = await this.evaluateRule(rule, snapshot, previous ?? null, params);
+                const coolingDown = rule.lastTriggeredAt !== null &&
+                    Date.now() - rule.lastTriggeredAt.getTime() < rule.cooldownMinutes * 60 * 1000;
+                const fire = evaluation.triggered && !coolingDown;
+
+                if (evaluation.active !== rule.active || fire) {
+                    await saveAlertRuleState(rule.id, evaluation.active, fire ? new Date() : undefined);
+                }
+                if (evaluation.triggered && coolingDown) {
+                    console.log(`[Alerts] Rule ${rule.id} (${rule.name}) triggered during its cooldown, not sent`);
+                }
+                if (!fire) continue;
+
+                console.log(`[Alerts] Rule ${rule.id} (${rule.name}): ${evaluation.message}`);
+                const url = rule.webhookUrl ?? DEFAULT_WEBHOOK_URL;
+                if (!url) {
+                    console.warn(`[Alerts] Rule ${rule.id} has no webhook (ALERT_WEBHOOK_URL is not configured)`);
+                    continue;
+                }
+                await this.webhooks.send({
+                    ruleId: rule.id,
+                    snapshotId: snapshot.id,
+                    symbol: snapshot.symbol,
+                    message: evaluation.message,
+                    url,
+                    payload: {
+                        // Rendered as-is by Slack (text) and Discord (content) webhooks
+                        text: evaluation.message,
+                        content: evaluation.message,
+                        rule: this.describeRule(rule),
+                        symbol: snapshot.symbol,
+                        triggeredAt: new Date().toISOString(),
+                        ...evaluation.details,
+                        snapshot: {
+                            id: snapshot.id,
+                            timestamp: snapshot.timestamp.toISOString(),
+                            oiSkew: snapshot.oiSkew,
+                            pricingSkew: snapshot.pricingSkew,
+                            impliedMove: snapshot.impliedMove,
+                            underlyingPrice: snapshot.underlyingPrice,
+                            expirationDate: snapshot.expirationDate,
+                            dte: snapshot.dte
+                        }
+                    }
+                });
+            } catch (error) {
+                console.error(`[Alerts] Failed to evaluate rule ${rule.id} for ${snapshot.symbol}:`, error);
+            }
+        }
+    }
+
+    private async evaluateRule(
+        rule: AlertRuleRecord,
+        snapshot: SavedSnapshot,
+        previous: SnapshotValues | null,
+        params: SkewParams
+    ): Promise<Evaluation> {
+        const label = METRIC_LABELS[rule.metric as AlertMetric] ?? rule.metric;
+        const value = readMetric(snapshot, rule.metric);
+        const threshold = rule.threshold ?? 0;
+        const inactive: Evaluation = { active: false, triggered: false, message: '', details: {} };
+
+        switch (rule.condition) {
+            case 'crosses_above':
+            case 'crosses_below': {
+                if (value === null) return inactive;
+                const prior = readMetric(previous, rule.metric);
+                const above = rule.condition === 'crosses_above';
+                return {
+                    active: above ? value >= threshold : value <= threshold,
+                    triggered: prior !== null && (above ? prior < threshold && value >= threshold : prior > threshold && value <= threshold),
+                    message: `${snapshot.symbol} ${label} crossed ${above ? 'above' : 'below'} ${formatValue(threshold)}: ${formatValue(prior)} → ${formatValue(value)}`,
+                    details: { metric: rule.metric, value, previous: prior, threshold }
+                };
+            }
+
+            case 'change_pct': {
+                const windowMinutes = rule.windowMinutes ?? 0;
+                const [reference] = await getSkewHistory({
+                    symbol: snapshot.symbol,
+                    params,
+                    endDate: new Date(snapshot.timestamp.getTime() - windowMinutes * 60 * 1000),
+                    limit: 1
+                });
+                const base = readMetric(reference ?? null, rule.metric);
+                if (value === null || base === null || base === 0) return inactive;
+
+                const change = ((value - base) / Math.abs(base)) * 100;
+                const active = threshold > 0 ? change >= threshold : change <= threshold;
+                return {
+                    active,
+                    triggered: active && !rule.active,
+                    message: `${snapshot.symbol} ${label} ${change >= 0 ? 'rose' : 'fell'} ${Math.abs(change).toFixed(1)}% over ${formatWindow(windowMinutes)}: ${formatValue(base)} → ${formatValue(value)}`,
+                    details: {
+                        metric: rule.metric,
+                        value,
+                        reference: base,
+                        referenceTimestamp: reference.timestamp.toISOString(),
+                        changePct: change,
+                        threshold
+                    }
+                };
+            }
+
+            case 'sentiment_change': {
+                const sentiment = getSentimentLabel(snapshot.oiSkew, snapshot.pricingSkew);
+                const prior = previous ? getSentimentLabel(previous.oiSkew, previous.pricingSkew) : null;
+                return {
+                    active: rule.toSentiment !== null && sentiment === rule.toSentiment,
+                    triggered: prior !== null && prior !== sentiment &&
+                        (rule.fromSentiment === null || prior === rule.fromSentiment) &&
+                        (rule.toSentiment === null || sentiment === rule.toSentiment),
+                    message: `${snapshot.symbol} sentiment changed from ${prior} to ${sentiment} (OI skew ${formatValue(previous?.oiSkew)} → ${formatValue(snapshot.oiSkew)})`,
+                    details: { sentiment, previousSentiment: prior }
+                };
+            }
+
+            case 'percentile_above':
+            case 'percentile_below': {
+                const lookback = isRankLookback(rule.lookback) ? rule.lookback : DEFAULT_RANK_LOOKBACK;
+                const rank = await getSkewRank({ symbol: snapshot.symbol, params }, lookback, {
+                    oiSkew: snapshot.oiSkew,
+                    pricingSkew: snapshot.pricingSkew,
+                    impliedMove: snapshot.impliedMove
+                });
+                const metricRank = rank?.[rule.metric as RankMetric] ?? null;
+                if (!metricRank) return inactive;
+
+                const above = rule.condition === 'percentile_above';
+                const active = above ? metricRank.percentile >= threshold : metricRank.percentile <= threshold;
+                return {
+                    active,
+                    triggered: active && !rule.active,
+                    message: `${snapshot.symbol} ${label} ${formatValue(metricRank.value)} ranks at percentile ${metricRank.percentile.toFixed(0)} of its ${lookback} history`,
+                    details: { metric: rule.metric, value: metricRank.value, rank: metricRank, lookback, threshold }
+                };
+            }
+
+            default:
+                return inactive;
+        }
+    }
+
+    private describeRule(rule: AlertRuleRecord) {
+        return {
+            id: rule.id,
+            name: rule.name,
+            symbol: rule.symbol,
+            condition: rule.condition,
+            metric: rule.metric,
+            threshold: rule.threshold
+        };
+    }
+}
+
+export const alertEngine = new AlertEngine();
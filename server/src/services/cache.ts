@@ -1,41 +1,87 @@
 /**
- * Simple in-memory cache with TTL (Time To Live)
- * Perfect for single-instance servers without Redis overhead
+ * Result cache with TTL (Time To Live)
+ *
+ * MemoryCache is a plain in-process cache, perfect for single-instance servers
+ * without Redis overhead. PersistentCache keeps the same in-memory layer but writes
+ * every entry through to SQLite, so results survive a restart.
+ *
+ * Entries past their TTL are kept for a stale window: get() ignores them, while
+ * getEntry() still returns them flagged as stale (stale-while-revalidate).
  */
 
+import { SkewParams, DEFAULT_SKEW_PARAMS } from './tastytrade';
+import { getSessionState, nextSessionOpen } from './marketHours';
+import { getTradingCalendar } from '../config/assets';
+import { loadCacheEntries, saveCacheEntry, deleteCacheEntry, deleteCacheEntries, pruneCacheEntries } from './db';
+
 interface CacheEntry<T> {
     data: T;
+    updatedAt: number;
     expiresAt: number;
 }
 
-class MemoryCache<T> {
-    private cache = new Map<string, CacheEntry<T>>();
+export interface CacheLookup<T> {
+    data: T;
+    updatedAt: Date;
+    expiresAt: Date;
+    // Past its TTL, served until a refresh replaces it
+    stale: boolean;
+}
+
+export interface Cache<T> {
+    get(key: string): T | null;
+    getEntry(key: string): CacheLookup<T> | null;
+    set(key: string, data: T, ttlMs?: number): void;
+    has(key: string): boolean;
+    delete(key: string): void;
+    deleteByPrefix(prefix: string): number;
+    clear(): void;
+    stats(): { size: number; keys: string[] };
+}
+
+class MemoryCache<T> implements Cache<T> {
+    protected cache = new Map<string, CacheEntry<T>>();
     private defaultTtlMs: number;
+    protected staleTtlMs: number;
 
-    constructor(defaultTtlMs: number = 60 * 60 * 1000) { // Default: 1 hour
+    constructor(defaultTtlMs: number = 60 * 60 * 1000, staleTtlMs: number = 0) { // Default: 1 hour, no stale window
         this.defaultTtlMs = defaultTtlMs;
+        this.staleTtlMs = staleTtlMs;
 
         // Cleanup expired entries every 5 minutes
         setInterval(() => this.cleanup(), 5 * 60 * 1000);
     }
 
     get(key: string): T | null {
+        const entry = this.getEntry(key);
+        return entry && !entry.stale ? entry.data : null;
+    }
+
+    getEntry(key: string): CacheLookup<T> | null {
         const entry = this.cache.get(key);
 
         if (!entry) return null;
 
-        if (Date.now() > entry.expiresAt) {
+        const now = Date.now();
+        if (now > entry.expiresAt + this.staleTtlMs) {
             this.cache.delete(key);
             return null;
         }
 
-        return entry.data;
+        return {
+            data: entry.data,
+            updatedAt: new Date(entry.updatedAt),
+            expiresAt: new Date(entry.expiresAt),
+            stale: now > entry.expiresAt
+        };
     }
 
     set(key: string, data: T, ttlMs?: number): void {
+        const now = Date.now();
         this.cache.set(key, {
             data,
-            expiresAt: Date.now() + (ttlMs ?? this.defaultTtlMs)
+            updatedAt: now,
+            expiresAt: now + (ttlMs ?? this.defaultTtlMs)
         });
     }
 
@@ -47,16 +93,27 @@ class MemoryCache<T> {
         this.cache.delete(key);
     }
 
+    deleteByPrefix(prefix: string): number {
+        let deleted = 0;
+        for (const key of Array.from(this.cache.keys())) {
+            if (key.startsWith(prefix)) {
+                this.cache.delete(key);
+                deleted++;
+            }
+        }
+        return deleted;
+    }
+
     clear(): void {
         this.cache.clear();
     }
 
-    private cleanup(): void {
+    protected cleanup(): void {
         const now = Date.now();
         let cleaned = 0;
 
         for (const [key, entry] of this.cache) {
-            if (now > entry.expiresAt) {
+            if (now > entry.expiresAt + this.staleTtlMs) {
                 this.cache.delete(key);
                 cleaned++;
             }
@@ -80,8 +137,124 @@ class MemoryCache<T> {
     }
 }
 
-// Export a singleton cache instance for skew results (1 hour TTL)
-export const skewCache = new MemoryCache<any>(60 * 60 * 1000);
+/**
+ * MemoryCache written through to the CacheEntry table.
+ * Reads are served from memory; load() restores the table on startup.
+ * Database errors are logged and never break the caller.
+ */
+class PersistentCache<T> extends MemoryCache<T> {
+    async load(): Promise<number> {
+        try {
+            const entries = await loadCacheEntries(new Date(Date.now() - this.staleTtlMs));
+            for (const entry of entries) {
+                this.cache.set(entry.key, {
+                    data: JSON.parse(entry.value) as T,
+                    updatedAt: entry.updatedAt.getTime(),
+                    expiresAt: entry.expiresAt.getTime()
+                });
+            }
+            console.log(`[Cache] Restored ${entries.length} entries from the database`);
+            return entries.length;
+        } catch (error) {
+            console.error('[Cache] Failed to restore entries:', error);
+            return 0;
+        }
+    }
+
+    set(key: string, data: T, ttlMs?: number): void {
+        super.set(key, data, ttlMs);
+        const entry = this.cache.get(key)!;
+        this.persist(`save ${key}`, saveCacheEntry({
+            key,
+            value: JSON.stringify(data),
+            updatedAt: new Date(entry.updatedAt),
+            expiresAt: new Date(entry.expiresAt)
+        }));
+    }
+
+    delete(key: string): void {
+        super.delete(key);
+        this.persist(`delete ${key}`, deleteCacheEntry(key));
+    }
+
+    deleteByPrefix(prefix: string): number {
+        const deleted = super.deleteByPrefix(prefix);
+        this.persist(`delete ${prefix}*`, deleteCacheEntries(prefix));
+        return deleted;
+    }
+
+    clear(): void {
+        super.clear();
+        this.persist('clear', deleteCacheEntries());
+    }
+
+    protected cleanup(): void {
+        super.cleanup();
+        this.persist('prune', pruneCacheEntries(new Date(Date.now() - this.staleTtlMs)));
+    }
+
+    private persist(action: string, write: Promise<unknown>): void {
+        write.catch(error => console.error(`[Cache] Failed to ${action}:`, error));
+    }
+}
+
+// Helper to normalize symbol (uppercase, no leading slash variations)
+export const getSymbolKey = (symbol: string): string => {
+    return symbol.toUpperCase().replace(/^\/+/, '');
+};
+
+// Cache key includes the calculation params so different settings never collide
+export const getSkewCacheKey = (symbol: string, params: SkewParams = DEFAULT_SKEW_PARAMS): string => {
+    const key = `${getSymbolKey(symbol)}:${params.minDelta}-${params.maxDelta}@${params.centerDelta}:${params.targetDte}d`;
+    return `${key}${getExpirationKeySuffix(params)}`;
+};
+
+/**
+ * Cache key suffix for an expiration type filter or exact date (empty for the default)
+ */
+export const getExpirationKeySuffix = (params: Pick<SkewParams, 'expirationType' | 'expirationDate'>): string => {
+    if (params.expirationDate) return `:exp=${params.expirationDate}`;
+    if (params.expirationType) return `:type=${params.expirationType}`;
+    return '';
+};
+
+// TTL while a symbol's market is open (default: 15 minutes)
+const CACHE_OPEN_TTL_MS = Number(process.env.CACHE_OPEN_TTL_MS) || 15 * 60 * 1000;
+
+/**
+ * Cache TTL for a symbol's results, following its trading calendar:
+ * short while the session is open, otherwise valid until the next session opens
+ * (results computed after the close can't change overnight or over the weekend)
+ */
+export const getSessionTtlMs = (symbol: string, now: Date = new Date()): number => {
+    const calendar = getTradingCalendar(symbol);
+    if (getSessionState(calendar, now) === 'open') return CACHE_OPEN_TTL_MS;
+
+    const nextOpen = nextSessionOpen(calendar, now);
+    return nextOpen ? nextOpen.getTime() - now.getTime() : CACHE_OPEN_TTL_MS;
+};
+
+// How long expired results are still served as stale (default: 7 days, covers weekends and holidays)
+const CACHE_STALE_MS = Number(process.env.CACHE_STALE_MS) || 7 * 24 * 60 * 60 * 1000;
+
+// CACHE_STORE=memory skips the database and starts empty after every restart
+const createCache = <T>(ttlMs: number): MemoryCache<T> => process.env.CACHE_STORE === 'memory'
+    ? new MemoryCache<T>(ttlMs, CACHE_STALE_MS)
+    : new PersistentCache<T>(ttlMs, CACHE_STALE_MS);
+
+// Export a singleton cache instance for skew results (callers pass getSessionTtlMs).
+// Smile, GEX, OI distribution and term structure results share it under their own keys,
+// so values are unknown until read back under a known key.
+export const skewCache = createCache<unknown>(CACHE_OPEN_TTL_MS);
+
+/**
+ * Restore persisted entries (no-op for the memory store)
+ */
+export const loadSkewCache = async (): Promise<void> => {
+    if (skewCache instanceof PersistentCache) {
+        await skewCache.load();
+    }
+};
 
-// Export the class for other use cases
-export { MemoryCache };
+// Export the classes for other use cases
+export { MemoryCache, PersistentCache };
@@ -0,0 +1,103 @@
+import { getZonedTime, ZonedTime } from './marketHours';
+
+/**
+ * Minimal 5-field cron expressions: "minute hour day-of-month month day-of-week".
+ * Supports "*", lists ("0,30"), ranges ("9-16") and steps ("0-59/15", "9-16/2").
+ * Day-of-week accepts 0-7 (0 and 7 are Sunday).
+ */
+export interface CronSchedule {
+    expression: string;
+    matches(time: ZonedTime): boolean;
+    // Whether any minute of the given hour can match
+    matchesHour(time: ZonedTime): boolean;
+}
+
+const FIELD_RANGES: [number, number][] = [
+    [0, 59],  // minute
+    [0, 23],  // hour
+    [1, 31],  // day of month
+    [1, 12],  // month
+    [0, 7]    // day of week
+];
+
+const parseField = (field: string, min: number, max: number): Set<number> => {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [range, stepRaw] = part.split('/');
+        const step = stepRaw === undefined ? 1 : Number(stepRaw);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid cron step: ${part}`);
+        }
+
+        let start = min;
+        let end = max;
+        if (range !== '*') {
+            const [from, to] = range.split('-');
+            start = Number(from);
+            end = to === undefined ? (stepRaw === undefined ? start : max) : Number(to);
+        }
+
+        if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+            throw new Error(`Invalid cron field: ${part} (allowed ${min}-${max})`);
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+};
+
+/**
+ * Parse a cron expression (throws on invalid input)
+ */
+export const parseCron = (expression: string): CronSchedule => {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+
+    const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseField(field, ...FIELD_RANGES[i]));
+    if (weekdays.has(7)) weekdays.add(0);
+
+    // Standard cron: when both day fields are restricted, either may match
+    const dayRestricted = fields[2] !== '*';
+    const weekdayRestricted = fields[4] !== '*';
+
+    const matchesHour = (time: ZonedTime): boolean => {
+        if (!hours.has(time.hour) || !months.has(time.month)) return false;
+        const dayMatch = days.has(time.day);
+        const weekdayMatch = weekdays.has(time.weekday);
+        if (dayRestricted && weekdayRestricted) return dayMatch || weekdayMatch;
+        return dayMatch && weekdayMatch;
+    };
+
+    return {
+        expression,
+        matchesHour,
+        matches: (time: ZonedTime): boolean => minutes.has(time.minute) && matchesHour(time)
+    };
+};
+
+/**
+ * Next minute after `from` matching the schedule, searching up to one year ahead
+ */
+export const nextCronRun = (schedule: CronSchedule, from: Date, timeZone: string): Date | null => {
+    const MINUTE_MS = 60 * 1000;
+    let candidate = Math.floor(from.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+    const limit = candidate + 366 * 24 * 60 * MINUTE_MS;
+
+    while (candidate < limit) {
+        const time = getZonedTime(new Date(candidate), timeZone);
+        if (schedule.matches(time)) {
+            return new Date(candidate);
+        }
+
+        // Skip the rest of the hour when no minute in it can match
+        candidate += schedule.matchesHour(time) ? MINUTE_MS : (60 - time.minute) * MINUTE_MS;
+    }
+
+    return null;
+};
@@ -1,64 +1,260 @@
-import { PrismaClient } from '@prisma/client';
-import { SkewResult } from './tastytrade';
+import { AlertDelivery, AlertRule, Prisma, PrismaClient } from '@prisma/client';
+import { SkewParams, SkewResult, DEFAULT_SKEW_PARAMS, getChainSnapshot, StoredChain, ChainOptionSnapshot, GreeksSource } from './tastytrade';
+import { BucketMetric, HistoryRow } from './historyBuckets';
 
 // Singleton Prisma client
 const prisma = new PrismaClient();
 
+// Days of raw chain data kept with history snapshots (0 stops storing chains)
+const CHAIN_RETENTION_DAYS = process.env.CHAIN_RETENTION_DAYS !== undefined ? Number(process.env.CHAIN_RETENTION_DAYS) : 30;
+const CHAIN_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+let lastChainPruneAt = 0;
+
+// Days of calculation runs kept in the audit log
+const RUN_RETENTION_DAYS = Number(process.env.RUN_RETENTION_DAYS) || 30;
+const RUN_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+let lastRunPruneAt = 0;
+
+// Days of webhook deliveries kept in the alert delivery log
+const ALERT_DELIVERY_RETENTION_DAYS = Number(process.env.ALERT_DELIVERY_RETENTION_DAYS) || 30;
+const DELIVERY_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+let lastDeliveryPruneAt = 0;
+
+// Metric version of snapshots recorded from live calculations
+export const LIVE_METRIC_VERSION = 'live';
+
 export interface SkewHistoryQuery {
     symbol: string;
     limit?: number;
     startDate?: Date;
     endDate?: Date;
+    params?: SkewParams;
+    // Recomputed series to read instead of the live one
+    version?: string;
+    // Id of the last row of the previous page (raw history pages run newest first)
+    cursor?: number;
 }
 
+export interface ChainSourceQuery {
+    symbols?: string[];
+    startDate?: Date;
+    endDate?: Date;
+    targetDte?: number;
+}
+
+export interface SnapshotExportQuery {
+    symbols?: string[];
+    startDate?: Date;
+    endDate?: Date;
+    // Metric version to export (every version when omitted)
+    version?: string;
+}
+
+// Fields that identify a snapshot for import de-duplication
+export type SnapshotIdentity = { symbol: string; timestamp: Date; metricVersion: string };
+
+// Snapshot columns as inserted by an import
+export type SnapshotInput = SnapshotIdentity & Prisma.SkewSnapshotCreateManyInput;
+
+// ChainOptionSnapshot row as stored (type and source are plain strings)
+type StoredChainOption = Omit<ChainOptionSnapshot, 'type' | 'greeksSource'> & {
+    type: string;
+    greeksSource: string | null;
+};
+
+/**
+ * Live snapshot with its stored chain, as recomputation reads it
+ */
+export interface ChainSource {
+    id: number;
+    symbol: string;
+    timestamp: Date;
+    expirationDate: string;
+    dte: number;
+    targetDte: number;
+    underlyingPrice: number | null;
+    chain: StoredChainOption[];
+}
+
+/**
+ * Aggregate columns of a skew result
+ */
+const toSnapshotFields = (symbol: string, result: SkewResult) => ({
+    symbol: symbol.toUpperCase(),
+    oiSkew: result.skew,
+    pricingSkew: result.pricingSkew,
+    impliedMove: result.impliedMove,
+    underlyingPrice: result.underlyingPrice,
+    dte: result.dte,
+    expirationDate: result.expirationDate,
+    callOi: result.callOi,
+    putOi: result.putOi,
+    volumeSkew: result.volumeSkew,
+    callVolume: result.callVolume,
+    putVolume: result.putVolume,
+    deltaWeightedSkew: result.deltaWeightedSkew,
+    premiumWeightedSkew: result.premiumWeightedSkew,
+    notionalWeightedSkew: result.notionalWeightedSkew,
+    callDelta: result.callDelta,
+    putDelta: result.putDelta,
+    riskReversal25: result.riskReversal25,
+    butterfly25: result.butterfly25,
+    riskReversal10: result.riskReversal10,
+    atmIv: result.atmIv,
+    totalGex: result.totalGex,
+    gammaFlip: result.gammaFlip,
+    minDelta: result.minDelta,
+    maxDelta: result.maxDelta,
+    centerDelta: result.centerDelta,
+    targetDte: result.targetDte,
+});
+
+// A live snapshot as passed to snapshot listeners
+export type SavedSnapshot = ReturnType<typeof toSnapshotFields> & { id: number; timestamp: Date };
+export type SnapshotListener = (snapshot: SavedSnapshot) => Promise<void>;
+
+const snapshotListeners: SnapshotListener[] = [];
+
+/**
+ * Call a listener after every live snapshot is saved (the save doesn't wait for it)
+ */
+export const onSnapshotSaved = (listener: SnapshotListener): void => {
+    snapshotListeners.push(listener);
+};
+
 /**
  * Save a skew calculation snapshot to the database
  */
 export async function saveSkewSnapshot(symbol: string, result: SkewResult): Promise<void> {
+    const chain = CHAIN_RETENTION_DAYS > 0 ? getChainSnapshot(result) : undefined;
+    const fields = toSnapshotFields(symbol, result);
+    let saved: SavedSnapshot | null = null;
+
     try {
-        await prisma.skewSnapshot.create({
+        const created = await prisma.skewSnapshot.create({
             data: {
-                symbol: symbol.toUpperCase(),
-                oiSkew: result.skew,
-                pricingSkew: result.pricingSkew,
-                impliedMove: result.impliedMove,
-                underlyingPrice: result.underlyingPrice,
-                dte: result.dte,
-                expirationDate: result.expirationDate,
-                callOi: result.callOi,
-                putOi: result.putOi,
-                callDelta: result.callDelta,
-                putDelta: result.putDelta,
+                ...fields,
+                ...(chain && { chain: { createMany: { data: chain } } }),
             },
         });
-        console.log(`[DB] Saved skew snapshot for ${symbol}`);
+        saved = { ...fields, id: created.id, timestamp: created.timestamp };
+        console.log(`[DB] Saved skew snapshot for ${symbol}${chain ? ` with ${chain.length} options` : ''}`);
     } catch (error) {
         console.error(`[DB] Failed to save snapshot for ${symbol}:`, error);
         // Don't throw - we don't want DB errors to break the calculation flow
     }
+
+    if (saved) {
+        for (const listener of snapshotListeners) {
+            listener(saved).catch(error => console.error(`[DB] Snapshot listener failed for ${symbol}:`, error));
+        }
+    }
+
+    if (chain && Date.now() - lastChainPruneAt > CHAIN_PRUNE_INTERVAL_MS) {
+        lastChainPruneAt = Date.now();
+        await pruneChainSnapshots();
+    }
 }
 
 /**
- * Get historical skew snapshots for a symbol
+ * Delete raw chains of snapshots older than CHAIN_RETENTION_DAYS (the aggregates are kept)
  */
-export async function getSkewHistory(query: SkewHistoryQuery) {
-    const { symbol, limit = 100, startDate, endDate } = query;
+export async function pruneChainSnapshots(): Promise<number> {
+    const cutoff = new Date(Date.now() - CHAIN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    try {
+        const result = await prisma.chainOptionSnapshot.deleteMany({
+            where: { snapshot: { timestamp: { lt: cutoff } } },
+        });
+        if (result.count > 0) {
+            console.log(`[DB] Pruned ${result.count} chain options older than ${CHAIN_RETENTION_DAYS} days`);
+        }
+        return result.count;
+    } catch (error) {
+        console.error('[DB] Failed to prune chain snapshots:', error);
+        return 0;
+    }
+}
 
-    const where: any = {
-        symbol: symbol.toUpperCase(),
-    };
+/**
+ * Get a history snapshot with its raw chain, ordered by strike (null when the snapshot doesn't exist)
+ */
+export async function getSnapshotChain(snapshotId: number) {
+    return prisma.skewSnapshot.findUnique({
+        where: { id: snapshotId },
+        include: {
+            chain: {
+                orderBy: [{ strike: 'asc' }, { type: 'asc' }],
+            },
+        },
+    });
+}
+
+/**
+ * Filter for a symbol's history series: live snapshots computed with the same
+ * settings, or a recomputed version (which carries its own delta band, so only
+ * the target DTE has to match)
+ */
+const buildHistoryWhere = (query: SkewHistoryQuery) => {
+    const { symbol, startDate, endDate, params = DEFAULT_SKEW_PARAMS } = query;
+
+    const where: Prisma.SkewSnapshotWhereInput = query.version && query.version !== LIVE_METRIC_VERSION
+        ? {
+            symbol: symbol.toUpperCase(),
+            metricVersion: query.version,
+            targetDte: params.targetDte,
+        }
+        : {
+            symbol: symbol.toUpperCase(),
+            metricVersion: LIVE_METRIC_VERSION,
+            minDelta: params.minDelta,
+            maxDelta: params.maxDelta,
+            centerDelta: params.centerDelta,
+            targetDte: params.targetDte,
+        };
 
     // Add date range filter if provided
     if (startDate || endDate) {
-        where.timestamp = {};
-        if (startDate) where.timestamp.gte = startDate;
-        if (endDate) where.timestamp.lte = endDate;
+        where.timestamp = {
+            ...(startDate && { gte: startDate }),
+            ...(endDate && { lte: endDate }),
+        };
     }
 
+    return where;
+};
+
+/**
+ * Get historical skew snapshots for a symbol, newest first, one page after `cursor`
+ */
+export async function getSkewHistory(query: SkewHistoryQuery) {
+    const { limit = 100, cursor } = query;
+
     return prisma.skewSnapshot.findMany({
-        where,
-        orderBy: { timestamp: 'desc' },
+        where: buildHistoryWhere(query),
+        orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
         take: limit,
+        ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+    });
+}
+
+// Columns read for bucketing: the timestamp and every BUCKET_METRICS column
+const HISTORY_SERIES_SELECT = {
+    timestamp: true,
+    oiSkew: true,
+    pricingSkew: true,
+    impliedMove: true,
+    volumeSkew: true,
+    underlyingPrice: true,
+} as const satisfies { timestamp: true } & Record<BucketMetric, true>;
+
+/**
+ * Get the whole history series for bucketing, oldest first (aggregated metrics only)
+ */
+export async function getSkewHistorySeries(query: SkewHistoryQuery): Promise<HistoryRow[]> {
+    return prisma.skewSnapshot.findMany({
+        where: buildHistoryWhere(query),
+        select: HISTORY_SERIES_SELECT,
+        orderBy: { timestamp: 'asc' },
     });
 }
 
@@ -67,6 +263,7 @@ export async function getSkewHistory(query: SkewHistoryQuery) {
  */
 export async function getTrackedSymbols(): Promise<string[]> {
     const results = await prisma.skewSnapshot.findMany({
+        where: { metricVersion: LIVE_METRIC_VERSION },
         select: { symbol: true },
         distinct: ['symbol'],
         orderBy: { symbol: 'asc' },
@@ -82,7 +279,7 @@ export async function getLatestSnapshots() {
     const snapshots = await Promise.all(
         symbols.map(async (symbol) => {
             const latest = await prisma.skewSnapshot.findFirst({
-                where: { symbol },
+                where: { symbol, metricVersion: LIVE_METRIC_VERSION },
                 orderBy: { timestamp: 'desc' },
             });
             return latest;
@@ -91,5 +288,554 @@ export async function getLatestSnapshots() {
     return snapshots.filter(Boolean);
 }
 
+/**
+ * Live snapshots with a stored chain, oldest first, in pages after `afterId`
+ */
+export async function getChainSources(query: ChainSourceQuery, afterId: number, take: number): Promise<ChainSource[]> {
+    const { symbols, startDate, endDate, targetDte } = query;
+    const where: Prisma.SkewSnapshotWhereInput = {
+        id: { gt: afterId },
+        metricVersion: LIVE_METRIC_VERSION,
+        chain: { some: {} },
+    };
+    if (symbols && symbols.length > 0) where.symbol = { in: symbols.map(s => s.toUpperCase()) };
+    if (targetDte !== undefined) where.targetDte = targetDte;
+    if (startDate || endDate) {
+        where.timestamp = {
+            ...(startDate && { gte: startDate }),
+            ...(endDate && { lte: endDate }),
+        };
+    }
+
+    return prisma.skewSnapshot.findMany({
+        where,
+        include: { chain: true },
+        orderBy: { id: 'asc' },
+        take,
+    });
+}
+
+/**
+ * Stored chain of a snapshot in the shape recomputeSkewFromChain expects
+ */
+export const toStoredChain = (source: ChainSource): StoredChain => ({
+    symbol: source.symbol,
+    expirationDate: source.expirationDate,
+    dte: source.dte,
+    underlyingPrice: source.underlyingPrice,
+    options: source.chain.map(option => ({
+        symbol: option.symbol,
+        strike: option.strike,
+        type: option.type === 'put' ? 'put' : 'call',
+        delta: option.delta,
+        iv: option.iv,
+        openInterest: option.openInterest,
+        bid: option.bid,
+        ask: option.ask,
+        volume: option.volume,
+        greeksSource: option.greeksSource as GreeksSource | null,
+    })),
+});
+
+/**
+ * Write (or overwrite) the recomputed row of a live snapshot for a metric version.
+ * The row keeps the source's timestamp so the series lines up with live history.
+ */
+export async function saveRecomputedSnapshot(
+    source: ChainSource,
+    version: string,
+    result: SkewResult
+): Promise<void> {
+    const fields = {
+        ...toSnapshotFields(source.symbol, result),
+        timestamp: source.timestamp,
+    };
+
+    await prisma.skewSnapshot.upsert({
+        where: { sourceSnapshotId_metricVersion: { sourceSnapshotId: source.id, metricVersion: version } },
+        create: { ...fields, metricVersion: version, sourceSnapshotId: source.id },
+        update: fields,
+    });
+}
+
+/**
+ * Snapshots for export, oldest first, one page after `cursor` (aggregate columns, no chain)
+ */
+export async function getSnapshotPage(query: SnapshotExportQuery, cursor: number | undefined, take: number) {
+    const { symbols, startDate, endDate, version } = query;
+    const where: Prisma.SkewSnapshotWhereInput = {};
+    if (symbols && symbols.length > 0) where.symbol = { in: symbols.map(s => s.toUpperCase()) };
+    if (version) where.metricVersion = version;
+    if (startDate || endDate) {
+        where.timestamp = {
+            ...(startDate && { gte: startDate }),
+            ...(endDate && { lte: endDate }),
+        };
+    }
+
+    return prisma.skewSnapshot.findMany({
+        where,
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        take,
+        ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+    });
+}
+
+export const getSnapshotIdentityKey = (row: SnapshotIdentity): string =>
+    `${row.symbol}|${row.timestamp.toISOString()}|${row.metricVersion}`;
+
+/**
+ * Identity keys of the given rows that are already stored
+ */
+export async function findStoredSnapshots(rows: SnapshotIdentity[]): Promise<Set<string>> {
+    if (rows.length === 0) return new Set();
+
+    const stored = await prisma.skewSnapshot.findMany({
+        where: {
+            symbol: { in: Array.from(new Set(rows.map(row => row.symbol))) },
+            timestamp: { in: rows.map(row => row.timestamp) },
+        },
+        select: { symbol: true, timestamp: true, metricVersion: true },
+    });
+
+    return new Set(stored.map((row: SnapshotIdentity) => getSnapshotIdentityKey(row)));
+}
+
+/**
+ * Insert imported snapshots (validated and de-duplicated by the caller)
+ */
+export async function insertSnapshots(rows: SnapshotInput[]): Promise<number> {
+    const { count } = await prisma.skewSnapshot.createMany({ data: rows });
+    return count;
+}
+
+/**
+ * Recomputed metric versions with their delta band and row count
+ */
+export async function getMetricVersions() {
+    const groups = await prisma.skewSnapshot.groupBy({
+        by: ['metricVersion', 'minDelta', 'maxDelta', 'centerDelta'],
+        where: { metricVersion: { not: LIVE_METRIC_VERSION } },
+        _count: { _all: true },
+        _max: { timestamp: true },
+        orderBy: { metricVersion: 'asc' },
+    });
+
+    return groups.map((g: {
+        metricVersion: string;
+        minDelta: number;
+        maxDelta: number;
+        centerDelta: number;
+        _count: { _all: number };
+        _max: { timestamp: Date | null };
+    }) => ({
+        version: g.metricVersion,
+        minDelta: g.minDelta,
+        maxDelta: g.maxDelta,
+        centerDelta: g.centerDelta,
+        count: g._count._all,
+        latest: g._max.timestamp,
+    }));
+}
+
+export interface StoredCacheEntry {
+    key: string;
+    value: string;
+    updatedAt: Date;
+    expiresAt: Date;
+}
+
+/**
+ * Load persisted cache entries that expired no earlier than `expiredAfter`
+ */
+export async function loadCacheEntries(expiredAfter: Date): Promise<StoredCacheEntry[]> {
+    return prisma.cacheEntry.findMany({
+        where: { expiresAt: { gt: expiredAfter } },
+    });
+}
+
+/**
+ * Insert or replace a persisted cache entry
+ */
+export async function saveCacheEntry(entry: StoredCacheEntry): Promise<void> {
+    const { key, ...fields } = entry;
+    await prisma.cacheEntry.upsert({
+        where: { key },
+        create: entry,
+        update: fields,
+    });
+}
+
+/**
+ * Delete a single persisted cache entry
+ */
+export async function deleteCacheEntry(key: string): Promise<void> {
+    await prisma.cacheEntry.deleteMany({ where: { key } });
+}
+
+/**
+ * Delete persisted cache entries (all of them when no prefix is given)
+ */
+export async function deleteCacheEntries(prefix?: string): Promise<number> {
+    const result = await prisma.cacheEntry.deleteMany({
+        where: prefix !== undefined ? { key: { startsWith: prefix } } : {},
+    });
+    return result.count;
+}
+
+/**
+ * Delete persisted cache entries that expired before `expiredBefore`
+ */
+export async function pruneCacheEntries(expiredBefore: Date): Promise<number> {
+    const result = await prisma.cacheEntry.deleteMany({
+        where: { expiresAt: { lt: expiredBefore } },
+    });
+    return result.count;
+}
+
+export type RunTrigger = 'ui' | 'batch' | 'scheduler' | 'revalidate';
+export type RunStatus = 'success' | 'error' | 'cancelled';
+
+/**
+ * One skew calculation as recorded in the audit log
+ */
+export interface CalculationRunRecord {
+    symbol: string;
+    trigger: RunTrigger;
+    status: RunStatus;
+    cacheHit: boolean;
+    startedAt: Date;
+    finishedAt: Date;
+    durationMs: number;
+    chainMs: number | null;
+    phase1Ms: number | null;
+    phase2Ms: number | null;
+    symbolsSubscribed: number | null;
+    deltaReceived: number | null;
+    deltaCoverage: number | null;
+    oiSymbols: number | null;
+    oiReceived: number | null;
+    oiCoverage: number | null;
+    quoteCoverage: number | null;
+    underlyingReceived: boolean | null;
+    expirationDate: string | null;
+    dte: number | null;
+    error: string | null;
+    minDelta: number;
+    maxDelta: number;
+    centerDelta: number;
+    targetDte: number;
+}
+
+export interface CalculationRunQuery {
+    symbol?: string;
+    trigger?: RunTrigger;
+    status?: RunStatus;
+    startDate?: Date;
+    endDate?: Date;
+    limit?: number;
+    // Id of the last run of the previous page (runs page newest first)
+    cursor?: number;
+}
+
+/**
+ * Record a calculation run (errors are logged, never thrown)
+ */
+export async function saveCalculationRun(run: CalculationRunRecord): Promise<void> {
+    try {
+        await prisma.calculationRun.create({ data: run });
+    } catch (error) {
+        console.error(`[DB] Failed to save calculation run for ${run.symbol}:`, error);
+    }
+
+    if (Date.now() - lastRunPruneAt > RUN_PRUNE_INTERVAL_MS) {
+        lastRunPruneAt = Date.now();
+        await pruneCalculationRuns();
+    }
+}
+
+/**
+ * Delete calculation runs older than RUN_RETENTION_DAYS
+ */
+export async function pruneCalculationRuns(): Promise<number> {
+    const cutoff = new Date(Date.now() - RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    try {
+        const result = await prisma.calculationRun.deleteMany({
+            where: { startedAt: { lt: cutoff } },
+        });
+        if (result.count > 0) {
+            console.log(`[DB] Pruned ${result.count} calculation runs older than ${RUN_RETENTION_DAYS} days`);
+        }
+        return result.count;
+    } catch (error) {
+        console.error('[DB] Failed to prune calculation runs:', error);
+        return 0;
+    }
+}
+
+/**
+ * Get calculation runs, newest first, one page after `cursor`
+ */
+export async function getCalculationRuns(query: CalculationRunQuery) {
+    const { symbol, trigger, status, startDate, endDate, limit = 50, cursor } = query;
+    const where: Prisma.CalculationRunWhereInput = {};
+    if (symbol) where.symbol = symbol.toUpperCase();
+    if (trigger) where.trigger = trigger;
+    if (status) where.status = status;
+    if (startDate || endDate) {
+        where.startedAt = {
+            ...(startDate && { gte: startDate }),
+            ...(endDate && { lte: endDate }),
+        };
+    }
+
+    return prisma.calculationRun.findMany({
+        where,
+        orderBy: [{ startedAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+        ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+    });
+}
+
+/**
+ * Get a single calculation run (null when it doesn't exist)
+ */
+export async function getCalculationRun(id: number) {
+    return prisma.calculationRun.findUnique({ where: { id } });
+}
+
+export const ALERT_CONDITIONS = [
+    'crosses_above',
+    'crosses_below',
+    'change_pct',
+    'sentiment_change',
+    'percentile_above',
+    'percentile_below'
+] as const;
+export type AlertCondition = typeof ALERT_CONDITIONS[number];
+
+export const ALERT_DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const;
+export type AlertDeliveryStatus = typeof ALERT_DELIVERY_STATUSES[number];
+
+export const isAlertCondition = (value: unknown): value is AlertCondition =>
+    typeof value === 'string' && (ALERT_CONDITIONS as readonly string[]).includes(value);
+
+export const isAlertDeliveryStatus = (value: unknown): value is AlertDeliveryStatus =>
+    typeof value === 'string' && (ALERT_DELIVERY_STATUSES as readonly string[]).includes(value);
+
+/**
+ * Editable fields of an alert rule
+ */
+export interface AlertRuleInput {
+    name: string;
+    symbol: string;
+    condition: AlertCondition;
+    metric: string;
+    threshold: number | null;
+    windowMinutes: number | null;
+    lookback: string | null;
+    fromSentiment: string | null;
+    toSentiment: string | null;
+    webhookUrl: string | null;
+    cooldownMinutes: number;
+    enabled: boolean;
+    minDelta: number;
+    maxDelta: number;
+    centerDelta: number;
+    targetDte: number;
+}
+
+export interface AlertRuleRecord extends AlertRuleInput {
+    id: number;
+    active: boolean;
+    lastTriggeredAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface AlertDeliveryRecord {
+    id: number;
+    ruleId: number;
+    snapshotId: number | null;
+    symbol: string;
+    message: string;
+    url: string;
+    payload: string;
+    status: AlertDeliveryStatus;
+    attempts: number;
+    responseStatus: number | null;
+    error: string | null;
+    createdAt: Date;
+    deliveredAt: Date | null;
+}
+
+export interface AlertDeliveryQuery {
+    ruleId?: number;
+    symbol?: string;
+    status?: AlertDeliveryStatus;
+    limit?: number;
+    // Id of the last delivery of the previous page (deliveries page newest first)
+    cursor?: number;
+}
+
+// Condition and status are plain strings in the database, so rows are checked on the way out
+const toAlertRuleRecord = (row: AlertRule): AlertRuleRecord => {
+    if (!isAlertCondition(row.condition)) {
+        throw new Error(`Alert rule ${row.id} has an unknown condition: ${row.condition}`);
+    }
+    return { ...row, condition: row.condition };
+};
+
+const toDeliveryRecord = (row: AlertDelivery): AlertDeliveryRecord => {
+    if (!isAlertDeliveryStatus(row.status)) {
+        throw new Error(`Alert delivery ${row.id} has an unknown status: ${row.status}`);
+    }
+    return { ...row, status: row.status };
+};
+
+/**
+ * Get alert rules, optionally for one symbol
+ */
+export async function getAlertRules(symbol?: string): Promise<AlertRuleRecord[]> {
+    const rows = await prisma.alertRule.findMany({
+        where: symbol ? { symbol: symbol.toUpperCase() } : {},
+        orderBy: [{ symbol: 'asc' }, { id: 'asc' }],
+    });
+    return rows.map(toAlertRuleRecord);
+}
+
+/**
+ * Get a single alert rule (null when it doesn't exist)
+ */
+export async function getAlertRule(id: number): Promise<AlertRuleRecord | null> {
+    const row = await prisma.alertRule.findUnique({ where: { id } });
+    return row && toAlertRuleRecord(row);
+}
+
+/**
+ * Enabled rules watching the series a live snapshot belongs to
+ */
+export async function getEnabledAlertRules(symbol: string, params: SkewParams): Promise<AlertRuleRecord[]> {
+    const rows = await prisma.alertRule.findMany({
+        where: {
+            symbol: symbol.toUpperCase(),
+            enabled: true,
+            minDelta: params.minDelta,
+            maxDelta: params.maxDelta,
+            centerDelta: params.centerDelta,
+            targetDte: params.targetDte,
+        },
+        orderBy: { id: 'asc' },
+    });
+    return rows.map(toAlertRuleRecord);
+}
+
+export async function createAlertRule(rule: AlertRuleInput): Promise<AlertRuleRecord> {
+    return toAlertRuleRecord(await prisma.alertRule.create({ data: rule }));
+}
+
+// Fields that define when a rule fires and on which series; changing one resets its state
+const ALERT_CONDITION_FIELDS = [
+    'condition', 'metric', 'threshold', 'windowMinutes', 'lookback', 'fromSentiment', 'toSentiment',
+    'symbol', 'minDelta', 'maxDelta', 'centerDelta', 'targetDte',
+] as const satisfies readonly (keyof AlertRuleInput)[];
+
+/**
+ * Replace a rule's fields; a changed condition starts again from an inactive state
+ */
+export async function updateAlertRule(id: number, rule: AlertRuleInput): Promise<AlertRuleRecord> {
+    const existing = await prisma.alertRule.findUniqueOrThrow({ where: { id } });
+    const conditionChanged = ALERT_CONDITION_FIELDS.some(field => existing[field] !== rule[field]);
+    return toAlertRuleRecord(await prisma.alertRule.update({
+        where: { id },
+        data: { ...rule, ...(conditionChanged && { active: false }) },
+    }));
+}
+
+/**
+ * Delete a rule and its delivery log
+ */
+export async function deleteAlertRule(id: number): Promise<void> {
+    await prisma.alertRule.delete({ where: { id } });
+}
+
+/**
+ * Record the outcome of evaluating a rule against a snapshot
+ */
+export async function saveAlertRuleState(id: number, active: boolean, triggeredAt?: Date): Promise<void> {
+    await prisma.alertRule.update({
+        where: { id },
+        data: { active, ...(triggeredAt && { lastTriggeredAt: triggeredAt }) },
+    });
+}
+
+export async function createAlertDelivery(
+    delivery: Pick<AlertDeliveryRecord, 'ruleId' | 'snapshotId' | 'symbol' | 'message' | 'url' | 'payload'>
+): Promise<AlertDeliveryRecord> {
+    const created = await prisma.alertDelivery.create({ data: { ...delivery, status: 'pending' } });
+
+    if (Date.now() - lastDeliveryPruneAt > DELIVERY_PRUNE_INTERVAL_MS) {
+        lastDeliveryPruneAt = Date.now();
+        await pruneAlertDeliveries();
+    }
+    return toDeliveryRecord(created);
+}
+
+export async function updateAlertDelivery(
+    id: number,
+    update: Partial<Pick<AlertDeliveryRecord, 'status' | 'attempts' | 'responseStatus' | 'error' | 'deliveredAt'>>
+): Promise<void> {
+    await prisma.alertDelivery.update({ where: { id }, data: update });
+}
+
+/**
+ * Get webhook deliveries, newest first, one page after `cursor`
+ */
+export async function getAlertDeliveries(query: AlertDeliveryQuery): Promise<AlertDeliveryRecord[]> {
+    const { ruleId, symbol, status, limit = 50, cursor } = query;
+    const where: Prisma.AlertDeliveryWhereInput = {};
+    if (ruleId !== undefined) where.ruleId = ruleId;
+    if (symbol) where.symbol = symbol.toUpperCase();
+    if (status) where.status = status;
+
+    const rows = await prisma.alertDelivery.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+        ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+    });
+    return rows.map(toDeliveryRecord);
+}
+
+/**
+ * Deliveries still waiting for a successful attempt (oldest first)
+ */
+export async function getPendingAlertDeliveries(): Promise<AlertDeliveryRecord[]> {
+    const rows = await prisma.alertDelivery.findMany({
+        where: { status: 'pending' },
+        orderBy: { id: 'asc' },
+    });
+    return rows.map(toDeliveryRecord);
+}
+
+/**
+ * Delete deliveries older than ALERT_DELIVERY_RETENTION_DAYS
+ */
+export async function pruneAlertDeliveries(): Promise<number> {
+    const cutoff = new Date(Date.now() - ALERT_DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    try {
+        const result = await prisma.alertDelivery.deleteMany({
+            where: { createdAt: { lt: cutoff }, status: { not: 'pending' } },
+        });
+        if (result.count > 0) {
+            console.log(`[DB] Pruned ${result.count} alert deliveries older than ${ALERT_DELIVERY_RETENTION_DAYS} days`);
+        }
+        return result.count;
+    } catch (error) {
+        console.error('[DB] Failed to prune alert deliveries:', error);
+        return 0;
+    }
+}
+
 // Export prisma client for direct access if needed
 export { prisma };
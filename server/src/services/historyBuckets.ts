@@ -0,0 +1,96 @@
+/**
+ * Downsampled history: snapshots grouped into fixed UTC intervals with
+ * open/high/low/close/mean per metric, so long date ranges chart without dropping points.
+ */
+
+export type HistoryInterval = '1h' | '1d' | '1w';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const HISTORY_INTERVALS: Record<HistoryInterval, number> = {
+    '1h': HOUR_MS,
+    '1d': DAY_MS,
+    '1w': 7 * DAY_MS
+};
+
+// Weekly buckets start on Monday (the epoch was a Thursday, 1970-01-05 a Monday)
+const WEEK_ORIGIN_MS = 4 * DAY_MS;
+
+export const BUCKET_METRICS = ['oiSkew', 'pricingSkew', 'impliedMove', 'volumeSkew', 'underlyingPrice'] as const;
+export type BucketMetric = typeof BUCKET_METRICS[number];
+
+export interface MetricStats {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    mean: number;
+}
+
+export type HistoryRow = { timestamp: Date } & Record<BucketMetric, number | null>;
+
+export type HistoryBucket = {
+    // Bucket start (ISO timestamp)
+    timestamp: string;
+    // Snapshots in the bucket
+    count: number;
+} & Record<BucketMetric, MetricStats | null>;
+
+export const isHistoryInterval = (value: unknown): value is HistoryInterval =>
+    typeof value === 'string' && Object.hasOwn(HISTORY_INTERVALS, value);
+
+const getBucketStart = (time: number, interval: HistoryInterval): number => {
+    const size = HISTORY_INTERVALS[interval];
+    const origin = interval === '1w' ? WEEK_ORIGIN_MS : 0;
+    return Math.floor((time - origin) / size) * size + origin;
+};
+
+/**
+ * Open/high/low/close/mean of values in time order (null when there are none)
+ */
+const summarize = (values: number[]): MetricStats | null => {
+    if (values.length === 0) return null;
+
+    let high = values[0];
+    let low = values[0];
+    let sum = 0;
+    for (const value of values) {
+        if (value > high) high = value;
+        if (value < low) low = value;
+        sum += value;
+    }
+
+    return { open: values[0], high, low, close: values[values.length - 1], mean: sum / values.length };
+};
+
+const toBucket = (start: number, rows: HistoryRow[]): HistoryBucket => {
+    const bucket = { timestamp: new Date(start).toISOString(), count: rows.length } as HistoryBucket;
+    for (const metric of BUCKET_METRICS) {
+        const values = rows.map(row => row[metric]).filter((v): v is number => v !== null);
+        bucket[metric] = summarize(values);
+    }
+    return bucket;
+};
+
+/**
+ * Group snapshots (oldest first) into buckets; empty intervals are skipped
+ */
+export const bucketHistory = (rows: HistoryRow[], interval: HistoryInterval): HistoryBucket[] => {
+    const buckets: HistoryBucket[] = [];
+    let currentStart: number | null = null;
+    let currentRows: HistoryRow[] = [];
+
+    for (const row of rows) {
+        const start = getBucketStart(row.timestamp.getTime(), interval);
+        if (start !== currentStart) {
+            if (currentStart !== null) buckets.push(toBucket(currentStart, currentRows));
+            currentStart = start;
+            currentRows = [];
+        }
+        currentRows.push(row);
+    }
+    if (currentStart !== null) buckets.push(toBucket(currentStart, currentRows));
+
+    return buckets;
+};
@@ -0,0 +1,360 @@
+import {
+    getSnapshotPage,
+    findStoredSnapshots,
+    insertSnapshots,
+    getSnapshotIdentityKey,
+    SnapshotExportQuery,
+    SnapshotIdentity,
+    SnapshotInput,
+    LIVE_METRIC_VERSION
+} from './db';
+
+/**
+ * History export and import.
+ *
+ * Snapshots are written as CSV (header row first) or NDJSON (one JSON object per
+ * line) with the aggregate columns below, so a file exported from one server can
+ * be imported into another or loaded into pandas. Ids and stored chains are not
+ * exported. Imported rows are validated and de-duplicated on symbol + timestamp
+ * within their metric version, so importing the same file twice adds nothing.
+ */
+
+export type HistoryFormat = 'csv' | 'ndjson';
+
+export const HISTORY_CONTENT_TYPES: Record<HistoryFormat, string> = {
+    csv: 'text/csv',
+    ndjson: 'application/x-ndjson'
+};
+
+type ColumnType = 'string' | 'int' | 'float' | 'date';
+
+interface Column {
+    name: string;
+    type: ColumnType;
+    // Must be present and non-empty on import
+    required?: boolean;
+    // Left to the database default when missing on import
+    defaulted?: boolean;
+}
+
+// Exported columns in file order
+const COLUMNS: Column[] = [
+    { name: 'symbol', type: 'string', required: true },
+    { name: 'timestamp', type: 'date', required: true },
+    { name: 'metricVersion', type: 'string', defaulted: true },
+    { name: 'oiSkew', type: 'float', required: true },
+    { name: 'pricingSkew', type: 'float' },
+    { name: 'impliedMove', type: 'float' },
+    { name: 'underlyingPrice', type: 'float' },
+    { name: 'dte', type: 'int', required: true },
+    { name: 'expirationDate', type: 'string', required: true },
+    { name: 'callOi', type: 'int', required: true },
+    { name: 'putOi', type: 'int', required: true },
+    { name: 'volumeSkew', type: 'float' },
+    { name: 'callVolume', type: 'int' },
+    { name: 'putVolume', type: 'int' },
+    { name: 'deltaWeightedSkew', type: 'float' },
+    { name: 'premiumWeightedSkew', type: 'float' },
+    { name: 'notionalWeightedSkew', type: 'float' },
+    { name: 'callDelta', type: 'float', required: true },
+    { name: 'putDelta', type: 'float', required: true },
+    { name: 'riskReversal25', type: 'float' },
+    { name: 'butterfly25', type: 'float' },
+    { name: 'riskReversal10', type: 'float' },
+    { name: 'atmIv', type: 'float' },
+    { name: 'totalGex', type: 'float' },
+    { name: 'gammaFlip', type: 'float' },
+    { name: 'minDelta', type: 'float', defaulted: true },
+    { name: 'maxDelta', type: 'float', defaulted: true },
+    { name: 'centerDelta', type: 'float', defaulted: true },
+    { name: 'targetDte', type: 'int', defaulted: true }
+];
+
+const EXPORT_PAGE_SIZE = 500;
+const IMPORT_BATCH_SIZE = 500;
+const MAX_REPORTED_ERRORS = 50;
+
+export interface HistoryExportQuery extends SnapshotExportQuery {
+    format: HistoryFormat;
+}
+
+// A file row by line number: its raw fields, or why it couldn't be read
+export interface HistoryFileRecord {
+    line: number;
+    record: Record<string, unknown> | Error;
+}
+
+export interface HistoryImportResult {
+    // Data rows in the file
+    received: number;
+    imported: number;
+    // Already stored, or repeated within the file
+    duplicates: number;
+    invalid: number;
+    // First validation errors by line number
+    errors: Record<string, string>;
+}
+
+export const isHistoryFormat = (value: unknown): value is HistoryFormat =>
+    typeof value === 'string' && Object.hasOwn(HISTORY_CONTENT_TYPES, value);
+
+/**
+ * Build an export query from query-string input. Throws on an invalid format or date.
+ */
+export const parseHistoryExportQuery = (raw: Record<string, unknown>): HistoryExportQuery => {
+    const format = raw.format ?? 'csv';
+    if (!isHistoryFormat(format)) {
+        throw new Error(`Invalid format: must be one of ${Object.keys(HISTORY_CONTENT_TYPES).join(', ')}`);
+    }
+
+    const parseDate = (name: string): Date | undefined => {
+        const value = raw[name];
+        if (value === undefined || value === '') return undefined;
+        const parsed = new Date(String(value));
+        if (Number.isNaN(parsed.getTime())) {
+            throw new Error(`Invalid ${name}: ${value}`);
+        }
+        return parsed;
+    };
+
+    const symbols = typeof raw.symbols === 'string' ? raw.symbols.split(',').map(s => s.trim()).filter(Boolean) : [];
+
+    return {
+        format,
+        symbols,
+        startDate: parseDate('startDate'),
+        endDate: parseDate('endDate'),
+        version: typeof raw.version === 'string' && raw.version !== '' ? raw.version : undefined
+    };
+};
+
+const formatCsvValue = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatRow = (snapshot: Record<string, unknown>, format: HistoryFormat): string => {
+    if (format === 'csv') {
+        return COLUMNS.map(column => formatCsvValue(snapshot[column.name])).join(',');
+    }
+    const record: Record<string, unknown> = {};
+    for (const column of COLUMNS) {
+        record[column.name] = snapshot[column.name] ?? null;
+    }
+    return JSON.stringify(record);
+};
+
+/**
+ * Matching snapshots as file chunks, oldest first, one page at a time
+ * (so large exports never sit in memory as a whole)
+ */
+export async function* exportHistory(query: HistoryExportQuery): AsyncGenerator<string> {
+    if (query.format === 'csv') {
+        yield `${COLUMNS.map(column => column.name).join(',')}\n`;
+    }
+
+    let cursor: number | undefined;
+    for (;;) {
+        const page = await getSnapshotPage(query, cursor, EXPORT_PAGE_SIZE);
+        if (page.length === 0) return;
+
+        yield page.map((snapshot: Record<string, unknown>) => `${formatRow(snapshot, query.format)}\n`).join('');
+
+        if (page.length < EXPORT_PAGE_SIZE) return;
+        cursor = page[page.length - 1].id;
+    }
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting), tagged with their line number
+ */
+const parseCsv = (content: string): { line: number; fields: string[] }[] => {
+    const rows: { line: number; fields: string[] }[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let rowLine = 1;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                if (char === '\n') line++;
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            fields.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            fields.push(field);
+            rows.push({ line: rowLine, fields });
+            fields = [];
+            field = '';
+            line++;
+            rowLine = line;
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || fields.length > 0) {
+        fields.push(field);
+        rows.push({ line: rowLine, fields });
+    }
+
+    // Skip blank lines
+    return rows.filter(row => row.fields.length > 1 || row.fields[0].trim() !== '');
+};
+
+/**
+ * Raw records of a CSV or NDJSON file. Throws when the file as a whole can't be read
+ * (a CSV header without the required columns).
+ */
+export const parseHistoryFile = (content: string, format: HistoryFormat): HistoryFileRecord[] => {
+    // Spreadsheet tools often prepend a byte order mark
+    const text = content.replace(/^\uFEFF/, '');
+
+    if (format === 'ndjson') {
+        return text.split(/\r?\n/)
+            .map((raw, index) => ({ raw, line: index + 1 }))
+            .filter(({ raw }) => raw.trim() !== '')
+            .map(({ raw, line }) => {
+                try {
+                    const record = JSON.parse(raw);
+                    if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+                        return { line, record: new Error('Expected a JSON object') };
+                    }
+                    return { line, record: record as Record<string, unknown> };
+                } catch {
+                    return { line, record: new Error('Invalid JSON') };
+                }
+            });
+    }
+
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+
+    const names = header.fields.map(name => name.trim());
+    const missing = COLUMNS.filter(column => column.required && !names.includes(column.name));
+    if (missing.length > 0) {
+        throw new Error(`CSV header is missing required columns: ${missing.map(column => column.name).join(', ')}`);
+    }
+
+    return rows.map(({ line, fields }) => {
+        if (fields.length !== names.length) {
+            return { line, record: new Error(`Expected ${names.length} fields, got ${fields.length}`) };
+        }
+        return { line, record: Object.fromEntries(names.map((name, index) => [name, fields[index]])) };
+    });
+};
+
+/**
+ * Validate one record into snapshot columns (unknown fields such as ids are ignored)
+ */
+const toSnapshot = (record: Record<string, unknown>): SnapshotInput => {
+    const snapshot: Record<string, unknown> = {};
+
+    for (const column of COLUMNS) {
+        const value = record[column.name];
+        if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) {
+            if (column.required) throw new Error(`Missing ${column.name}`);
+            if (!column.defaulted) snapshot[column.name] = null;
+            continue;
+        }
+
+        switch (column.type) {
+            case 'string':
+                snapshot[column.name] = String(value).trim();
+                break;
+            case 'date': {
+                const date = new Date(String(value));
+                if (Number.isNaN(date.getTime())) throw new Error(`Invalid ${column.name}: ${value}`);
+                snapshot[column.name] = date;
+                break;
+            }
+            case 'int':
+            case 'float': {
+                const number = Number(value);
+                if (!Number.isFinite(number) || (column.type === 'int' && !Number.isInteger(number))) {
+                    throw new Error(`Invalid ${column.name}: ${value}`);
+                }
+                snapshot[column.name] = number;
+                break;
+            }
+        }
+    }
+
+    // Every column was checked against its type above
+    return {
+        ...(snapshot as Omit<SnapshotInput, keyof SnapshotIdentity>),
+        symbol: (snapshot.symbol as string).toUpperCase(),
+        timestamp: snapshot.timestamp as Date,
+        metricVersion: (snapshot.metricVersion as string | undefined) ?? LIVE_METRIC_VERSION
+    };
+};
+
+/**
+ * Import parsed file records. Invalid rows are skipped and reported; rows already
+ * stored (or repeated in the file) are counted as duplicates.
+ */
+export async function importHistory(records: HistoryFileRecord[]): Promise<HistoryImportResult> {
+    const result: HistoryImportResult = { received: 0, imported: 0, duplicates: 0, invalid: 0, errors: {} };
+    const seen = new Set<string>();
+    let batch: SnapshotInput[] = [];
+
+    const reportError = (line: number, message: string) => {
+        result.invalid++;
+        if (Object.keys(result.errors).length < MAX_REPORTED_ERRORS) {
+            result.errors[line] = message;
+        }
+    };
+
+    const flush = async () => {
+        const stored = await findStoredSnapshots(batch);
+        const fresh = batch.filter(snapshot => !stored.has(getSnapshotIdentityKey(snapshot)));
+        result.duplicates += batch.length - fresh.length;
+        if (fresh.length > 0) {
+            result.imported += await insertSnapshots(fresh);
+        }
+        batch = [];
+    };
+
+    for (const { line, record } of records) {
+        result.received++;
+        if (record instanceof Error) {
+            reportError(line, record.message);
+            continue;
+        }
+
+        let snapshot: SnapshotInput;
+        try {
+            snapshot = toSnapshot(record);
+        } catch (error) {
+            reportError(line, error instanceof Error ? error.message : 'Invalid row');
+            continue;
+        }
+
+        const key = getSnapshotIdentityKey(snapshot);
+        if (seen.has(key)) {
+            result.duplicates++;
+            continue;
+        }
+        seen.add(key);
+
+        batch.push(snapshot);
+        if (batch.length >= IMPORT_BATCH_SIZE) await flush();
+    }
+    if (batch.length > 0) await flush();
+
+    return result;
+}
@@ -0,0 +1,118 @@
+/**
+ * Market-hours helpers, one trading calendar per asset class:
+ * - cme-globex (futures and futures options): Sunday 18:00 ET to Friday 17:00 ET,
+ *   with a daily maintenance break from 17:00 to 18:00 ET
+ * - nyse (equity and ETF options): weekdays 09:30 to 16:00 ET, pre-market from 04:00 ET
+ * - 24/7 (crypto): always open
+ * Exchange holidays are not modeled.
+ */
+
+export const MARKET_TIMEZONE = 'America/New_York';
+
+export type TradingCalendar = 'cme-globex' | 'nyse' | '24/7';
+export type SessionState = 'open' | 'pre' | 'closed';
+
+/**
+ * Wall-clock fields of a moment in a given time zone
+ */
+export interface ZonedTime {
+    minute: number;
+    hour: number;
+    day: number;      // Day of month (1-31)
+    month: number;    // 1-12
+    weekday: number;  // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        // Throws a RangeError for unknown time zones
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            weekday: 'short',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric'
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+export const getZonedTime = (date: Date, timeZone: string = MARKET_TIMEZONE): ZonedTime => {
+    const parts: Record<string, string> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        parts[part.type] = part.value;
+    }
+
+    return {
+        minute: Number(parts.minute),
+        hour: Number(parts.hour),
+        day: Number(parts.day),
+        month: Number(parts.month),
+        weekday: WEEKDAYS.indexOf(parts.weekday)
+    };
+};
+
+const getGlobexSession = ({ weekday, hour }: ZonedTime): SessionState => {
+    if (weekday === 6) return 'closed';                         // Saturday: closed
+    if (weekday === 0) return hour >= 18 ? 'open' : 'closed';   // Sunday: opens 18:00
+    if (weekday === 5) return hour < 17 ? 'open' : 'closed';    // Friday: closes 17:00
+    return hour !== 17 ? 'open' : 'closed';                     // Daily maintenance break
+};
+
+const getNyseSession = ({ weekday, hour, minute }: ZonedTime): SessionState => {
+    if (weekday === 0 || weekday === 6) return 'closed';
+    const minutes = hour * 60 + minute;
+    if (minutes < 4 * 60) return 'closed';
+    if (minutes < 9 * 60 + 30) return 'pre';
+    return minutes < 16 * 60 ? 'open' : 'closed';
+};
+
+/**
+ * Session state of a trading calendar at the given moment
+ */
+export const getSessionState = (calendar: TradingCalendar, date: Date = new Date()): SessionState => {
+    switch (calendar) {
+        case 'cme-globex': return getGlobexSession(getZonedTime(date));
+        case 'nyse': return getNyseSession(getZonedTime(date));
+        case '24/7': return 'open';
+    }
+};
+
+/**
+ * Start of the next session opening after `from` (null for 24/7 calendars).
+ * Sessions open on the hour or half hour, so only those boundaries are checked.
+ */
+export const nextSessionOpen = (calendar: TradingCalendar, from: Date = new Date()): Date | null => {
+    if (calendar === '24/7') return null;
+
+    const STEP_MS = 30 * 60 * 1000;
+    let candidate = Math.floor(from.getTime() / STEP_MS) * STEP_MS + STEP_MS;
+    const limit = candidate + 7 * 24 * 60 * 60 * 1000;
+
+    let wasOpen = getSessionState(calendar, from) === 'open';
+
+    while (candidate < limit) {
+        const isOpen = getSessionState(calendar, new Date(candidate)) === 'open';
+        if (isOpen && !wasOpen) {
+            return new Date(candidate);
+        }
+        wasOpen = isOpen;
+        candidate += STEP_MS;
+    }
+
+    return null;
+};
+
+/**
+ * Whether CME Globex is open at the given moment
+ */
+export const isMarketOpen = (date: Date = new Date()): boolean => {
+    return getSessionState('cme-globex', date) === 'open';
+};
@@ -0,0 +1,123 @@
+/**
+ * Option pricing fallback for strikes the Greeks feed hasn't published.
+ *
+ * Futures options are priced with Black-76 on the futures price, equity and ETF
+ * options with Black-Scholes on the spot price (no dividends). Implied volatility
+ * is solved from the quote mid, then delta, gamma and vega follow from it.
+ */
+
+export type PricingModel = 'black76' | 'black-scholes';
+export type OptionType = 'call' | 'put';
+
+export interface PricingInputs {
+    model: PricingModel;
+    type: OptionType;
+    // Futures price for Black-76, spot price for Black-Scholes
+    underlyingPrice: number;
+    strike: number;
+    // Time to expiration in years
+    timeToExpiry: number;
+    rate: number;
+}
+
+export interface ComputedGreeks {
+    iv: number;
+    delta: number;
+    gamma: number;
+    // Price change per 1 vol point (0.01)
+    vega: number;
+}
+
+export const RISK_FREE_RATE = Number(process.env.RISK_FREE_RATE) || 0.04;
+
+// Implied volatility search bounds (decimal vol)
+const MIN_VOL = 0.0001;
+const MAX_VOL = 5;
+const IV_TOLERANCE = 1e-6;
+const IV_MAX_ITERATIONS = 100;
+
+const normPdf = (x: number): number => Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 26.2.17, |error| < 7.5e-8)
+ */
+const normCdf = (x: number): number => {
+    const t = 1 / (1 + 0.2316419 * Math.abs(x));
+    const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+    const tail = normPdf(x) * poly;
+    return x >= 0 ? 1 - tail : tail;
+};
+
+const isValidInputs = ({ underlyingPrice, strike, timeToExpiry }: PricingInputs): boolean =>
+    underlyingPrice > 0 && strike > 0 && timeToExpiry > 0;
+
+const d1d2 = (inputs: PricingInputs, vol: number) => {
+    const { underlyingPrice, strike, timeToExpiry, rate, model } = inputs;
+    const sqrtT = Math.sqrt(timeToExpiry);
+    const drift = model === 'black76' ? 0 : rate;
+    const d1 = (Math.log(underlyingPrice / strike) + (drift + 0.5 * vol * vol) * timeToExpiry) / (vol * sqrtT);
+    return { d1, d2: d1 - vol * sqrtT, sqrtT };
+};
+
+/**
+ * Theoretical option price for a volatility
+ */
+export const priceOption = (inputs: PricingInputs, vol: number): number => {
+    const { type, underlyingPrice, strike, timeToExpiry, rate, model } = inputs;
+    const { d1, d2 } = d1d2(inputs, vol);
+    const discount = Math.exp(-rate * timeToExpiry);
+    // Black-76 discounts the forward, Black-Scholes only the strike
+    const forward = model === 'black76' ? underlyingPrice * discount : underlyingPrice;
+
+    return type === 'call'
+        ? forward * normCdf(d1) - strike * discount * normCdf(d2)
+        : strike * discount * normCdf(-d2) - forward * normCdf(-d1);
+};
+
+/**
+ * Solve implied volatility from an option price by bisection.
+ * Returns null when the price lies outside the model's no-arbitrage bounds.
+ */
+export const impliedVolatility = (inputs: PricingInputs, price: number): number | null => {
+    if (!isValidInputs(inputs) || !(price > 0)) return null;
+
+    let low = MIN_VOL;
+    let high = MAX_VOL;
+    if (price < priceOption(inputs, low) || price > priceOption(inputs, high)) return null;
+
+    for (let i = 0; i < IV_MAX_ITERATIONS; i++) {
+        const mid = (low + high) / 2;
+        const diff = priceOption(inputs, mid) - price;
+        if (Math.abs(diff) < IV_TOLERANCE) return mid;
+        if (diff > 0) high = mid;
+        else low = mid;
+    }
+
+    return (low + high) / 2;
+};
+
+/**
+ * Delta, gamma and vega for a volatility
+ */
+export const computeGreeks = (inputs: PricingInputs, vol: number): ComputedGreeks => {
+    const { type, underlyingPrice, timeToExpiry, rate, model } = inputs;
+    const { d1, sqrtT } = d1d2(inputs, vol);
+    // Black-76 Greeks carry the discount factor on the futures price
+    const scale = model === 'black76' ? Math.exp(-rate * timeToExpiry) : 1;
+    const pdf = normPdf(d1);
+
+    return {
+        iv: vol,
+        delta: scale * (type === 'call' ? normCdf(d1) : normCdf(d1) - 1),
+        gamma: scale * pdf / (underlyingPrice * vol * sqrtT),
+        vega: scale * underlyingPrice * pdf * sqrtT / 100
+    };
+};
+
+/**
+ * Implied volatility and Greeks from an option's market price (null when unsolvable)
+ */
+export const greeksFromPrice = (inputs: PricingInputs, price: number): ComputedGreeks | null => {
+    const iv = impliedVolatility(inputs, price);
+    return iv === null ? null : computeGreeks(inputs, iv);
+};
@@ -0,0 +1,44 @@
+import { MarketEvent } from './types';
+
+/**
+ * Narrowing readers for raw provider payloads (streamer events, chain items),
+ * whose fields are untyped and vary between kebab-case and camelCase.
+ */
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** First non-empty string among the given keys */
+export const readString = (record: RawRecord, ...keys: string[]): string | undefined => {
+    for (const key of keys) {
+        const value = record[key];
+        if (typeof value === 'string' && value !== '') return value;
+    }
+    return undefined;
+};
+
+/** First finite number among the given keys (numeric strings are parsed) */
+export const readNumber = (record: RawRecord, ...keys: string[]): number | undefined => {
+    for (const key of keys) {
+        const value = record[key];
+        const num = typeof value === 'string' ? parseFloat(value) : value;
+        if (typeof num === 'number' && Number.isFinite(num)) return num;
+    }
+    return undefined;
+};
+
+/** Nested object under a key, if there is one */
+export const readRecord = (record: RawRecord, key: string): RawRecord | undefined => {
+    const value = record[key];
+    return isRecord(value) ? value : undefined;
+};
+
+/** Nested objects in an array under a key (non-objects are dropped) */
+export const readRecords = (record: RawRecord, key: string): RawRecord[] => {
+    const value = record[key];
+    return Array.isArray(value) ? value.filter(isRecord) : [];
+};
+
+export const getEventSymbol = (event: MarketEvent): string | undefined => readString(event, 'eventSymbol', 'symbol');
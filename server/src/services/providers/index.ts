@@ -0,0 +1,36 @@
+import { MarketDataProvider } from './types';
+import { TastytradeProvider } from './tastytradeProvider';
+import { ReplayProvider } from './replayProvider';
+
+export * from './types';
+export * from './fields';
+export { TastytradeProvider } from './tastytradeProvider';
+export { ReplayProvider } from './replayProvider';
+
+let provider: MarketDataProvider | null = null;
+
+/**
+ * Get the active market data provider, selected by MARKET_DATA_PROVIDER
+ * ("tastytrade" by default, or "replay" to run offline from REPLAY_DATA_DIR)
+ */
+export const getMarketDataProvider = (): MarketDataProvider => {
+    if (provider) return provider;
+
+    const name = (process.env.MARKET_DATA_PROVIDER || 'tastytrade').toLowerCase();
+
+    switch (name) {
+        case 'replay':
+            provider = new ReplayProvider(process.env.REPLAY_DATA_DIR || './replay', {
+                intervalMs: process.env.REPLAY_INTERVAL_MS ? parseInt(process.env.REPLAY_INTERVAL_MS, 10) : undefined
+            });
+            break;
+        case 'tastytrade':
+            provider = new TastytradeProvider();
+            break;
+        default:
+            throw new Error(`Unknown MARKET_DATA_PROVIDER "${name}". Use "tastytrade" or "replay".`);
+    }
+
+    console.log(`📈 Market data provider: ${provider.name}`);
+    return provider;
+};
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import path from 'path';
+import { ChainExpirationItem, FutureContract, MarketDataProvider, MarketEvent, MarketEventListener, SymbolSearchResult } from './types';
+import { getEventSymbol } from './fields';
+
+/**
+ * Offline market data replayed from recordings on disk.
+ *
+ * Directory layout (REPLAY_DATA_DIR, default ./replay):
+ *   replay.json          optional manifest: { "asOf": "2025-12-01T15:00:00Z", "streamerSymbols": { "/ESZ5": "/ESZ25:XCME" },
+ *                        "futures": [{ "symbol": "/ESZ5", "streamerSymbol": "/ESZ25:XCME", "expirationDate": "2025-12-19" }] }
+ *   chains/<ROOT>.json   nested option chain response as returned by the API (e.g. chains/ES.json, chains/SPY.json)
+ *   events/*.ndjson      DxFeed event log, one event (or array of events) per line
+ *
+ * Events are indexed by `eventSymbol` and delivered to listeners shortly after
+ * the symbol is subscribed, mimicking the live quote streamer.
+ */
+export class ReplayProvider implements MarketDataProvider {
+    readonly name = 'replay';
+
+    private readonly dataDir: string;
+    private readonly batchSize: number;
+    private readonly intervalMs: number;
+    private loaded = false;
+    private asOf: Date | null = null;
+    private streamerSymbols: Record<string, string> = {};
+    private futures: FutureContract[] = [];
+    private eventsBySymbol = new Map<string, MarketEvent[]>();
+    private listeners = new Set<MarketEventListener>();
+    private subscribed = new Set<string>();
+    private timers = new Set<ReturnType<typeof setTimeout>>();
+
+    constructor(dataDir: string, options: { batchSize?: number; intervalMs?: number } = {}) {
+        this.dataDir = path.resolve(dataDir);
+        this.batchSize = options.batchSize ?? 100;
+        this.intervalMs = options.intervalMs ?? 10;
+    }
+
+    async authenticate(): Promise<void> {
+        if (this.loaded) return;
+
+        if (!fs.existsSync(this.dataDir)) {
+            throw new Error(`Replay data directory not found: ${this.dataDir}. Set REPLAY_DATA_DIR in server/.env`);
+        }
+
+        const manifestPath = path.join(this.dataDir, 'replay.json');
+        if (fs.existsSync(manifestPath)) {
+            const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+            if (manifest.asOf) this.asOf = new Date(manifest.asOf);
+            this.streamerSymbols = manifest.streamerSymbols || {};
+            this.futures = manifest.futures || [];
+        }
+
+        if (process.env.REPLAY_AS_OF) {
+            this.asOf = new Date(process.env.REPLAY_AS_OF);
+        }
+
+        const eventsDir = path.join(this.dataDir, 'events');
+        if (fs.existsSync(eventsDir)) {
+            for (const file of fs.readdirSync(eventsDir).sort()) {
+                if (!/\.(ndjson|jsonl)$/.test(file)) continue;
+                this.loadEventLog(path.join(eventsDir, file));
+            }
+        }
+
+        console.log(`[Replay] Loaded events for ${this.eventsBySymbol.size} symbols from ${this.dataDir}`);
+        this.loaded = true;
+    }
+
+    private loadEventLog(filePath: string): void {
+        const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+
+        for (const line of lines) {
+            if (!line.trim()) continue;
+
+            let parsed: MarketEvent | MarketEvent[];
+            try {
+                parsed = JSON.parse(line);
+            } catch {
+                console.warn(`[Replay] Skipping malformed line in ${path.basename(filePath)}`);
+                continue;
+            }
+
+            const events = Array.isArray(parsed) ? parsed : [parsed];
+            for (const event of events) {
+                const sym = getEventSymbol(event);
+                if (!sym) continue;
+                const list = this.eventsBySymbol.get(sym) || [];
+                list.push(event);
+                this.eventsBySymbol.set(sym, list);
+            }
+        }
+    }
+
+    now(): Date {
+        return this.asOf ?? new Date();
+    }
+
+    async fetchChainExpirations(symbol: string): Promise<ChainExpirationItem[]> {
+        await this.authenticate();
+
+        const rootSymbol = symbol.replace('/', '').replace(/[FGHJKMNQUVXZ]\d{1,2}$/, '');
+        const candidates = [symbol.replace('/', ''), rootSymbol];
+
+        for (const name of candidates) {
+            const chainPath = path.join(this.dataDir, 'chains', `${name}.json`);
+            if (!fs.existsSync(chainPath)) continue;
+
+            const response = JSON.parse(fs.readFileSync(chainPath, 'utf8'));
+            const data = response?.data?.data || response?.data || response;
+
+            const optionChains = data['option-chains'] || data.items || (Array.isArray(data) ? data : null);
+            if (Array.isArray(optionChains) && optionChains.length > 0 && optionChains[0].expirations) {
+                return optionChains[0].expirations;
+            }
+            if (Array.isArray(data.expirations)) {
+                return data.expirations;
+            }
+
+            throw new Error(`Unexpected chain structure in ${chainPath}`);
+        }
+
+        throw new Error(`No recorded chain for ${symbol} in ${path.join(this.dataDir, 'chains')}`);
+    }
+
+    async fetchFutures(rootSymbol: string): Promise<FutureContract[]> {
+        await this.authenticate();
+
+        const root = '/' + rootSymbol.replace('/', '');
+        const contractPattern = new RegExp(`^${root}[FGHJKMNQUVXZ]\\d{1,2}$`);
+
+        if (this.futures.length > 0) {
+            return this.futures.filter(f => contractPattern.test(f.symbol));
+        }
+
+        // Without a futures list, fall back to the contracts named in streamerSymbols
+        return Object.entries(this.streamerSymbols)
+            .filter(([symbol]) => contractPattern.test(symbol))
+            .map(([symbol, streamerSymbol]) => ({ symbol, streamerSymbol, expirationDate: null }));
+    }
+
+    async getStreamerSymbol(symbol: string): Promise<string> {
+        return this.streamerSymbols[symbol] || symbol;
+    }
+
+    async searchSymbols(query: string): Promise<SymbolSearchResult[]> {
+        const chainsDir = path.join(this.dataDir, 'chains');
+        if (!fs.existsSync(chainsDir)) return [];
+
+        const needle = query.toUpperCase().replace('/', '');
+        return fs.readdirSync(chainsDir)
+            .filter(file => file.endsWith('.json'))
+            .map(file => file.replace(/\.json$/, ''))
+            .filter(name => name.toUpperCase().startsWith(needle))
+            .map(name => ({
+                symbol: name,
+                description: 'Recorded chain',
+                instrumentType: 'Replay'
+            }));
+    }
+
+    async connect(): Promise<void> {
+        await this.authenticate();
+    }
+
+    async disconnect(): Promise<void> {
+        for (const timer of this.timers) clearTimeout(timer);
+        this.timers.clear();
+        this.subscribed.clear();
+    }
+
+    subscribe(symbols: string[]): void {
+        const events: MarketEvent[] = [];
+        for (const sym of symbols) {
+            this.subscribed.add(sym);
+            events.push(...(this.eventsBySymbol.get(sym) || []));
+        }
+
+        // Deliver in batches, like the streamer does
+        for (let i = 0; i * this.batchSize < events.length; i++) {
+            const batch = events.slice(i * this.batchSize, (i + 1) * this.batchSize);
+            const timer = setTimeout(() => {
+                this.timers.delete(timer);
+                const live = batch.filter(e => this.subscribed.has(getEventSymbol(e) ?? ''));
+                if (live.length === 0) return;
+                for (const listener of this.listeners) listener(live);
+            }, (i + 1) * this.intervalMs);
+            this.timers.add(timer);
+        }
+    }
+
+    unsubscribe(symbols: string[]): void {
+        for (const sym of symbols) this.subscribed.delete(sym);
+    }
+
+    addEventListener(listener: MarketEventListener): void {
+        this.listeners.add(listener);
+    }
+
+    removeEventListener(listener: MarketEventListener): void {
+        this.listeners.delete(listener);
+    }
+}
@@ -0,0 +1,200 @@
+import TastytradeClient from '@tastytrade/api';
+import { ChainExpirationItem, FutureContract, MarketDataProvider, MarketEventListener, SymbolSearchResult } from './types';
+import { readString } from './fields';
+
+const CLIENT_SECRET = process.env.TASTY_CLIENT_SECRET;
+const REFRESH_TOKEN = process.env.TASTY_REFRESH_TOKEN;
+const IS_SANDBOX = process.env.TASTY_IS_SANDBOX === 'true';
+
+const config = IS_SANDBOX ? TastytradeClient.SandboxConfig : TastytradeClient.ProdConfig;
+
+/**
+ * Live market data from the Tastytrade REST API and DxFeed quote streamer
+ */
+export class TastytradeProvider implements MarketDataProvider {
+    readonly name = 'tastytrade';
+
+    // Global instance to reuse
+    private client: TastytradeClient | null = null;
+
+    async authenticate(): Promise<void> {
+        await this.getClient();
+    }
+
+    now(): Date {
+        return new Date();
+    }
+
+    private async getClient(): Promise<TastytradeClient> {
+        if (this.client) return this.client;
+
+        if (!CLIENT_SECRET || !REFRESH_TOKEN) {
+            throw new Error("Missing credentials. Set TASTY_CLIENT_SECRET and TASTY_REFRESH_TOKEN in server/.env");
+        }
+
+        console.log(`Initializing Tastytrade Client (${IS_SANDBOX ? 'Sandbox' : 'Prod'})...`);
+
+        this.client = new TastytradeClient({
+            ...config,
+            clientSecret: CLIENT_SECRET,
+            refreshToken: REFRESH_TOKEN,
+            oauthScopes: ['read', 'trade']
+        });
+
+        return this.client;
+    }
+
+    async searchSymbols(query: string): Promise<SymbolSearchResult[]> {
+        const client = await this.getClient();
+
+        try {
+            const response = await client.httpClient.getData(`/symbols/search/${encodeURIComponent(query)}`);
+            const data = response?.data?.data?.items || response?.data?.items || response?.data || [];
+
+            if (!Array.isArray(data)) {
+                console.warn('Unexpected symbol search response:', data);
+                return [];
+            }
+
+            return data.map((item: Record<string, unknown>) => ({
+                symbol: readString(item, 'symbol') ?? '',
+                description: readString(item, 'description') ?? '',
+                listedMarket: readString(item, 'listed-market', 'listedMarket'),
+                instrumentType: readString(item, 'instrument-type', 'instrumentType')
+            }));
+        } catch (error) {
+            console.error('Symbol search error:', error);
+            return [];
+        }
+    }
+
+    async getStreamerSymbol(symbol: string): Promise<string> {
+        const client = await this.getClient();
+
+        const hasSlash = symbol.startsWith('/');
+        const normalizedSymbol = symbol.replace('/', '');
+
+        try {
+            if (hasSlash) {
+                // Futures - use symbol without slash for API endpoint
+                const response = await client.httpClient.getData(`/instruments/futures/${encodeURIComponent(normalizedSymbol)}`);
+                const data = response?.data?.data || response?.data || response;
+                const streamerSymbol = data['streamer-symbol'];
+                return streamerSymbol || symbol;
+            } else {
+                // Equity
+                const response = await client.httpClient.getData(`/instruments/equities/${encodeURIComponent(normalizedSymbol)}`);
+                const data = response?.data?.data || response?.data || response;
+                const streamerSymbol = data['streamer-symbol'];
+                return streamerSymbol || symbol;
+            }
+        } catch {
+            return symbol;
+        }
+    }
+
+    async fetchFutures(rootSymbol: string): Promise<FutureContract[]> {
+        const client = await this.getClient();
+        const productCode = rootSymbol.replace('/', '');
+
+        const response = await client.httpClient.getData(`/instruments/futures?product-code[]=${encodeURIComponent(productCode)}`);
+        const items: Record<string, string>[] = response?.data?.data?.items || response?.data?.items || [];
+
+        if (!Array.isArray(items)) return [];
+
+        return items
+            .filter(item => item.symbol && item['streamer-symbol'])
+            .map(item => ({
+                symbol: item.symbol,
+                streamerSymbol: item['streamer-symbol'],
+                expirationDate: item['expiration-date'] || null
+            }));
+    }
+
+    async fetchChainExpirations(symbol: string): Promise<ChainExpirationItem[]> {
+        if (!this.client) throw new Error("Client not initialized");
+        const client = this.client;
+
+        const hasSlash = symbol.startsWith('/');
+        const normalizedSymbol = symbol.replace('/', '');
+
+        const isFuturesContract = /^[A-Z0-9]{2,}[FGHJKMNQUVXZ]\d{1,2}$/.test(normalizedSymbol);
+        const isFuturesRoot = hasSlash && /^[A-Z0-9]{2,}$/.test(normalizedSymbol);
+        const isFutures = isFuturesContract || isFuturesRoot;
+
+        let items: ChainExpirationItem[] = [];
+
+        if (isFutures) {
+            console.log(`Detected futures: ${normalizedSymbol}`);
+
+            const rootSymbol = isFuturesContract
+                ? normalizedSymbol.replace(/[FGHJKMNQUVXZ]\d{1,2}$/, '')
+                : normalizedSymbol;
+
+            const response = await client.httpClient.getData(`/futures-option-chains/${rootSymbol}/nested`);
+            const data = response?.data?.data || response?.data || response;
+            const optionChains = data['option-chains'] || [];
+
+            if (!Array.isArray(optionChains) || optionChains.length === 0) {
+                throw new Error("No option chains found in response.");
+            }
+
+            const optionChain = optionChains[0];
+            items = optionChain.expirations || optionChain['expirations'] || [];
+
+            if (items.length === 0) {
+                throw new Error("No expirations found in option chain.");
+            }
+        } else {
+            const chain = await client.instrumentsService.getNestedOptionChain(normalizedSymbol);
+
+            if (Array.isArray(chain) && chain.length > 0 && chain[0].expirations) {
+                // Skip adjusted roots (e.g. after a split) in favour of the standard chain
+                const standard = chain.find((c: Record<string, unknown>) => c['root-symbol'] === normalizedSymbol) || chain[0];
+                const sharesPerContract = standard['shares-per-contract'];
+                items = standard.expirations.map((exp: Record<string, unknown>) => ({
+                    'shares-per-contract': sharesPerContract,
+                    ...exp
+                }));
+            } else if (chain.data?.items) {
+                items = chain.data.items;
+            } else if (chain.items) {
+                items = chain.items;
+            } else if (chain.expirations) {
+                items = chain.expirations;
+            }
+        }
+
+        return items;
+    }
+
+    async connect(): Promise<void> {
+        const client = await this.getClient();
+        await client.quoteStreamer.connect();
+    }
+
+    async disconnect(): Promise<void> {
+        if (!this.client) return;
+        if (this.client.quoteStreamer.disconnect) {
+            await this.client.quoteStreamer.disconnect();
+        }
+    }
+
+    subscribe(symbols: string[]): void {
+        this.client?.quoteStreamer.subscribe(symbols);
+    }
+
+    unsubscribe(symbols: string[]): void {
+        if (this.client?.quoteStreamer.unsubscribe) {
+            this.client.quoteStreamer.unsubscribe(symbols);
+        }
+    }
+
+    addEventListener(listener: MarketEventListener): void {
+        this.client?.quoteStreamer.addEventListener(listener);
+    }
+
+    removeEventListener(listener: MarketEventListener): void {
+        this.client?.quoteStreamer.removeEventListener(listener);
+    }
+}
@@ -0,0 +1,67 @@
+export interface SymbolSearchResult {
+    symbol: string;
+    description: string;
+    listedMarket?: string;
+    instrumentType?: string;
+}
+
+/**
+ * Listed futures contract from /instruments/futures
+ */
+export interface FutureContract {
+    symbol: string;                 // e.g. /ESZ5
+    streamerSymbol: string;         // e.g. /ESZ25:XCME
+    expirationDate: string | null;  // Last trade date (YYYY-MM-DD) when known
+}
+
+/**
+ * Raw DxFeed-style event as delivered by the quote streamer
+ * (Greeks, Quote, Summary, Trade, ...). Fields are read defensively.
+ */
+export type MarketEvent = Record<string, unknown>;
+
+/**
+ * Raw nested-chain expiration or strike as returned by the API (kebab-case keys,
+ * camelCase in some SDK versions). Fields are read defensively.
+ */
+export type ChainExpirationItem = Record<string, unknown>;
+
+export type MarketEventListener = (json: MarketEvent | MarketEvent[]) => void;
+
+/**
+ * Source of option chains and streaming market data.
+ * The skew calculation only talks to this interface, so it can run
+ * against the live Tastytrade API or against recorded data on disk.
+ */
+export interface MarketDataProvider {
+    readonly name: string;
+
+    /** Prepare the provider (credentials, files). Safe to call repeatedly. */
+    authenticate(): Promise<void>;
+
+    /** Current time as seen by the provider (replay uses the recording date) */
+    now(): Date;
+
+    /**
+     * Raw nested-chain expirations (each with `expiration-type`, `expiration-date`, `strikes`;
+     * futures options also carry the `underlying-symbol` contract, equity options
+     * the chain's `shares-per-contract` when known)
+     */
+    fetchChainExpirations(symbol: string): Promise<ChainExpirationItem[]>;
+
+    /** Listed futures contracts for a product root (e.g. "ES") */
+    fetchFutures(rootSymbol: string): Promise<FutureContract[]>;
+
+    /** Streamer symbol for an underlying (futures contract or equity) */
+    getStreamerSymbol(symbol: string): Promise<string>;
+
+    searchSymbols(query: string): Promise<SymbolSearchResult[]>;
+
+    // Streamer
+    connect(): Promise<void>;
+    disconnect(): Promise<void>;
+    subscribe(symbols: string[]): void;
+    unsubscribe(symbols: string[]): void;
+    addEventListener(listener: MarketEventListener): void;
+    removeEventListener(listener: MarketEventListener): void;
+}
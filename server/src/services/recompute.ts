@@ -0,0 +1,188 @@
+import { recomputeSkewFromChain, resolveSkewParams, SkewParams } from './tastytrade';
+import { getChainSources, saveRecomputedSnapshot, toStoredChain, ChainSourceQuery, LIVE_METRIC_VERSION } from './db';
+
+/**
+ * Recompute history from stored chains.
+ *
+ * Re-runs the skew, pricing skew and implied move formulas over the raw chains
+ * saved with live snapshots, using a new delta band, and writes the results as a
+ * named metric version that /api/history/:symbol can select. Each row keeps the
+ * target DTE and timestamp of its source; re-running a version overwrites its rows.
+ */
+
+export type RecomputeBand = Pick<SkewParams, 'minDelta' | 'maxDelta' | 'centerDelta'>;
+
+export interface RecomputeRequest extends ChainSourceQuery {
+    version: string;
+    band: RecomputeBand;
+}
+
+export interface RecomputeRun {
+    version: string;
+    band: RecomputeBand;
+    symbols: string[] | null;
+    startedAt: string;
+    finishedAt: string | null;
+    processed: number;
+    written: number;
+    failed: number;
+    // First failures by source snapshot id
+    errors: Record<string, string>;
+}
+
+const VERSION_PATTERN = /^[A-Za-z0-9._-]{1,40}$/;
+const PAGE_SIZE = 50;
+const MAX_REPORTED_ERRORS = 50;
+
+/**
+ * Build a recompute request from raw input (JSON body or CLI flags, numbers may be strings).
+ * Throws on an invalid version, delta band, date or target DTE.
+ */
+export const parseRecomputeRequest = (raw: Record<string, unknown>): RecomputeRequest => {
+    const version = typeof raw.version === 'string' ? raw.version.trim() : '';
+    if (!VERSION_PATTERN.test(version)) {
+        throw new Error('Invalid version: use 1-40 letters, digits, ".", "_" or "-"');
+    }
+    if (version === LIVE_METRIC_VERSION) {
+        throw new Error(`Version "${LIVE_METRIC_VERSION}" is reserved for live snapshots`);
+    }
+
+    const parseNumber = (name: string): number | undefined => {
+        const value = raw[name];
+        if (value === undefined || value === null || value === '') return undefined;
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed)) {
+            throw new Error(`Invalid ${name}: ${value}`);
+        }
+        return parsed;
+    };
+    const parseDate = (name: string): Date | undefined => {
+        const value = raw[name];
+        if (value === undefined || value === null || value === '') return undefined;
+        const parsed = new Date(String(value));
+        if (Number.isNaN(parsed.getTime())) {
+            throw new Error(`Invalid ${name}: ${value}`);
+        }
+        return parsed;
+    };
+
+    const { minDelta, maxDelta, centerDelta, targetDte } = resolveSkewParams({
+        minDelta: parseNumber('minDelta'),
+        maxDelta: parseNumber('maxDelta'),
+        centerDelta: parseNumber('centerDelta'),
+        targetDte: parseNumber('targetDte'),
+    });
+
+    const symbols = Array.isArray(raw.symbols)
+        ? raw.symbols.map(String)
+        : typeof raw.symbols === 'string' ? raw.symbols.split(',') : [];
+
+    return {
+        version,
+        band: { minDelta, maxDelta, centerDelta },
+        symbols: symbols.map(s => s.trim()).filter(Boolean),
+        startDate: parseDate('startDate'),
+        endDate: parseDate('endDate'),
+        // Only filter sources by target DTE when one was asked for
+        targetDte: parseNumber('targetDte') !== undefined ? targetDte : undefined,
+    };
+};
+
+/**
+ * Recompute every matching snapshot, reporting progress on start and after each page
+ */
+export const runRecompute = async (
+    request: RecomputeRequest,
+    onProgress?: (run: RecomputeRun) => void
+): Promise<RecomputeRun> => {
+    const run: RecomputeRun = {
+        version: request.version,
+        band: request.band,
+        symbols: request.symbols && request.symbols.length > 0 ? request.symbols : null,
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        processed: 0,
+        written: 0,
+        failed: 0,
+        errors: {}
+    };
+    onProgress?.(run);
+
+    let afterId = 0;
+    for (;;) {
+        const sources = await getChainSources(request, afterId, PAGE_SIZE);
+        if (sources.length === 0) break;
+
+        for (const source of sources) {
+            run.processed++;
+            try {
+                const params: SkewParams = { ...request.band, targetDte: source.targetDte };
+                const result = recomputeSkewFromChain(toStoredChain(source), params);
+                await saveRecomputedSnapshot(source, request.version, result);
+                run.written++;
+            } catch (error) {
+                run.failed++;
+                if (Object.keys(run.errors).length < MAX_REPORTED_ERRORS) {
+                    run.errors[source.id] = error instanceof Error ? error.message : 'Unknown error';
+                }
+            }
+        }
+
+        afterId = sources[sources.length - 1].id;
+        onProgress?.(run);
+    }
+
+    run.finishedAt = new Date().toISOString();
+    return run;
+};
+
+/**
+ * Runs one recomputation at a time in the background for the admin endpoint
+ */
+export class RecomputeJob {
+    private currentRun: RecomputeRun | null = null;
+    private lastRun: RecomputeRun | null = null;
+
+    get isRunning(): boolean {
+        return this.currentRun !== null;
+    }
+
+    /**
+     * Start a recomputation. Returns false when one is already in progress.
+     */
+    start(request: RecomputeRequest): boolean {
+        if (this.isRunning) return false;
+
+        console.log(`[Recompute] Starting version "${request.version}" (${request.band.minDelta}-${request.band.maxDelta}@${request.band.centerDelta})`);
+
+        // The first progress report arrives synchronously, so the job counts as running right away
+        runRecompute(request, (run) => { this.currentRun = run; })
+            .then((run) => {
+                this.lastRun = run;
+                console.log(`[Recompute] Finished version "${run.version}": ${run.written} written, ${run.failed} failed`);
+            })
+            .catch((error) => {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                if (this.currentRun) {
+                    this.lastRun = { ...this.currentRun, finishedAt: new Date().toISOString(), errors: { ...this.currentRun.errors, job: message } };
+                }
+                console.error(`[Recompute] Version "${request.version}" failed:`, message);
+            })
+            .finally(() => {
+                this.currentRun = null;
+            });
+
+        return true;
+    }
+
+    status(): { running: boolean; currentRun: RecomputeRun | null; lastRun: RecomputeRun | null } {
+        return {
+            running: this.isRunning,
+            currentRun: this.currentRun,
+            lastRun: this.lastRun
+        };
+    }
+}
+
+// Export a singleton job for the admin endpoint
+export const recomputeJob = new RecomputeJob();
@@ -0,0 +1,76 @@
+import { calculateSkew, SkewParams, DEFAULT_SKEW_PARAMS } from './tastytrade';
+import { skewCache, getSkewCacheKey, getSessionTtlMs } from './cache';
+import { saveSkewSnapshot } from './db';
+import { RunRecorder } from './runLog';
+
+/**
+ * Background refresh for stale cache entries (stale-while-revalidate).
+ *
+ * /market-status serves the last result while its symbol is queued here.
+ * Refreshes run one after another, like /stream-batch and the scheduler, and
+ * a symbol already queued or running is never queued twice. A failed refresh
+ * isn't retried for REFRESH_RETRY_MS, so polling clients don't hammer a broken symbol.
+ */
+
+const REFRESH_RETRY_MS = 5 * 60 * 1000;
+
+interface RefreshJob {
+    symbol: string;
+    params: SkewParams;
+    cacheKey: string;
+}
+
+export class CacheRevalidator {
+    private queue: RefreshJob[] = [];
+    private pending = new Set<string>();
+    private failedAt = new Map<string, number>();
+    private running = false;
+
+    isRefreshing(symbol: string, params: SkewParams = DEFAULT_SKEW_PARAMS): boolean {
+        return this.pending.has(getSkewCacheKey(symbol, params));
+    }
+
+    /**
+     * Queue symbols for recalculation (duplicates are ignored)
+     */
+    refresh(symbols: string[], params: SkewParams = DEFAULT_SKEW_PARAMS): void {
+        for (const symbol of symbols) {
+            const cacheKey = getSkewCacheKey(symbol, params);
+            if (this.pending.has(cacheKey)) continue;
+            if (Date.now() - (this.failedAt.get(cacheKey) ?? 0) < REFRESH_RETRY_MS) continue;
+
+            this.pending.add(cacheKey);
+            this.queue.push({ symbol, params, cacheKey });
+        }
+
+        if (!this.running) {
+            this.drain();
+        }
+    }
+
+    private async drain(): Promise<void> {
+        this.running = true;
+
+        let job: RefreshJob | undefined;
+        while ((job = this.queue.shift())) {
+            try {
+                const recorder = new RunRecorder(job.symbol, 'revalidate', job.params);
+                const result = await calculateSkew(job.symbol, job.params, undefined, recorder.track);
+                skewCache.set(job.cacheKey, result, getSessionTtlMs(job.symbol));
+                await saveSkewSnapshot(job.symbol, result);
+                this.failedAt.delete(job.cacheKey);
+                console.log(`[Revalidate] Refreshed ${job.symbol}`);
+            } catch (error) {
+                this.failedAt.set(job.cacheKey, Date.now());
+                console.error(`[Revalidate] Failed to refresh ${job.symbol}:`, error instanceof Error ? error.message : error);
+            } finally {
+                this.pending.delete(job.cacheKey);
+            }
+        }
+
+        this.running = false;
+    }
+}
+
+// Export a singleton revalidator for the shared skew cache
+export const cacheRevalidator = new CacheRevalidator();
@@ -0,0 +1,128 @@
+import { StreamProgress, SkewParams, Coverage } from './tastytrade';
+import { saveCalculationRun, CalculationRunRecord, RunTrigger, RunStatus } from './db';
+
+/**
+ * Calculation run audit log.
+ *
+ * A RunRecorder follows one calculation's progress events (the same ones the
+ * SSE streams forward) and saves a CalculationRun row once it reports a result
+ * or an error: phase durations, coverage at the end of each phase and the error
+ * message, so failures can be diagnosed after the fact instead of from PM2 logs.
+ * Results served from the cache are recorded as cache hits.
+ */
+
+export const RUN_TRIGGERS: RunTrigger[] = ['ui', 'batch', 'scheduler', 'revalidate'];
+export const RUN_STATUSES: RunStatus[] = ['success', 'error', 'cancelled'];
+
+export class RunRecorder {
+    private readonly startedAt = Date.now();
+    private chainAt: number | null = null;
+    private phase1At: number | null = null;
+    private phase2At: number | null = null;
+    private finished = false;
+    private details: Pick<CalculationRunRecord,
+        'symbolsSubscribed' | 'deltaReceived' | 'deltaCoverage' | 'oiSymbols' | 'oiReceived' |
+        'oiCoverage' | 'quoteCoverage' | 'underlyingReceived' | 'expirationDate' | 'dte'> = {
+        symbolsSubscribed: null,
+        deltaReceived: null,
+        deltaCoverage: null,
+        oiSymbols: null,
+        oiReceived: null,
+        oiCoverage: null,
+        quoteCoverage: null,
+        underlyingReceived: null,
+        expirationDate: null,
+        dte: null
+    };
+
+    constructor(
+        private readonly symbol: string,
+        private readonly trigger: RunTrigger,
+        private readonly params: SkewParams,
+        // Aborted runs are recorded as cancelled rather than failed
+        private readonly signal?: AbortSignal
+    ) {}
+
+    /**
+     * Follow a progress event; the run is saved on its result or error
+     */
+    track = (progress: StreamProgress): void => {
+        if (this.finished) return;
+
+        const now = Date.now();
+        switch (progress.type) {
+            case 'chain':
+                this.chainAt = now;
+                this.details.symbolsSubscribed = progress.data?.symbolCount ?? null;
+                this.details.expirationDate = progress.data?.expirationDate ?? null;
+                this.details.dte = progress.data?.dte ?? null;
+                break;
+            case 'phase1': {
+                this.phase1At ??= now;
+                const coverage: Coverage | undefined = progress.data?.coverage;
+                if (coverage) {
+                    this.details.deltaReceived = coverage.received;
+                    this.details.deltaCoverage = coverage.percent;
+                }
+                break;
+            }
+            case 'phase2': {
+                this.phase2At ??= now;
+                const coverage: Coverage | undefined = progress.data?.coverage;
+                if (coverage) {
+                    this.details.oiSymbols = coverage.total;
+                    this.details.oiReceived = coverage.received;
+                    this.details.oiCoverage = coverage.percent;
+                }
+                const quotes: Coverage | undefined = progress.data?.quotes;
+                if (quotes) this.details.quoteCoverage = quotes.percent;
+                const underlying: Coverage | undefined = progress.data?.underlying;
+                if (underlying) this.details.underlyingReceived = underlying.total === 0 || underlying.received > 0;
+                break;
+            }
+            case 'result':
+                this.details.expirationDate = progress.data?.expirationDate ?? this.details.expirationDate;
+                this.details.dte = progress.data?.dte ?? this.details.dte;
+                this.finish(null);
+                break;
+            case 'error':
+                this.finish(progress.message || 'Unknown error');
+                break;
+        }
+    };
+
+    /**
+     * Record a result served from the cache
+     */
+    cacheHit(): void {
+        this.finish(null, true);
+    }
+
+    private finish(error: string | null, cacheHit = false): void {
+        if (this.finished) return;
+        this.finished = true;
+
+        const finishedAt = Date.now();
+        // Each phase runs until the next one starts (the last one until the run ends)
+        const span = (from: number | null, to: number | null) => from !== null ? (to ?? finishedAt) - from : null;
+
+        saveCalculationRun({
+            symbol: this.symbol.toUpperCase(),
+            trigger: this.trigger,
+            status: error === null ? 'success' : this.signal?.aborted ? 'cancelled' : 'error',
+            cacheHit,
+            startedAt: new Date(this.startedAt),
+            finishedAt: new Date(finishedAt),
+            durationMs: finishedAt - this.startedAt,
+            chainMs: this.chainAt !== null ? this.chainAt - this.startedAt : null,
+            phase1Ms: span(this.phase1At, this.phase2At),
+            phase2Ms: span(this.phase2At, null),
+            ...this.details,
+            error,
+            minDelta: this.params.minDelta,
+            maxDelta: this.params.maxDelta,
+            centerDelta: this.params.centerDelta,
+            targetDte: this.params.targetDte
+        });
+    }
+}
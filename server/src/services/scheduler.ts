@@ -0,0 +1,269 @@
+import { calculateSkew, SkewParams, DEFAULT_SKEW_PARAMS } from './tastytrade';
+import { skewCache, getSkewCacheKey, getSessionTtlMs } from './cache';
+import { saveSkewSnapshot } from './db';
+import { RunRecorder } from './runLog';
+import { parseCron, nextCronRun, CronSchedule } from './cron';
+import { getZonedTime, getSessionState, MARKET_TIMEZONE, SessionState, TradingCalendar } from './marketHours';
+import { ASSET_GROUPS, ALL_SYMBOLS, AssetGroupKey, getGroupForSymbol, getTradingCalendar } from '../config/assets';
+
+/**
+ * Server-side snapshot collector.
+ *
+ * Runs the batch skew calculation on a cron schedule so history is recorded
+ * whether or not a browser is open. Each result refreshes the cache and is
+ * persisted through saveSkewSnapshot.
+ */
+
+export interface SchedulerConfig {
+    enabled: boolean;
+    cron: string;
+    timezone: string;
+    marketHoursOnly: boolean;
+    symbols: string[];
+    params: SkewParams;
+}
+
+export type SchedulerTrigger = 'schedule' | 'manual';
+
+export interface SchedulerRun {
+    trigger: SchedulerTrigger;
+    startedAt: string;
+    finishedAt: string | null;
+    symbols: string[];
+    completed: string[];
+    errors: Record<string, string>;
+    cancelled: boolean;
+}
+
+export interface SchedulerGroupStatus {
+    // Asset group key, or 'other' for watchlist symbols outside the configured groups
+    group: AssetGroupKey | 'other';
+    calendar: TradingCalendar;
+    session: SessionState;
+    symbols: string[];
+}
+
+export interface SchedulerStatus {
+    enabled: boolean;
+    paused: boolean;
+    running: boolean;
+    cron: string;
+    timezone: string;
+    marketHoursOnly: boolean;
+    // Whether any watchlist symbol's session is open
+    marketOpen: boolean;
+    groups: SchedulerGroupStatus[];
+    nextRunAt: string | null;
+    symbols: string[];
+    currentSymbol: string | null;
+    currentRun: SchedulerRun | null;
+    lastRun: SchedulerRun | null;
+}
+
+/**
+ * Expand SCHEDULER_SYMBOLS: comma-separated symbols and/or asset group keys
+ */
+const resolveWatchlist = (raw: string | undefined): string[] => {
+    if (!raw || raw.trim() === '') return [...ALL_SYMBOLS];
+
+    const symbols = raw.split(',').map(s => s.trim()).filter(Boolean).flatMap(entry => {
+        const group = ASSET_GROUPS[entry.toLowerCase() as AssetGroupKey];
+        return group ? [...group.symbols] : [entry.toUpperCase()];
+    });
+
+    return [...new Set(symbols)];
+};
+
+/**
+ * Watchlist symbols grouped by asset group and trading calendar, with the session state of each
+ */
+const getGroupStatuses = (symbols: string[], now: Date): SchedulerGroupStatus[] => {
+    const groups = new Map<string, SchedulerGroupStatus>();
+    for (const symbol of symbols) {
+        const group = getGroupForSymbol(symbol) ?? 'other';
+        const calendar = getTradingCalendar(symbol);
+        const key = `${group}:${calendar}`;
+        const entry = groups.get(key) ?? { group, calendar, session: getSessionState(calendar, now), symbols: [] };
+        entry.symbols.push(symbol);
+        groups.set(key, entry);
+    }
+    return [...groups.values()];
+};
+
+export const loadSchedulerConfig = (): SchedulerConfig => ({
+    enabled: process.env.SCHEDULER_ENABLED === 'true',
+    cron: process.env.SCHEDULER_CRON || '*/30 * * * *',
+    timezone: process.env.SCHEDULER_TIMEZONE || MARKET_TIMEZONE,
+    marketHoursOnly: process.env.SCHEDULER_MARKET_HOURS_ONLY !== 'false',
+    symbols: resolveWatchlist(process.env.SCHEDULER_SYMBOLS),
+    params: DEFAULT_SKEW_PARAMS
+});
+
+export class SnapshotScheduler {
+    private config: SchedulerConfig;
+    private schedule: CronSchedule;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private paused = false;
+    private currentRun: SchedulerRun | null = null;
+    private currentSymbol: string | null = null;
+    private lastRun: SchedulerRun | null = null;
+    private abortController: AbortController | null = null;
+
+    constructor(config: SchedulerConfig) {
+        this.config = config;
+        this.schedule = parseCron(config.cron);
+        // Fail fast on an unknown time zone
+        getZonedTime(new Date(), config.timezone);
+    }
+
+    get isRunning(): boolean {
+        return this.currentRun !== null;
+    }
+
+    /**
+     * Start ticking on minute boundaries (no-op when disabled)
+     */
+    start(): void {
+        if (!this.config.enabled) {
+            console.log('[Scheduler] Disabled (set SCHEDULER_ENABLED=true to collect snapshots automatically)');
+            return;
+        }
+        if (this.timer) return;
+
+        console.log(`[Scheduler] Collecting ${this.config.symbols.length} symbols on "${this.config.cron}" (${this.config.timezone})`);
+        this.scheduleTick();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.abortController?.abort();
+    }
+
+    /**
+     * Skip scheduled runs and cancel the run in progress
+     */
+    pause(): void {
+        this.paused = true;
+        this.abortController?.abort();
+        console.log('[Scheduler] Paused');
+    }
+
+    resume(): void {
+        this.paused = false;
+        console.log('[Scheduler] Resumed');
+    }
+
+    /**
+     * Start a run now, regardless of schedule and market hours.
+     * Returns false when a run is already in progress.
+     */
+    trigger(): boolean {
+        if (this.isRunning) return false;
+        this.run('manual');
+        return true;
+    }
+
+    status(): SchedulerStatus {
+        const now = new Date();
+        const groups = getGroupStatuses(this.config.symbols, now);
+        return {
+            enabled: this.config.enabled,
+            paused: this.paused,
+            running: this.isRunning,
+            cron: this.config.cron,
+            timezone: this.config.timezone,
+            marketHoursOnly: this.config.marketHoursOnly,
+            marketOpen: groups.some(group => group.session === 'open'),
+            groups,
+            nextRunAt: this.config.enabled && !this.paused
+                ? nextCronRun(this.schedule, now, this.config.timezone)?.toISOString() ?? null
+                : null,
+            symbols: this.config.symbols,
+            currentSymbol: this.currentSymbol,
+            currentRun: this.currentRun,
+            lastRun: this.lastRun
+        };
+    }
+
+    private scheduleTick(): void {
+        // Wake just after the next minute boundary
+        const delay = 60 * 1000 - (Date.now() % (60 * 1000)) + 50;
+        this.timer = setTimeout(() => {
+            this.tick();
+            this.scheduleTick();
+        }, delay);
+    }
+
+    private tick(): void {
+        const now = new Date();
+        if (!this.schedule.matches(getZonedTime(now, this.config.timezone))) return;
+
+        // Only collect symbols whose own trading session is open
+        const symbols = this.config.marketHoursOnly
+            ? this.config.symbols.filter(symbol => getSessionState(getTradingCalendar(symbol), now) === 'open')
+            : this.config.symbols;
+
+        if (this.paused) {
+            console.log('[Scheduler] Paused, skipping scheduled run');
+        } else if (symbols.length === 0) {
+            console.log('[Scheduler] Markets closed for every watchlist symbol, skipping scheduled run');
+        } else if (this.isRunning) {
+            console.log('[Scheduler] Previous run still in progress, skipping');
+        } else {
+            if (symbols.length < this.config.symbols.length) {
+                console.log(`[Scheduler] Skipping ${this.config.symbols.length - symbols.length} symbols outside their trading session`);
+            }
+            this.run('schedule', symbols);
+        }
+    }
+
+    private async run(trigger: SchedulerTrigger, symbols: string[] = this.config.symbols): Promise<void> {
+        const run: SchedulerRun = {
+            trigger,
+            startedAt: new Date().toISOString(),
+            finishedAt: null,
+            symbols: [...symbols],
+            completed: [],
+            errors: {},
+            cancelled: false
+        };
+        const abortController = new AbortController();
+        this.currentRun = run;
+        this.abortController = abortController;
+
+        console.log(`[Scheduler] Starting ${trigger} run for ${run.symbols.length} symbols`);
+
+        // Sequential, like /stream-batch, to keep the load on the shared streamer bounded
+        for (const symbol of run.symbols) {
+            if (abortController.signal.aborted) {
+                run.cancelled = true;
+                break;
+            }
+
+            this.currentSymbol = symbol;
+            try {
+                const recorder = new RunRecorder(symbol, 'scheduler', this.config.params, abortController.signal);
+                const result = await calculateSkew(symbol, this.config.params, abortController.signal, recorder.track);
+                skewCache.set(getSkewCacheKey(symbol, this.config.params), result, getSessionTtlMs(symbol));
+                await saveSkewSnapshot(symbol, result);
+                run.completed.push(symbol);
+            } catch (error) {
+                run.errors[symbol] = error instanceof Error ? error.message : 'Unknown error';
+            }
+        }
+
+        run.finishedAt = new Date().toISOString();
+        this.currentSymbol = null;
+        this.currentRun = null;
+        this.abortController = null;
+        this.lastRun = run;
+
+        console.log(`[Scheduler] Finished ${trigger} run: ${run.completed.length} saved, ${Object.keys(run.errors).length} failed${run.cancelled ? ' (cancelled)' : ''}`);
+    }
+}
+
+// Export a singleton scheduler configured from the environment
+export const snapshotScheduler = new SnapshotScheduler(loadSchedulerConfig());
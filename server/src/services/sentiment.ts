@@ -0,0 +1,37 @@
+/**
+ * Sentiment labels for a skew reading, using the same bands as the dashboard's
+ * getCombinedSentiment (src/components/AssetCard.tsx): the OI skew alone, or a
+ * 5:1 blend of OI and pricing skew when the pricing skew is known.
+ */
+
+export const SENTIMENT_LABELS = [
+    'Extr. Bullish',
+    'Bullish',
+    'Mildly Bullish',
+    'Neutral',
+    'Mildly Bearish',
+    'Bearish',
+    'Extr. Bearish'
+] as const;
+export type SentimentLabel = typeof SENTIMENT_LABELS[number];
+
+// Upper bound of each label's band (the last band is open-ended)
+const SENTIMENT_BANDS: [number, SentimentLabel][] = [
+    [0.3, 'Extr. Bullish'],
+    [0.5, 'Bullish'],
+    [0.7, 'Mildly Bullish'],
+    [1.3, 'Neutral'],
+    [1.5, 'Mildly Bearish'],
+    [3.0, 'Bearish']
+];
+
+export const isSentimentLabel = (value: unknown): value is SentimentLabel =>
+    typeof value === 'string' && (SENTIMENT_LABELS as readonly string[]).includes(value);
+
+export const getSentimentLabel = (oiSkew: number, pricingSkew: number | null): SentimentLabel => {
+    const value = pricingSkew === null ? oiSkew : (5 * oiSkew + pricingSkew) / 6;
+    for (const [upper, label] of SENTIMENT_BANDS) {
+        if (value < upper) return label;
+    }
+    return 'Extr. Bearish';
+};
@@ -0,0 +1,162 @@
+import { getSkewHistory, getSkewHistorySeries, onSnapshotSaved, SkewHistoryQuery, LIVE_METRIC_VERSION } from './db';
+import { bucketHistory } from './historyBuckets';
+import { MemoryCache, getSkewCacheKey, getSymbolKey } from './cache';
+
+/**
+ * Skew rank: where the current reading sits within a symbol's own history,
+ * like IV rank. Each metric is compared with the daily closes (last snapshot of
+ * each UTC day) over a lookback of trading days, so an OI skew of 1.4 reads as
+ * "high for /6J" or "low for /ES" instead of an absolute number.
+ */
+
+export type RankLookback = '20d' | '60d' | '252d';
+
+// Trading days per lookback
+export const RANK_LOOKBACKS: Record<RankLookback, number> = {
+    '20d': 20,
+    '60d': 60,
+    '252d': 252
+};
+
+export const DEFAULT_RANK_LOOKBACK: RankLookback = '252d';
+
+export const RANK_METRICS = ['oiSkew', 'pricingSkew', 'impliedMove'] as const;
+export type RankMetric = typeof RANK_METRICS[number];
+
+export interface MetricRank {
+    value: number;
+    // Share of daily closes in the lookback below the current value (0-100)
+    percentile: number;
+    // Standard deviations from the lookback mean (null when the history is flat)
+    zScore: number | null;
+    mean: number;
+    stdDev: number;
+    // Daily closes compared against
+    samples: number;
+}
+
+export type SkewRank = {
+    lookback: RankLookback;
+    // First day of the lookback with data (ISO timestamp)
+    since: string | null;
+} & Record<RankMetric, MetricRank | null>;
+
+export type CurrentValues = Record<RankMetric, number | null>;
+
+// Fewer daily closes than this give no rank
+const MIN_RANK_SAMPLES = 5;
+
+// Daily closes only change once a day, so they are cached per series for an hour
+const DAILY_CLOSES_TTL_MS = 60 * 60 * 1000;
+
+interface DailyCloses {
+    since: string | null;
+    values: Record<RankMetric, number[]>;
+}
+
+const dailyClosesCache = new MemoryCache<DailyCloses>(DAILY_CLOSES_TTL_MS);
+
+// Ranks of cached results for the market overview, per calculation
+const cachedResultRanks = new MemoryCache<SkewRank>(DAILY_CLOSES_TTL_MS);
+
+// A new snapshot can move the day's close, so drop the symbol's closes and ranks
+onSnapshotSaved(async snapshot => {
+    const prefix = `${getSymbolKey(snapshot.symbol)}:`;
+    dailyClosesCache.deleteByPrefix(prefix);
+    cachedResultRanks.deleteByPrefix(prefix);
+});
+
+export const isRankLookback = (value: unknown): value is RankLookback =>
+    typeof value === 'string' && Object.hasOwn(RANK_LOOKBACKS, value);
+
+/**
+ * Percentile rank and z-score of a value against a sample (null below MIN_RANK_SAMPLES)
+ */
+export const rankValue = (value: number, samples: number[]): MetricRank | null => {
+    if (samples.length < MIN_RANK_SAMPLES) return null;
+
+    const mean = samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+    const variance = samples.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) / samples.length;
+    const stdDev = Math.sqrt(variance);
+    const below = samples.filter(sample => sample < value).length;
+
+    return {
+        value,
+        percentile: (below / samples.length) * 100,
+        zScore: stdDev > 0 ? (value - mean) / stdDev : null,
+        mean,
+        stdDev,
+        samples: samples.length
+    };
+};
+
+const getDailyCloses = async (query: SkewHistoryQuery, lookback: RankLookback): Promise<DailyCloses> => {
+    const version = query.version ?? LIVE_METRIC_VERSION;
+    const cacheKey = `${getSkewCacheKey(query.symbol, query.params)}:${version}:${lookback}`;
+    const cached = dailyClosesCache.get(cacheKey);
+    if (cached) return cached;
+
+    // Calendar window wide enough to hold the lookback's trading days
+    const tradingDays = RANK_LOOKBACKS[lookback];
+    const calendarDays = Math.ceil(tradingDays * 365 / 252);
+    const startDate = new Date(Date.now() - calendarDays * 24 * 60 * 60 * 1000);
+
+    const rows = await getSkewHistorySeries({ ...query, version, startDate, endDate: undefined });
+    const days = bucketHistory(rows, '1d').slice(-tradingDays);
+
+    const values = {} as Record<RankMetric, number[]>;
+    for (const metric of RANK_METRICS) {
+        values[metric] = days
+            .map(day => day[metric]?.close ?? null)
+            .filter((close): close is number => close !== null);
+    }
+
+    const closes = { since: days[0]?.timestamp ?? null, values };
+    dailyClosesCache.set(cacheKey, closes);
+    return closes;
+};
+
+/**
+ * Rank a symbol's current readings against its history series (same params and
+ * metric version as the query). Without current values the latest snapshot is ranked.
+ * Returns null when there is nothing to rank.
+ */
+export async function getSkewRank(
+    query: SkewHistoryQuery,
+    lookback: RankLookback = DEFAULT_RANK_LOOKBACK,
+    current?: CurrentValues
+): Promise<SkewRank | null> {
+    let values = current;
+    if (!values) {
+        const [latest] = await getSkewHistory({ ...query, startDate: undefined, endDate: undefined, cursor: undefined, limit: 1 });
+        if (!latest) return null;
+        values = { oiSkew: latest.oiSkew, pricingSkew: latest.pricingSkew, impliedMove: latest.impliedMove };
+    }
+
+    const closes = await getDailyCloses(query, lookback);
+    const rank = { lookback, since: closes.since } as SkewRank;
+    for (const metric of RANK_METRICS) {
+        const value = values[metric];
+        rank[metric] = value !== null && value !== undefined ? rankValue(value, closes.values[metric]) : null;
+    }
+    return rank;
+}
+
+/**
+ * Rank of a cached result (default params), reused for the same calculation
+ * (identified by when it was cached) until the symbol saves a new snapshot
+ */
+export async function getCachedResultRank(
+    symbol: string,
+    lookback: RankLookback,
+    current: CurrentValues,
+    calculatedAt: Date
+): Promise<SkewRank | null> {
+    const cacheKey = `${getSkewCacheKey(symbol)}:${lookback}:${calculatedAt.getTime()}`;
+    const cached = cachedResultRanks.get(cacheKey);
+    if (cached) return cached;
+
+    const rank = await getSkewRank({ symbol }, lookback, current);
+    if (rank) cachedResultRanks.set(cacheKey, rank);
+    return rank;
+}
@@ -0,0 +1,246 @@
+import { getEventSymbol, getMarketDataProvider, MarketEvent, MarketEventListener, readString } from './providers';
+
+/**
+ * Shared streamer connection with per-consumer sessions.
+ *
+ * One long-lived provider connection is kept open. Each calculation opens its own
+ * session; subscriptions are reference counted across sessions, so a symbol is only
+ * unsubscribed from the provider once no session needs it anymore. Incoming events
+ * are routed only to the sessions subscribed to their symbol.
+ */
+
+export class StreamerSession {
+    readonly id: number;
+    readonly label: string;
+    private manager: StreamerSessionManager;
+    private symbols = new Set<string>();
+    private listeners = new Set<MarketEventListener>();
+    private closeCallbacks = new Set<() => void>();
+    private closed = false;
+
+    constructor(manager: StreamerSessionManager, id: number, label: string) {
+        this.manager = manager;
+        this.id = id;
+        this.label = label;
+    }
+
+    get isClosed(): boolean {
+        return this.closed;
+    }
+
+    get subscribedSymbols(): string[] {
+        return Array.from(this.symbols);
+    }
+
+    subscribe(symbols: string[]): void {
+        if (this.closed) return;
+        const added = symbols.filter(sym => !this.symbols.has(sym));
+        added.forEach(sym => this.symbols.add(sym));
+        this.manager.acquire(this, added);
+    }
+
+    unsubscribe(symbols: string[]): void {
+        const removed = symbols.filter(sym => this.symbols.has(sym));
+        removed.forEach(sym => this.symbols.delete(sym));
+        this.manager.release(removed);
+    }
+
+    hasSymbol(symbol: string): boolean {
+        return this.symbols.has(symbol);
+    }
+
+    addEventListener(listener: MarketEventListener): void {
+        this.listeners.add(listener);
+    }
+
+    removeEventListener(listener: MarketEventListener): void {
+        this.listeners.delete(listener);
+    }
+
+    /** Register a callback fired once when the session closes (e.g. request cancelled) */
+    onClose(callback: () => void): () => void {
+        if (this.closed) {
+            callback();
+            return () => undefined;
+        }
+        this.closeCallbacks.add(callback);
+        return () => this.closeCallbacks.delete(callback);
+    }
+
+    /** @internal Called by the manager with events already filtered to this session's symbols */
+    deliver(events: MarketEvent[]): void {
+        if (this.closed || events.length === 0) return;
+        for (const listener of this.listeners) {
+            try {
+                listener(events);
+            } catch (e) {
+                console.warn(`[Streamer] Listener error in session ${this.label}:`, e);
+            }
+        }
+    }
+
+    close(): void {
+        if (this.closed) return;
+        this.closed = true;
+
+        this.manager.release(Array.from(this.symbols));
+        this.symbols.clear();
+        this.listeners.clear();
+        this.manager.detach(this);
+
+        const callbacks = Array.from(this.closeCallbacks);
+        this.closeCallbacks.clear();
+        callbacks.forEach(cb => cb());
+    }
+}
+
+export class StreamerSessionManager {
+    private sessions = new Map<number, StreamerSession>();
+    private refCounts = new Map<string, number>();
+    // Last event per symbol and event type, replayed to sessions joining an existing subscription
+    private lastEvents = new Map<string, Map<string, MarketEvent>>();
+    private connecting: Promise<void> | null = null;
+    private nextId = 1;
+
+    private readonly dispatch: MarketEventListener = (json) => {
+        const events = Array.isArray(json) ? json : [json];
+        const bySession = new Map<StreamerSession, MarketEvent[]>();
+
+        for (const event of events) {
+            const sym = getEventSymbol(event);
+            if (!sym || !this.refCounts.has(sym)) continue;
+
+            const cached = this.lastEvents.get(sym) || new Map<string, MarketEvent>();
+            cached.set(readString(event, 'eventType') || 'unknown', event);
+            this.lastEvents.set(sym, cached);
+
+            for (const session of this.sessions.values()) {
+                if (!session.hasSymbol(sym)) continue;
+                const list = bySession.get(session) || [];
+                list.push(event);
+                bySession.set(session, list);
+            }
+        }
+
+        for (const [session, list] of bySession) {
+            session.deliver(list);
+        }
+    };
+
+    /**
+     * Connect the shared streamer once; later calls reuse the connection
+     */
+    async ensureConnected(): Promise<void> {
+        if (!this.connecting) {
+            const provider = getMarketDataProvider();
+            this.connecting = (async () => {
+                console.log("Connecting to streamer...");
+                await provider.connect();
+                provider.addEventListener(this.dispatch);
+            })().catch((error) => {
+                this.connecting = null;
+                throw error;
+            });
+        }
+        return this.connecting;
+    }
+
+    /**
+     * Open a new consumer session on the shared connection
+     */
+    async open(label: string): Promise<StreamerSession> {
+        await this.ensureConnected();
+        const session = new StreamerSession(this, this.nextId++, label);
+        this.sessions.set(session.id, session);
+        return session;
+    }
+
+    /** @internal */
+    acquire(session: StreamerSession, symbols: string[]): void {
+        const fresh: string[] = [];
+        const replay: MarketEvent[] = [];
+
+        for (const sym of symbols) {
+            const count = this.refCounts.get(sym) || 0;
+            this.refCounts.set(sym, count + 1);
+            if (count === 0) {
+                fresh.push(sym);
+            } else {
+                replay.push(...(this.lastEvents.get(sym)?.values() || []));
+            }
+        }
+
+        if (fresh.length > 0) {
+            getMarketDataProvider().subscribe(fresh);
+        }
+
+        // Symbols already streaming won't send their snapshot again; hand over the latest events
+        if (replay.length > 0) {
+            setImmediate(() => session.deliver(replay));
+        }
+    }
+
+    /** @internal */
+    release(symbols: string[]): void {
+        const stale: string[] = [];
+
+        for (const sym of symbols) {
+            const count = this.refCounts.get(sym) || 0;
+            if (count <= 1) {
+                this.refCounts.delete(sym);
+                this.lastEvents.delete(sym);
+                stale.push(sym);
+            } else {
+                this.refCounts.set(sym, count - 1);
+            }
+        }
+
+        if (stale.length > 0) {
+            try {
+                getMarketDataProvider().unsubscribe(stale);
+            } catch (e) {
+                console.warn("Failed to unsubscribe:", e);
+            }
+        }
+    }
+
+    /** @internal */
+    detach(session: StreamerSession): void {
+        this.sessions.delete(session.id);
+    }
+
+    stats(): { connected: boolean; sessions: string[]; subscribedSymbols: number } {
+        return {
+            connected: this.connecting !== null,
+            sessions: Array.from(this.sessions.values()).map(s => s.label),
+            subscribedSymbols: this.refCounts.size
+        };
+    }
+
+    /**
+     * Close every session and drop the shared connection
+     */
+    async shutdown(): Promise<void> {
+        for (const session of Array.from(this.sessions.values())) {
+            session.close();
+        }
+
+        const provider = getMarketDataProvider();
+        if (this.connecting) {
+            provider.removeEventListener(this.dispatch);
+            this.connecting = null;
+            try {
+                await provider.disconnect();
+                console.log("Disconnected streamer WebSocket");
+            } catch (e) {
+                console.warn("Failed to disconnect streamer:", e);
+            }
+        }
+
+        this.refCounts.clear();
+        this.lastEvents.clear();
+    }
+}
+
+// Export a singleton manager shared by all calculations
+export const streamerSessions = new StreamerSessionManager();
@@ -1,307 +1,1566 @@
-// @ts-ignore - The SDK might need specific handling
-import TastytradeClient from '@tastytrade/api';
 import { differenceInDays, parseISO } from 'date-fns';
+import { getEventSymbol, getMarketDataProvider, MarketEvent, readNumber, readRecord, readRecords, readString, SymbolSearchResult } from './providers';
+import { streamerSessions, StreamerSession } from './streamerSession';
+import { getContractMultiplier } from '../config/assets';
+import { greeksFromPrice, RISK_FREE_RATE } from './pricing';
 
-const CLIENT_SECRET = process.env.TASTY_CLIENT_SECRET;
-const REFRESH_TOKEN = process.env.TASTY_REFRESH_TOKEN;
-const IS_SANDBOX = process.env.TASTY_IS_SANDBOX === 'true';
+export type { SymbolSearchResult } from './providers';
 
-// Global instance to reuse
-let client: TastytradeClient | null = null;
-
-// Track current subscription state for cleanup
-let currentSubscribedSymbols: string[] = [];
-let currentEventHandler: ((json: any) => void) | null = null;
-let currentTimeout: ReturnType<typeof setTimeout> | null = null;
-
-// @ts-ignore
-const config = IS_SANDBOX ? TastytradeClient.SandboxConfig : TastytradeClient.ProdConfig;
+export interface ChainStrike {
+    strikePrice: number;
+    callSymbol?: string;
+    putSymbol?: string;
+}
 
 export interface ChainResult {
     symbols: string[];
     expirationDate: string;
     dte: number;
+    expirationType: string;
+    strikes: ChainStrike[];
+    // Underlying futures contract from the chain (e.g. /ESH6), null for equities
+    underlyingSymbol: string | null;
+    // Shares per contract from an equity chain, null when the chain doesn't list it
+    multiplier: number | null;
+}
+
+/**
+ * Instrument the options are written on, with its quote streamer symbol
+ */
+export interface UnderlyingContract {
+    symbol: string;
+    streamerSymbol: string;
+}
+
+// Whether an option's Greeks came from the DxFeed stream or the pricing fallback
+export type GreeksSource = 'feed' | 'computed';
+
+/**
+ * Greeks for one option from the Phase 1 stream (null when not published)
+ */
+export interface OptionGreeks {
+    delta: number;
+    iv: number | null;
+    gamma: number | null;
+    vega: number | null;
+    theta: number | null;
+    source: GreeksSource;
+}
+
+/**
+ * One option the skew was computed from
+ */
+export interface BandOption {
+    symbol: string;
+    strike: number;
+    type: 'call' | 'put';
+    delta: number;
+    greeksSource: GreeksSource;
 }
 
+/**
+ * One option of the expiration as collected, stored with history snapshots
+ * so a reading can be audited or recomputed with different parameters
+ */
+export interface ChainOptionSnapshot {
+    symbol: string;
+    strike: number;
+    type: 'call' | 'put';
+    delta: number | null;
+    iv: number | null;
+    openInterest: number | null;
+    bid: number | null;
+    ask: number | null;
+    volume: number | null;
+    greeksSource: GreeksSource | null;
+}
+
+export interface SmilePoint {
+    strike: number;
+    callIv: number | null;
+    putIv: number | null;
+    callDelta: number | null;
+    putDelta: number | null;
+    callGamma: number | null;
+    putGamma: number | null;
+    callVega: number | null;
+    putVega: number | null;
+    callTheta: number | null;
+    putTheta: number | null;
+}
+
+export interface SmileDeltaPoint {
+    delta: number;
+    strike: number;
+    type: 'call' | 'put';
+    iv: number;
+}
+
+export interface SmileResult {
+    symbol: string;
+    expirationDate: string;
+    dte: number;
+    byStrike: SmilePoint[];
+    byDelta: SmileDeltaPoint[];
+}
+
+/**
+ * Dealer gamma exposure for one strike (calls positive, puts negative)
+ */
+export interface GexStrike {
+    strike: number;
+    callOi: number;
+    putOi: number;
+    callGex: number;
+    putGex: number;
+    netGex: number;
+}
+
+/**
+ * Open interest at one strike of an expiration
+ */
+export interface OiStrike {
+    strike: number;
+    callOi: number;
+    putOi: number;
+    putCallRatio: number | null;
+}
+
+export interface OiWall {
+    strike: number;
+    oi: number;
+}
+
+export interface OiDistributionResult {
+    symbol: string;
+    expirationDate: string;
+    dte: number;
+    underlyingSymbol: string | null;
+    underlyingPrice: number | null;
+    totalCallOi: number;
+    totalPutOi: number;
+    putCallRatio: number | null;
+    // Settlement strike where option holders' total payout is smallest
+    maxPain: number | null;
+    callWall: OiWall | null;
+    putWall: OiWall | null;
+    strikes: OiStrike[];
+}
+
+export interface GexResult {
+    symbol: string;
+    expirationDate: string;
+    dte: number;
+    underlyingSymbol: string;
+    underlyingPrice: number;
+    multiplier: number;
+    totalGex: number;
+    gammaFlip: number | null;
+    strikes: GexStrike[];
+}
+
+/**
+ * Expiration types listed in the option chain
+ */
+export const EXPIRATION_TYPES = ['Regular', 'Weekly', 'Quarterly', 'End-Of-Month'] as const;
+export type ExpirationType = typeof EXPIRATION_TYPES[number];
+export type ExpirationTypeFilter = ExpirationType | 'any';
+
+// Monthly expirations, used unless an expiration type is requested
+const DEFAULT_EXPIRATION_TYPES: readonly string[] = ['End-Of-Month', 'Regular'];
+
+/**
+ * One listed expiration of an option chain
+ */
+export interface ExpirationInfo {
+    expirationDate: string;
+    dte: number;
+    expirationType: string;
+    strikeCount: number;
+    underlyingSymbol: string | null;
+}
+
+/**
+ * Delta band and expiration target for a skew calculation.
+ * Deltas are absolute values; puts use the mirrored negative band.
+ */
+export interface SkewParams {
+    minDelta: number;
+    maxDelta: number;
+    centerDelta: number;
+    targetDte: number;
+    // Expiration types to choose from (defaults to Regular + End-Of-Month)
+    expirationType?: ExpirationTypeFilter;
+    // Exact expiration date (YYYY-MM-DD), overrides targetDte and expirationType
+    expirationDate?: string;
+}
+
+export const DEFAULT_SKEW_PARAMS: SkewParams = {
+    minDelta: 0.10,
+    maxDelta: 0.30,
+    centerDelta: 0.20,
+    targetDte: 30
+};
+
+// Default horizon for term structure calculations
+export const DEFAULT_TERM_STRUCTURE_MAX_DTE = 180;
+
+/**
+ * Fill missing params with defaults and validate the band.
+ * When only the band is given, the center defaults to its midpoint.
+ */
+export const resolveSkewParams = (params: Partial<SkewParams> = {}): SkewParams => {
+    const minDelta = params.minDelta ?? DEFAULT_SKEW_PARAMS.minDelta;
+    const maxDelta = params.maxDelta ?? DEFAULT_SKEW_PARAMS.maxDelta;
+    const bandChanged = params.minDelta !== undefined || params.maxDelta !== undefined;
+    const centerDelta = params.centerDelta ?? (bandChanged ? (minDelta + maxDelta) / 2 : DEFAULT_SKEW_PARAMS.centerDelta);
+    const targetDte = params.targetDte ?? DEFAULT_SKEW_PARAMS.targetDte;
+
+    if (!(minDelta > 0 && maxDelta < 1 && minDelta <= maxDelta)) {
+        throw new Error("Invalid delta band: require 0 < minDelta <= maxDelta < 1");
+    }
+    if (!(centerDelta >= minDelta && centerDelta <= maxDelta)) {
+        throw new Error("Invalid centerDelta: must lie within the delta band");
+    }
+    if (!Number.isInteger(targetDte) || targetDte < 0) {
+        throw new Error("Invalid targetDte: must be a non-negative integer");
+    }
+
+    const { expirationType, expirationDate } = params;
+    if (expirationType !== undefined && expirationType !== 'any' && !EXPIRATION_TYPES.includes(expirationType)) {
+        throw new Error(`Invalid expirationType: must be one of ${[...EXPIRATION_TYPES, 'any'].join(', ')}`);
+    }
+    if (expirationDate !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(expirationDate)) {
+        throw new Error("Invalid expirationDate: expected YYYY-MM-DD");
+    }
+
+    return {
+        minDelta,
+        maxDelta,
+        centerDelta,
+        targetDte,
+        ...(expirationType !== undefined && { expirationType }),
+        ...(expirationDate !== undefined && { expirationDate })
+    };
+};
+
+/**
+ * Whether params pick a non-default expiration (type filter or exact date)
+ */
+export const hasExpirationSelection = (params: SkewParams): boolean =>
+    params.expirationType !== undefined || params.expirationDate !== undefined;
+
+/**
+ * Human-readable delta band, e.g. "10-30"
+ */
+export const formatDeltaBand = (params: SkewParams): string => {
+    const min = Math.round(params.minDelta * 100);
+    const max = Math.round(params.maxDelta * 100);
+    return min === max ? `${min}` : `${min}-${max}`;
+};
+
 export interface SkewResult {
     skew: number;
     pricingSkew: number | null;
     impliedMove: number | null;
     underlyingPrice: number | null;
+    // Contract the underlying price and implied move refer to
+    underlyingSymbol: string | null;
+    underlyingStreamerSymbol: string | null;
     expirationDate: string;
     dte: number;
+    expirationType: string;
     callOi: number;
     putOi: number;
+    // Put/Call day volume (intraday positioning, unlike the once-a-day OI)
+    volumeSkew: number | null;
+    callVolume: number;
+    putVolume: number;
+    // Weighted Put/Call variants over the same options as the OI skew
+    deltaWeightedSkew: number | null;     // OI x |delta|
+    premiumWeightedSkew: number | null;   // OI x mid price
+    notionalWeightedSkew: number | null;  // OI x strike (multiplier and spot cancel)
     callDelta: number;
     putDelta: number;
     callStreamerSymbol: string;
     putStreamerSymbol: string;
+    // Volatility skew (IV interpolated from the Greeks stream, in decimal vol)
+    riskReversal25: number | null;
+    butterfly25: number | null;
+    riskReversal10: number | null;
+    atmIv: number | null;
+    // Dealer gamma exposure across the whole expiration (null when not collected)
+    totalGex: number | null;
+    gammaFlip: number | null;
+    // Options in the delta band, flagged with where their Greeks came from
+    bandOptions: BandOption[];
+    // When the calculation finished (ISO timestamp)
+    calculatedAt: string;
+    // Calculation parameters
+    minDelta: number;
+    maxDelta: number;
+    centerDelta: number;
+    targetDte: number;
 }
 
-export interface SymbolSearchResult {
+/**
+ * Search for symbols matching a query
+ */
+export const searchSymbols = async (query: string): Promise<SymbolSearchResult[]> => {
+    return getMarketDataProvider().searchSymbols(query);
+};
+
+/**
+ * Disconnect the shared streamer connection if no session is using it.
+ * Returns false (leaving it connected) while calculations are in flight.
+ */
+export const cleanupStreamer = async (): Promise<boolean> => {
+    if (streamerSessions.stats().sessions.length > 0) return false;
+    await streamerSessions.shutdown();
+    return true;
+};
+
+/**
+ * Prepare the active market data provider (see MARKET_DATA_PROVIDER)
+ */
+export const authenticate = async (): Promise<void> => {
+    await getMarketDataProvider().authenticate();
+};
+
+/**
+ * Get the streamer symbol for an underlying (futures or equity)
+ */
+export const getStreamerSymbol = async (symbol: string): Promise<string> => {
+    return getMarketDataProvider().getStreamerSymbol(symbol);
+};
+
+/**
+ * Fetch every upcoming expiration of the requested type (Regular/End-Of-Month by default)
+ * with its streamer symbols, sorted by DTE
+ */
+export const fetchExpirations = async (symbol: string, expirationType?: ExpirationTypeFilter): Promise<ChainResult[]> => {
+    const provider = getMarketDataProvider();
+
+    console.log("Fetching chain for", symbol);
+
+    const items = await provider.fetchChainExpirations(symbol);
+
+    if (!Array.isArray(items) || items.length === 0) {
+        throw new Error("Unexpected chain structure: could not find expirations list.");
+    }
+
+    // Filter for the requested expiration types
+    const validExpTypes = expirationType ? [expirationType] : DEFAULT_EXPIRATION_TYPES;
+    const filteredExpItems = items.filter(exp => {
+        const expType = readString(exp, 'expiration-type', 'expirationType');
+        return expirationType === 'any' || (expType !== undefined && validExpTypes.includes(expType));
+    });
+
+    if (filteredExpItems.length === 0) {
+        throw new Error(`No ${validExpTypes.join(' or ')} expirations found.`);
+    }
+
+    const today = provider.now();
+    const expirations: ChainResult[] = [];
+
+    for (const exp of filteredExpItems) {
+        const expDateStr = readString(exp, 'expiration-date', 'expirationDate');
+        if (!expDateStr) continue;
+
+        const expDate = parseISO(expDateStr);
+        const dte = differenceInDays(expDate, today);
+
+        if (dte < 0) continue;
+
+        const symbols: string[] = [];
+        const strikes: ChainStrike[] = [];
+
+        for (const strike of readRecords(exp, 'strikes')) {
+            const callSymbol = readString(strike, 'call-streamer-symbol');
+            const putSymbol = readString(strike, 'put-streamer-symbol');
+            if (callSymbol) symbols.push(callSymbol);
+            if (putSymbol) symbols.push(putSymbol);
+            strikes.push({
+                strikePrice: readNumber(strike, 'strike-price', 'strikePrice') ?? NaN,
+                callSymbol,
+                putSymbol
+            });
+        }
+
+        const underlyingSymbol = symbol.startsWith('/')
+            ? readString(exp, 'underlying-symbol', 'underlyingSymbol') ?? null
+            : null;
+
+        const expType = readString(exp, 'expiration-type', 'expirationType') || 'Regular';
+        const sharesPerContract = readNumber(exp, 'shares-per-contract', 'sharesPerContract');
+        const multiplier = sharesPerContract !== undefined && sharesPerContract > 0 ? sharesPerContract : null;
+
+        expirations.push({ symbols, expirationDate: expDateStr, dte, expirationType: expType, strikes, underlyingSymbol, multiplier });
+    }
+
+    return expirations.sort((a, b) => a.dte - b.dte);
+};
+
+/**
+ * List every upcoming expiration of any type (for expiration pickers)
+ */
+export const listExpirations = async (symbol: string): Promise<ExpirationInfo[]> => {
+    const expirations = await fetchExpirations(symbol, 'any');
+    return expirations.map(exp => ({
+        expirationDate: exp.expirationDate,
+        dte: exp.dte,
+        expirationType: exp.expirationType,
+        strikeCount: exp.strikes.length,
+        underlyingSymbol: exp.underlyingSymbol
+    }));
+};
+
+/**
+ * Select the expiration closest to targetDte among the requested types,
+ * or the exact expirationDate when given
+ */
+export const fetchOptionChain = async (
+    symbol: string,
+    targetDte: number = DEFAULT_SKEW_PARAMS.targetDte,
+    selection: Pick<SkewParams, 'expirationType' | 'expirationDate'> = {}
+): Promise<ChainResult> => {
+    if (selection.expirationDate) {
+        const exact = (await fetchExpirations(symbol, 'any')).find(exp => exp.expirationDate === selection.expirationDate);
+        if (!exact) {
+            throw new Error(`Expiration ${selection.expirationDate} not found for ${symbol}`);
+        }
+        console.log("Selected Expiration:", exact.expirationDate, exact.expirationType, "DTE:", exact.dte);
+        return exact;
+    }
+
+    const expirations = await fetchExpirations(symbol, selection.expirationType);
+
+    let bestExp: ChainResult | null = null;
+    let minDiff = Infinity;
+
+    for (const exp of expirations) {
+        const diff = Math.abs(exp.dte - targetDte);
+        if (diff < minDiff) {
+            minDiff = diff;
+            bestExp = exp;
+        }
+    }
+
+    if (!bestExp) {
+        throw new Error("No suitable expiration found.");
+    }
+
+    console.log("Selected Expiration:", bestExp.expirationDate, bestExp.expirationType, "DTE:", bestExp.dte);
+    console.log(`Collected ${bestExp.symbols.length} streamer symbols`);
+
+    return bestExp;
+};
+
+/**
+ * Fetch all expirations out to a DTE horizon (for term structure)
+ */
+export const fetchTermStructureChains = async (
+    symbol: string,
+    maxDte: number,
+    expirationType?: ExpirationTypeFilter
+): Promise<ChainResult[]> => {
+    const expirations = (await fetchExpirations(symbol, expirationType)).filter(exp => exp.dte <= maxDte);
+
+    if (expirations.length === 0) {
+        throw new Error(`No expirations found within ${maxDte} DTE.`);
+    }
+
+    console.log(`Selected ${expirations.length} expirations out to ${maxDte} DTE`);
+    return expirations;
+};
+
+export interface ChainProgress {
+    symbolCount: number;
+    // Single-expiration calculations
+    expirationDate?: string;
+    dte?: number;
+    // Term structure
+    expirations?: { expirationDate: string; dte: number }[];
+}
+
+/**
+ * Progress event of a calculation; `data` depends on the type and carries the
+ * result (T) on the final event
+ */
+export type StreamProgress<T = SkewResult> = { message?: string } & (
+    | { type: 'chain'; data?: ChainProgress }
+    | { type: 'phase1'; data?: { coverage: Coverage } }
+    | { type: 'phase2'; data?: { coverage: Coverage; quotes: Coverage; underlying: Coverage } }
+    | { type: 'result'; data: T }
+    | { type: 'error'; data?: undefined }
+);
+
+/**
+ * Share of subscribed symbols that have reported the data a phase waits for
+ */
+export interface Coverage {
+    received: number;
+    total: number;
+    percent: number;
+}
+
+// Phase windows are upper bounds; each phase ends early once coverage reaches the target
+const COVERAGE_TARGET = Number(process.env.COVERAGE_TARGET) || 0.95;
+const PHASE1_TIMEOUT_MS = Number(process.env.PHASE1_TIMEOUT_MS) || 5000;
+const PHASE2_TIMEOUT_MS = Number(process.env.PHASE2_TIMEOUT_MS) || 30000;
+// Extra wait for quotes and the underlying price once the OI target is met
+const COVERAGE_GRACE_MS = Number(process.env.COVERAGE_GRACE_MS) || 2000;
+const COVERAGE_CHECK_INTERVAL_MS = 500;
+// Stream the whole expiration in Phase 2 of a skew calculation (adds GEX to the result)
+const PHASE2_FULL_CHAIN = process.env.PHASE2_FULL_CHAIN === 'true';
+
+interface OptionRef {
     symbol: string;
-    description: string;
-    listedMarket?: string;
-    instrumentType?: string;
+    delta: number;
+}
+
+interface BandSelection {
+    filteredSymbols: string[];
+    atmCall: OptionRef | null;
+    atmPut: OptionRef | null;
+}
+
+interface OptionMarketData {
+    oi?: number;
+    volume?: number;
+    bid?: number;
+    ask?: number;
+}
+
+interface MarketDataSnapshot {
+    options: Record<string, OptionMarketData>;
+    underlyingPrices: Record<string, number>;
+}
+
+// Greeks fields arrive as numbers, but unpublished values can be NaN
+const finiteOrNull = (value: unknown): number | null => {
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Open a streamer session that closes when the request is aborted
+ */
+const openSession = async (label: string, signal?: AbortSignal): Promise<StreamerSession> => {
+    const session = await streamerSessions.open(label);
+
+    if (signal) {
+        if (signal.aborted) {
+            session.close();
+        } else {
+            const onAbort = () => session.close();
+            signal.addEventListener('abort', onAbort, { once: true });
+            session.onClose(() => signal.removeEventListener('abort', onAbort));
+        }
+    }
+
+    return session;
+};
+
+const assertSessionOpen = (session: StreamerSession): void => {
+    if (session.isClosed) {
+        throw new Error("Calculation cancelled");
+    }
+};
+
+const toCoverage = (received: number, total: number): Coverage => ({
+    received,
+    total,
+    percent: total > 0 ? Math.round((received / total) * 1000) / 10 : 100
+});
+
+const meetsCoverageTarget = (coverage: Coverage): boolean =>
+    coverage.total === 0 || coverage.received / coverage.total >= COVERAGE_TARGET;
+
+/**
+ * Human-readable coverage, e.g. "96.5% (110/114)"
+ */
+const formatCoverage = (coverage: Coverage): string =>
+    `${coverage.percent}% (${coverage.received}/${coverage.total})`;
+
+interface CollectOptions {
+    // Checked after every event batch and on each tick; resolves early when true
+    isComplete?: () => boolean;
+    // Called periodically while collecting (progress reporting)
+    onTick?: () => void;
 }
 
 /**
- * Search for symbols matching a query
+ * Subscribe the session to symbols and feed their events to a handler
+ * until the window elapses, the completion check passes or the session closes
+ */
+const collectEvents = (
+    session: StreamerSession,
+    symbols: string[],
+    durationMs: number,
+    onEvent: (event: MarketEvent) => void,
+    options: CollectOptions = {}
+): Promise<void> => {
+    return new Promise<void>((resolve) => {
+        if (session.isClosed) {
+            resolve();
+            return;
+        }
+
+        const { isComplete, onTick } = options;
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        let ticker: ReturnType<typeof setInterval> | null = null;
+        let stopOnClose: (() => void) | null = null;
+        let done = false;
+
+        const finish = () => {
+            if (done) return;
+            done = true;
+            if (timer) clearTimeout(timer);
+            if (ticker) clearInterval(ticker);
+            stopOnClose?.();
+            session.removeEventListener(listener);
+            resolve();
+        };
+
+        const listener = (json: MarketEvent | MarketEvent[]) => {
+            const events = Array.isArray(json) ? json : [json];
+            events.forEach(onEvent);
+            if (isComplete?.()) finish();
+        };
+
+        session.addEventListener(listener);
+        session.subscribe(symbols);
+        timer = setTimeout(finish, durationMs);
+        if (isComplete || onTick) {
+            ticker = setInterval(() => {
+                onTick?.();
+                if (isComplete?.()) finish();
+            }, COVERAGE_CHECK_INTERVAL_MS);
+        }
+        stopOnClose = session.onClose(finish);
+    });
+};
+
+/**
+ * Phase 1: subscribe to symbols and collect their Greeks until delta coverage
+ * reaches the target (or the window elapses)
+ */
+const collectGreeks = async (
+    session: StreamerSession,
+    symbols: string[],
+    durationMs: number,
+    onCoverage?: (coverage: Coverage) => void
+): Promise<Record<string, OptionGreeks>> => {
+    const symbolSet = new Set(symbols);
+    const greeks: Record<string, OptionGreeks> = {};
+    const startedAt = Date.now();
+    let received = 0;
+    let reported = -1;
+
+    const coverage = () => toCoverage(received, symbolSet.size);
+    const report = () => {
+        if (received === reported) return;
+        reported = received;
+        onCoverage?.(coverage());
+    };
+
+    console.log(`[Phase 1] Subscribing to ${symbols.length} symbols...`);
+
+    await collectEvents(session, symbols, durationMs, (event) => {
+        const sym = getEventSymbol(event);
+        const type = readString(event, 'eventType');
+
+        if (!sym || !symbolSet.has(sym)) return;
+
+        const nested = readRecord(event, 'greeks');
+        if (type === 'Greeks' || nested) {
+            const source = nested ?? event;
+            const delta = readNumber(source, 'delta');
+            if (delta !== undefined) {
+                if (!greeks[sym]) received++;
+                greeks[sym] = {
+                    delta,
+                    iv: finiteOrNull(source.volatility),
+                    gamma: finiteOrNull(source.gamma),
+                    vega: finiteOrNull(source.vega),
+                    theta: finiteOrNull(source.theta),
+                    source: 'feed'
+                };
+            }
+        }
+    }, {
+        isComplete: () => meetsCoverageTarget(coverage()),
+        onTick: report
+    });
+
+    report();
+    console.log(`[Phase 1] Collected Greeks for ${formatCoverage(coverage())} symbols in ${Date.now() - startedAt}ms`);
+
+    // Unsubscribe from all symbols before Phase 2
+    session.unsubscribe(symbols);
+
+    return greeks;
+};
+
+const toDeltaMap = (greeks: Record<string, OptionGreeks>): Record<string, number> => {
+    const deltas: Record<string, number> = {};
+    for (const [sym, g] of Object.entries(greeks)) {
+        deltas[sym] = g.delta;
+    }
+    return deltas;
+};
+
+/**
+ * Build the call/put IV curve for one expiration, by strike and by delta
+ */
+const buildSmile = (symbol: string, chain: ChainResult, greeks: Record<string, OptionGreeks>): SmileResult => {
+    const byStrike: SmilePoint[] = [];
+    const byDelta: SmileDeltaPoint[] = [];
+
+    for (const strike of chain.strikes) {
+        const call = strike.callSymbol ? greeks[strike.callSymbol] : undefined;
+        const put = strike.putSymbol ? greeks[strike.putSymbol] : undefined;
+        if (!call && !put) continue;
+
+        byStrike.push({
+            strike: strike.strikePrice,
+            callIv: call?.iv ?? null,
+            putIv: put?.iv ?? null,
+            callDelta: call?.delta ?? null,
+            putDelta: put?.delta ?? null,
+            callGamma: call?.gamma ?? null,
+            putGamma: put?.gamma ?? null,
+            callVega: call?.vega ?? null,
+            putVega: put?.vega ?? null,
+            callTheta: call?.theta ?? null,
+            putTheta: put?.theta ?? null
+        });
+
+        if (call && call.iv !== null) {
+            byDelta.push({ delta: call.delta, strike: strike.strikePrice, type: 'call', iv: call.iv });
+        }
+        if (put && put.iv !== null) {
+            byDelta.push({ delta: put.delta, strike: strike.strikePrice, type: 'put', iv: put.iv });
+        }
+    }
+
+    byStrike.sort((a, b) => a.strike - b.strike);
+    byDelta.sort((a, b) => a.delta - b.delta);
+
+    return {
+        symbol: symbol.toUpperCase(),
+        expirationDate: chain.expirationDate,
+        dte: chain.dte,
+        byStrike,
+        byDelta
+    };
+};
+
+const isCallInBand = (delta: number, params: SkewParams) => delta >= params.minDelta && delta <= params.maxDelta;
+const isPutInBand = (delta: number, params: SkewParams) => delta <= -params.minDelta && delta >= -params.maxDelta;
+
+/**
+ * Keep balanced calls and puts in the delta band (closest to the center first),
+ * plus the options closest to 50 delta for the implied move
+ */
+const selectBandOptions = (
+    deltaMap: Record<string, number>,
+    symbols: string[],
+    params: SkewParams
+): BandSelection => {
+    const { centerDelta } = params;
+    const callCandidates: OptionRef[] = [];
+    const putCandidates: OptionRef[] = [];
+
+    // Also find ATM options (closest to 50 delta) for implied move calculation
+    let atmCall: OptionRef | null = null;
+    let atmPut: OptionRef | null = null;
+
+    for (const sym of symbols) {
+        const delta = deltaMap[sym];
+        if (delta === undefined) continue;
+
+        if (isCallInBand(delta, params)) {
+            callCandidates.push({ symbol: sym, delta });
+        }
+        if (isPutInBand(delta, params)) {
+            putCandidates.push({ symbol: sym, delta });
+        }
+
+        // Find closest to 50 delta (ATM)
+        if (delta > 0 && (!atmCall || Math.abs(delta - 0.50) < Math.abs(atmCall.delta - 0.50))) {
+            atmCall = { symbol: sym, delta };
+        }
+        if (delta < 0 && (!atmPut || Math.abs(delta - (-0.50)) < Math.abs(atmPut.delta - (-0.50)))) {
+            atmPut = { symbol: sym, delta };
+        }
+    }
+
+    callCandidates.sort((a, b) => Math.abs(a.delta - centerDelta) - Math.abs(b.delta - centerDelta));
+    putCandidates.sort((a, b) => Math.abs(a.delta + centerDelta) - Math.abs(b.delta + centerDelta));
+
+    const balancedCount = Math.min(callCandidates.length, putCandidates.length);
+    const selectedCalls = callCandidates.slice(0, balancedCount);
+    const selectedPuts = putCandidates.slice(0, balancedCount);
+
+    return {
+        filteredSymbols: [
+            ...selectedCalls.map(c => c.symbol),
+            ...selectedPuts.map(p => p.symbol)
+        ],
+        atmCall,
+        atmPut
+    };
+};
+
+/**
+ * Phase 2 subscription of a skew calculation: every option whose Phase 1 delta is
+ * in the band, the ATM pair, and options without feed Greeks (priced from their quotes)
+ */
+const getPhase2Symbols = (
+    symbols: string[],
+    greeks: Record<string, OptionGreeks>,
+    params: SkewParams
+): string[] => {
+    const { atmCall, atmPut } = selectBandOptions(toDeltaMap(greeks), symbols, params);
+    const phase2Symbols = new Set(symbols.filter(sym => {
+        const delta = greeks[sym]?.delta;
+        return delta === undefined || isCallInBand(delta, params) || isPutInBand(delta, params);
+    }));
+    if (atmCall) phase2Symbols.add(atmCall.symbol);
+    if (atmPut) phase2Symbols.add(atmPut.symbol);
+    return [...phase2Symbols];
+};
+
+/**
+ * Resolve the instrument an expiration's options are written on.
+ * Futures options use the chain's `underlying-symbol` contract; when the chain
+ * doesn't carry it, the first listed future expiring on or after the option
+ * expiration is used. Returns null when no contract can be determined.
  */
-export const searchSymbols = async (query: string): Promise<SymbolSearchResult[]> => {
-    if (!client) await authenticate();
+const resolveUnderlying = async (symbol: string, chain: ChainResult): Promise<UnderlyingContract | null> => {
+    if (!symbol.startsWith('/')) {
+        // For equities, the symbol itself is the underlying
+        return { symbol, streamerSymbol: await getStreamerSymbol(symbol) };
+    }
 
-    try {
-        // @ts-ignore
-        const response = await client!.httpClient.getData(`/symbols/search/${encodeURIComponent(query)}`);
-        const data = response?.data?.data?.items || response?.data?.items || response?.data || [];
+    if (chain.underlyingSymbol) {
+        return { symbol: chain.underlyingSymbol, streamerSymbol: await getStreamerSymbol(chain.underlyingSymbol) };
+    }
 
-        if (!Array.isArray(data)) {
-            console.warn('Unexpected symbol search response:', data);
-            return [];
-        }
+    const rootSymbol = symbol.replace('/', '').replace(/[FGHJKMNQUVXZ]\d{1,2}$/, '');
+    const futures = await getMarketDataProvider().fetchFutures(rootSymbol);
+    const contract = futures
+        .filter(f => f.expirationDate !== null && f.expirationDate >= chain.expirationDate)
+        .sort((a, b) => (a.expirationDate as string).localeCompare(b.expirationDate as string))[0];
 
-        return data.map((item: any) => ({
-            symbol: item.symbol || item['symbol'],
-            description: item.description || item['description'] || '',
-            listedMarket: item['listed-market'] || item.listedMarket,
-            instrumentType: item['instrument-type'] || item.instrumentType
-        }));
-    } catch (error) {
-        console.error('Symbol search error:', error);
-        return [];
+    if (!contract) {
+        console.warn(`Could not resolve underlying future for ${symbol} ${chain.expirationDate}`);
+        return null;
     }
+
+    return { symbol: contract.symbol, streamerSymbol: contract.streamerSymbol };
 };
 
 /**
- * Cleanup any existing streamer subscriptions and event listeners.
+ * Linearly interpolate IV at a target delta from (delta, iv) points.
+ * Returns null when the target lies outside the observed deltas.
  */
-export const cleanupStreamer = async (): Promise<void> => {
-    if (!client) return;
+const interpolateIv = (points: { delta: number; iv: number }[], targetDelta: number): number | null => {
+    const sorted = [...points].sort((a, b) => a.delta - b.delta);
 
-    if (currentTimeout) {
-        clearTimeout(currentTimeout);
-        currentTimeout = null;
-    }
+    for (let i = 0; i < sorted.length; i++) {
+        const point = sorted[i];
+        if (point.delta === targetDelta) return point.iv;
 
-    if (currentEventHandler) {
-        try {
-            // @ts-ignore
-            client.quoteStreamer.removeEventListener(currentEventHandler);
-            console.log("Removed previous event listener");
-        } catch (e) {
-            console.warn("Failed to remove event listener:", e);
+        const next = sorted[i + 1];
+        if (next && point.delta < targetDelta && next.delta > targetDelta) {
+            const weight = (targetDelta - point.delta) / (next.delta - point.delta);
+            return point.iv + weight * (next.iv - point.iv);
         }
-        currentEventHandler = null;
     }
 
-    if (currentSubscribedSymbols.length > 0) {
-        try {
-            // @ts-ignore
-            if (client.quoteStreamer.unsubscribe) {
-                client.quoteStreamer.unsubscribe(currentSubscribedSymbols);
-                console.log(`Unsubscribed from ${currentSubscribedSymbols.length} symbols`);
-            }
-        } catch (e) {
-            console.warn("Failed to unsubscribe:", e);
+    return null;
+};
+
+/**
+ * Fill Greeks the feed didn't publish by solving IV from the quote mid:
+ * Black-76 for futures options, Black-Scholes for equity options.
+ * Options without a two-sided quote or an underlying price stay missing.
+ */
+const fillMissingGreeks = (
+    symbol: string,
+    chain: ChainResult,
+    greeks: Record<string, OptionGreeks>,
+    snapshot: MarketDataSnapshot,
+    underlying: UnderlyingContract | null
+): Record<string, OptionGreeks> => {
+    const filled: Record<string, OptionGreeks> = { ...greeks };
+    const underlyingPrice = underlying ? snapshot.underlyingPrices[underlying.streamerSymbol] : undefined;
+    const model = symbol.startsWith('/') ? 'black76' : 'black-scholes';
+    // Same-day expirations count as half a day
+    const timeToExpiry = Math.max(chain.dte, 0.5) / 365;
+    let missing = 0;
+    let computed = 0;
+
+    for (const strike of chain.strikes) {
+        for (const [optionSymbol, type] of [[strike.callSymbol, 'call'], [strike.putSymbol, 'put']] as const) {
+            if (!optionSymbol || filled[optionSymbol]) continue;
+            missing++;
+
+            const data = snapshot.options[optionSymbol];
+            if (underlyingPrice === undefined || !data || data.bid === undefined || data.ask === undefined ||
+                data.bid <= 0 || data.ask <= 0) continue;
+
+            const result = greeksFromPrice({
+                model,
+                type,
+                underlyingPrice,
+                strike: strike.strikePrice,
+                timeToExpiry,
+                rate: RISK_FREE_RATE
+            }, (data.bid + data.ask) / 2);
+            if (!result) continue;
+
+            filled[optionSymbol] = { ...result, theta: null, source: 'computed' };
+            computed++;
         }
-        currentSubscribedSymbols = [];
     }
 
-    try {
-        // @ts-ignore
-        if (client.quoteStreamer.disconnect) {
-            await client.quoteStreamer.disconnect();
-            console.log("Disconnected streamer WebSocket");
-        }
-    } catch (e) {
-        console.warn("Failed to disconnect streamer:", e);
+    if (missing > 0) {
+        console.log(`[Pricing] Computed ${model} Greeks for ${computed} of ${missing} options missing from the feed`);
     }
+
+    return filled;
 };
 
-export const authenticate = async (): Promise<TastytradeClient> => {
-    if (client) return client;
+/**
+ * Band options with their strike, type and Greeks source
+ */
+const describeBandOptions = (
+    chain: ChainResult,
+    selection: BandSelection,
+    greeks: Record<string, OptionGreeks>
+): BandOption[] => {
+    const selected = new Set(selection.filteredSymbols);
+    const options: BandOption[] = [];
+
+    for (const strike of chain.strikes) {
+        for (const [optionSymbol, type] of [[strike.callSymbol, 'call'], [strike.putSymbol, 'put']] as const) {
+            const g = optionSymbol ? greeks[optionSymbol] : undefined;
+            if (!optionSymbol || !g || !selected.has(optionSymbol)) continue;
+            options.push({ symbol: optionSymbol, strike: strike.strikePrice, type, delta: g.delta, greeksSource: g.source });
+        }
+    }
+
+    return options.sort((a, b) => a.strike - b.strike);
+};
 
-    if (!CLIENT_SECRET || !REFRESH_TOKEN) {
-        throw new Error("Missing credentials. Set TASTY_CLIENT_SECRET and TASTY_REFRESH_TOKEN in server/.env");
+/**
+ * Every option of the expiration with the Greeks and market data the calculation saw
+ */
+const buildChainSnapshot = (
+    chain: ChainResult,
+    greeks: Record<string, OptionGreeks>,
+    snapshot: MarketDataSnapshot
+): ChainOptionSnapshot[] => {
+    const options: ChainOptionSnapshot[] = [];
+
+    for (const strike of chain.strikes) {
+        for (const [optionSymbol, type] of [[strike.callSymbol, 'call'], [strike.putSymbol, 'put']] as const) {
+            if (!optionSymbol) continue;
+            const g = greeks[optionSymbol];
+            const data = snapshot.options[optionSymbol] || {};
+            options.push({
+                symbol: optionSymbol,
+                strike: strike.strikePrice,
+                type,
+                delta: g?.delta ?? null,
+                iv: g?.iv ?? null,
+                openInterest: data.oi ?? null,
+                bid: data.bid ?? null,
+                ask: data.ask ?? null,
+                volume: data.volume ?? null,
+                greeksSource: g?.source ?? null
+            });
+        }
     }
 
-    console.log(`Initializing Tastytrade Client (${IS_SANDBOX ? 'Sandbox' : 'Prod'})...`);
+    return options;
+};
 
-    // @ts-ignore
-    client = new TastytradeClient({
-        // @ts-ignore
-        ...config,
-        clientSecret: CLIENT_SECRET,
-        refreshToken: REFRESH_TOKEN,
-        oauthScopes: ['read', 'trade']
-    });
+// Raw chains of skew results, kept beside the result so they aren't cached or streamed
+const chainSnapshots = new WeakMap<SkewResult, ChainOptionSnapshot[]>();
 
-    return client;
+/**
+ * Raw chain a skew result was computed from (undefined for cached or restored results)
+ */
+export const getChainSnapshot = (result: SkewResult): ChainOptionSnapshot[] | undefined => {
+    return chainSnapshots.get(result);
 };
 
 /**
- * Get the streamer symbol for an underlying (futures or equity)
+ * 25/10 delta risk reversals (call IV - put IV), 25 delta butterfly and ATM IV for one expiration
  */
-export const getStreamerSymbol = async (symbol: string): Promise<string> => {
-    if (!client) await authenticate();
+const computeVolMetrics = (chain: ChainResult, greeks: Record<string, OptionGreeks>) => {
+    const calls: { delta: number; iv: number }[] = [];
+    const puts: { delta: number; iv: number }[] = [];
+
+    for (const strike of chain.strikes) {
+        const call = strike.callSymbol ? greeks[strike.callSymbol] : undefined;
+        const put = strike.putSymbol ? greeks[strike.putSymbol] : undefined;
+        if (call && call.iv !== null && call.iv > 0) calls.push({ delta: call.delta, iv: call.iv });
+        if (put && put.iv !== null && put.iv > 0) puts.push({ delta: put.delta, iv: put.iv });
+    }
 
-    const hasSlash = symbol.startsWith('/');
-    const normalizedSymbol = symbol.replace('/', '');
+    const call25 = interpolateIv(calls, 0.25);
+    const put25 = interpolateIv(puts, -0.25);
+    const call10 = interpolateIv(calls, 0.10);
+    const put10 = interpolateIv(puts, -0.10);
 
-    try {
-        if (hasSlash) {
-            // Futures - use symbol without slash for API endpoint
-            // @ts-ignore
-            const response = await client!.httpClient.getData(`/instruments/futures/${encodeURIComponent(normalizedSymbol)}`);
-            const data = response?.data?.data || response?.data || response;
-            const streamerSymbol = data['streamer-symbol'];
-            return streamerSymbol || symbol;
-        } else {
-            // Equity
-            // @ts-ignore
-            const response = await client!.httpClient.getData(`/instruments/equities/${encodeURIComponent(normalizedSymbol)}`);
-            const data = response?.data?.data || response?.data || response;
-            const streamerSymbol = data['streamer-symbol'];
-            return streamerSymbol || symbol;
-        }
-    } catch (error) {
-        return symbol;
-    }
+    // ATM IV: average of the 50 delta call and put where available
+    const atmIvs = [interpolateIv(calls, 0.50), interpolateIv(puts, -0.50)].filter((iv): iv is number => iv !== null);
+    const atmIv = atmIvs.length > 0 ? atmIvs.reduce((sum, iv) => sum + iv, 0) / atmIvs.length : null;
+
+    return {
+        riskReversal25: call25 !== null && put25 !== null ? call25 - put25 : null,
+        butterfly25: call25 !== null && put25 !== null && atmIv !== null ? (call25 + put25) / 2 - atmIv : null,
+        riskReversal10: call10 !== null && put10 !== null ? call10 - put10 : null,
+        atmIv
+    };
 };
 
-export const fetchOptionChain = async (symbol: string): Promise<ChainResult> => {
-    if (!client) throw new Error("Client not initialized");
+/**
+ * Price level where cumulative GEX (summed from the lowest strike up) changes sign,
+ * interpolated between strikes. Picks the crossing closest to spot.
+ */
+const findGammaFlip = (strikes: GexStrike[], spot: number): number | null => {
+    let flip: number | null = null;
+    let cumulative = 0;
+
+    for (let i = 0; i < strikes.length; i++) {
+        const previous = cumulative;
+        cumulative += strikes[i].netGex;
 
-    console.log("Fetching chain for", symbol);
+        if (i === 0 || previous === 0 || Math.sign(previous) === Math.sign(cumulative)) continue;
 
-    const hasSlash = symbol.startsWith('/');
-    const normalizedSymbol = symbol.replace('/', '');
+        const lower = strikes[i - 1].strike;
+        const upper = strikes[i].strike;
+        const level = lower + (upper - lower) * (-previous / (cumulative - previous));
+        if (flip === null || Math.abs(level - spot) < Math.abs(flip - spot)) {
+            flip = level;
+        }
+    }
 
-    const isFuturesContract = /^[A-Z0-9]{2,}[FGHJKMNQUVXZ]\d{1,2}$/.test(normalizedSymbol);
-    const isFuturesRoot = hasSlash && /^[A-Z0-9]{2,}$/.test(normalizedSymbol);
-    const isFutures = isFuturesContract || isFuturesRoot;
+    return flip;
+};
 
-    let items: any[] = [];
+/**
+ * Contract multiplier for an expiration: the equity chain's shares-per-contract
+ * (adjusted options differ from 100), else the configured futures/equity size
+ */
+const getChainMultiplier = (symbol: string, chain: ChainResult): number =>
+    chain.multiplier ?? getContractMultiplier(symbol);
 
-    if (isFutures) {
-        console.log(`Detected futures: ${normalizedSymbol}`);
+/**
+ * Net dealer gamma exposure per strike: gamma x OI x contract multiplier x spot^2.
+ * Returns null without an underlying price.
+ */
+const computeGex = (
+    symbol: string,
+    chain: ChainResult,
+    greeks: Record<string, OptionGreeks>,
+    snapshot: MarketDataSnapshot,
+    underlying: UnderlyingContract | null
+): GexResult | null => {
+    const spot = underlying ? snapshot.underlyingPrices[underlying.streamerSymbol] : undefined;
+    if (!underlying || spot === undefined) return null;
+
+    const multiplier = getChainMultiplier(symbol, chain);
+    const scale = multiplier * spot * spot;
+
+    const exposure = (optionSymbol: string | undefined) => {
+        if (!optionSymbol) return { oi: 0, gex: 0 };
+        const oi = snapshot.options[optionSymbol]?.oi ?? 0;
+        const gamma = greeks[optionSymbol]?.gamma ?? 0;
+        return { oi, gex: gamma * oi * scale };
+    };
 
-        const rootSymbol = isFuturesContract
-            ? normalizedSymbol.replace(/[FGHJKMNQUVXZ]\d{1,2}$/, '')
-            : normalizedSymbol;
+    const strikes: GexStrike[] = [];
+    for (const strike of [...chain.strikes].sort((a, b) => a.strikePrice - b.strikePrice)) {
+        const call = exposure(strike.callSymbol);
+        const put = exposure(strike.putSymbol);
+        if (call.oi === 0 && put.oi === 0) continue;
+
+        strikes.push({
+            strike: strike.strikePrice,
+            callOi: call.oi,
+            putOi: put.oi,
+            callGex: call.gex,
+            putGex: -put.gex,
+            netGex: call.gex - put.gex
+        });
+    }
 
-        // @ts-ignore
-        const response = await client.httpClient.getData(`/futures-option-chains/${rootSymbol}/nested`);
-        const data = response?.data?.data || response?.data || response;
-        const optionChains = data['option-chains'] || [];
+    return {
+        symbol: symbol.toUpperCase(),
+        expirationDate: chain.expirationDate,
+        dte: chain.dte,
+        underlyingSymbol: underlying.symbol,
+        underlyingPrice: spot,
+        multiplier,
+        totalGex: strikes.reduce((sum, s) => sum + s.netGex, 0),
+        gammaFlip: findGammaFlip(strikes, spot),
+        strikes
+    };
+};
 
-        if (!Array.isArray(optionChains) || optionChains.length === 0) {
-            throw new Error("No option chains found in response.");
+/**
+ * Strike minimizing the intrinsic value paid to all call and put holders at expiration
+ */
+const findMaxPain = (strikes: OiStrike[]): number | null => {
+    let maxPain: number | null = null;
+    let minPayout = Infinity;
+
+    for (const settlement of strikes) {
+        let payout = 0;
+        for (const s of strikes) {
+            payout += s.callOi * Math.max(0, settlement.strike - s.strike);
+            payout += s.putOi * Math.max(0, s.strike - settlement.strike);
         }
+        if (payout < minPayout) {
+            minPayout = payout;
+            maxPain = settlement.strike;
+        }
+    }
 
-        const optionChain = optionChains[0];
-        items = optionChain.expirations || optionChain['expirations'] || [];
+    return maxPain;
+};
 
-        if (items.length === 0) {
-            throw new Error("No expirations found in option chain.");
+const findWall = (strikes: OiStrike[], side: 'callOi' | 'putOi'): OiWall | null => {
+    let wall: OiWall | null = null;
+    for (const s of strikes) {
+        if (s[side] > 0 && (!wall || s[side] > wall.oi)) {
+            wall = { strike: s.strike, oi: s[side] };
         }
-    } else {
-        // @ts-ignore
-        const chain = await client.instrumentsService.getNestedOptionChain(normalizedSymbol);
+    }
+    return wall;
+};
 
-        if (Array.isArray(chain) && chain.length > 0 && chain[0].expirations) {
-            items = chain[0].expirations;
-        } else if (chain.data?.items) {
-            items = chain.data.items;
-        } else if (chain.items) {
-            items = chain.items;
-        } else if (chain.expirations) {
-            items = chain.expirations;
-        }
+/**
+ * Per-strike OI, put/call ratios, max pain and the largest call/put OI walls
+ */
+const computeOiDistribution = (
+    symbol: string,
+    chain: ChainResult,
+    snapshot: MarketDataSnapshot,
+    underlying: UnderlyingContract | null
+): OiDistributionResult => {
+    const oiOf = (optionSymbol: string | undefined): number =>
+        (optionSymbol ? snapshot.options[optionSymbol]?.oi : undefined) ?? 0;
+    const strikes: OiStrike[] = [];
+
+    for (const strike of [...chain.strikes].sort((a, b) => a.strikePrice - b.strikePrice)) {
+        const callOi = oiOf(strike.callSymbol);
+        const putOi = oiOf(strike.putSymbol);
+        if (callOi === 0 && putOi === 0) continue;
+
+        strikes.push({
+            strike: strike.strikePrice,
+            callOi,
+            putOi,
+            putCallRatio: callOi > 0 ? putOi / callOi : null
+        });
     }
 
-    if (!Array.isArray(items) || items.length === 0) {
-        throw new Error("Unexpected chain structure: could not find expirations list.");
+    const totalCallOi = strikes.reduce((sum, s) => sum + s.callOi, 0);
+    const totalPutOi = strikes.reduce((sum, s) => sum + s.putOi, 0);
+    const underlyingPrice = underlying ? snapshot.underlyingPrices[underlying.streamerSymbol] : undefined;
+
+    return {
+        symbol: symbol.toUpperCase(),
+        expirationDate: chain.expirationDate,
+        dte: chain.dte,
+        underlyingSymbol: underlying?.symbol ?? null,
+        underlyingPrice: underlyingPrice ?? null,
+        totalCallOi,
+        totalPutOi,
+        putCallRatio: totalCallOi > 0 ? totalPutOi / totalCallOi : null,
+        maxPain: findMaxPain(strikes),
+        callWall: findWall(strikes, 'callOi'),
+        putWall: findWall(strikes, 'putOi'),
+        strikes
+    };
+};
+
+interface MarketDataCoverage {
+    oi: Coverage;
+    quotes: Coverage;
+    underlying: Coverage;
+}
+
+/**
+ * Phase 2: subscribe to options + underlyings and collect OI, quotes and prices.
+ * Finishes once OI, quote and underlying coverage reach the target, or a short grace
+ * period after the OI target is met (or when the window elapses).
+ */
+const collectMarketData = async (
+    session: StreamerSession,
+    optionSymbols: string[],
+    underlyingSymbols: string[],
+    durationMs: number,
+    onCoverage?: (coverage: MarketDataCoverage) => void
+): Promise<MarketDataSnapshot> => {
+    const subscription = [...new Set([...optionSymbols, ...underlyingSymbols])];
+    const snapshot: MarketDataSnapshot = { options: {}, underlyingPrices: {} };
+    const underlyingSet = new Set(underlyingSymbols);
+    const startedAt = Date.now();
+    let oiCount = 0;
+    let quoteCount = 0;
+    let oiTargetMetAt: number | null = null;
+    let reported = '';
+
+    for (const sym of optionSymbols) {
+        snapshot.options[sym] = {};
     }
 
-    // Filter for valid expiration types
-    const validExpTypes = ['End-Of-Month', 'Regular'];
-    const filteredExpItems = items.filter((exp: any) => {
-        const expType = exp['expiration-type'] || exp.expirationType;
-        return validExpTypes.includes(expType);
+    const optionCount = Object.keys(snapshot.options).length;
+    const coverage = (): MarketDataCoverage => ({
+        oi: toCoverage(oiCount, optionCount),
+        quotes: toCoverage(quoteCount, optionCount),
+        underlying: toCoverage(Object.keys(snapshot.underlyingPrices).length, underlyingSet.size)
     });
 
-    if (filteredExpItems.length === 0) {
-        throw new Error("No End-Of-Month or Regular expirations found.");
-    }
+    const isComplete = (): boolean => {
+        const current = coverage();
+        if (!meetsCoverageTarget(current.oi)) return false;
+        if (meetsCoverageTarget(current.quotes) && meetsCoverageTarget(current.underlying)) return true;
+        oiTargetMetAt ??= Date.now();
+        return Date.now() - oiTargetMetAt >= COVERAGE_GRACE_MS;
+    };
 
-    const today = new Date();
-    let bestExp: any = null;
-    let minDiff = Infinity;
-    const targetDte = 30;
+    const report = () => {
+        const current = coverage();
+        const key = `${current.oi.received}/${current.quotes.received}/${current.underlying.received}`;
+        if (key === reported) return;
+        reported = key;
+        onCoverage?.(current);
+    };
 
-    for (const exp of filteredExpItems) {
-        const expDateStr = exp['expiration-date'] || exp.expirationDate;
-        if (!expDateStr) continue;
+    console.log(`[Phase 2] Subscribing to ${subscription.length} symbols (including ATM + underlying)...`);
 
-        const expDate = parseISO(expDateStr);
-        const dte = differenceInDays(expDate, today);
+    await collectEvents(session, subscription, durationMs, (event) => {
+        const sym = getEventSymbol(event);
+        const type = readString(event, 'eventType');
 
-        if (dte < 0) continue;
+        if (!sym) return;
 
-        const diff = Math.abs(dte - targetDte);
-        if (diff < minDiff) {
-            minDiff = diff;
-            bestExp = { ...exp, dte, expDateStr };
+        // Capture underlying price from Trade or Quote events
+        if (underlyingSet.has(sym) && (type === 'Trade' || type === 'Quote')) {
+            const price = readNumber(event, 'price') || readNumber(event, 'lastPrice') || readNumber(event, 'bidPrice');
+            if (price !== undefined && price > 0) {
+                snapshot.underlyingPrices[sym] = price;
+            }
         }
-    }
 
-    if (!bestExp) {
-        throw new Error("No suitable expiration found.");
+        const data = snapshot.options[sym];
+        if (!data) return;
+
+        // Capture option bid/ask (pricing skew + ATM straddle)
+        if (type === 'Quote') {
+            const bid = readNumber(event, 'bidPrice');
+            const ask = readNumber(event, 'askPrice');
+            if (typeof bid === 'number' && typeof ask === 'number') {
+                if (data.bid === undefined) quoteCount++;
+                data.bid = bid;
+                data.ask = ask;
+            }
+        }
+
+        // Capture OI
+        const summary = readRecord(event, 'summary');
+        if (type === 'Summary' || summary) {
+            const oi = (summary && readNumber(summary, 'openInterest')) || readNumber(event, 'openInterest');
+            if (typeof oi === 'number') {
+                if (data.oi === undefined) oiCount++;
+                data.oi = oi;
+            }
+        }
+
+        // Capture day volume (cumulative, so keep the highest value reported)
+        if (type === 'Trade' || type === 'Summary' || summary) {
+            const volume = readNumber(event, 'dayVolume') ?? (summary && readNumber(summary, 'dayVolume'));
+            if (volume !== undefined) {
+                data.volume = Math.max(data.volume ?? 0, volume);
+            }
+        }
+    }, { isComplete, onTick: report });
+
+    report();
+    const final = coverage();
+    console.log(`[Phase 2] OI ${formatCoverage(final.oi)}, quotes ${formatCoverage(final.quotes)}, underlying ${formatCoverage(final.underlying)} in ${Date.now() - startedAt}ms`);
+
+    return snapshot;
+};
+
+/**
+ * Aggregate OI skew, pricing skew and implied move for one expiration
+ */
+const computeSkewResult = (
+    chain: ChainResult,
+    selection: BandSelection,
+    greeks: Record<string, OptionGreeks>,
+    snapshot: MarketDataSnapshot,
+    underlying: UnderlyingContract | null,
+    gex: GexResult | null,
+    params: SkewParams
+): SkewResult => {
+    const deltaMap = toDeltaMap(greeks);
+    const underlyingPrice = underlying ? snapshot.underlyingPrices[underlying.streamerSymbol] : undefined;
+    let callOiSum = 0;
+    let putOiSum = 0;
+    let callVolumeSum = 0;
+    let putVolumeSum = 0;
+    let callCount = 0;
+    let putCount = 0;
+    let avgCallDelta = 0;
+    let avgPutDelta = 0;
+
+    // OI x mid price, for the premium-weighted variant
+    let callPremiumSum = 0;
+    let putPremiumSum = 0;
+
+    // OI x strike, for the notional-weighted variant
+    const strikeBySymbol = new Map<string, number>();
+    for (const strike of chain.strikes) {
+        if (strike.callSymbol) strikeBySymbol.set(strike.callSymbol, strike.strikePrice);
+        if (strike.putSymbol) strikeBySymbol.set(strike.putSymbol, strike.strikePrice);
     }
+    let callStrikeOiSum = 0;
+    let putStrikeOiSum = 0;
+
+    // For pricing skew calculation
+    let callMidSum = 0;
+    let putMidSum = 0;
+    let callMidCount = 0;
+    let putMidCount = 0;
+
+    for (const sym of selection.filteredSymbols) {
+        const delta = deltaMap[sym];
+        const data = snapshot.options[sym] || {};
+
+        if (delta !== undefined && data.oi !== undefined && data.oi > 0) {
+            const strike = strikeBySymbol.get(sym);
+            const strikeOi = strike !== undefined && Number.isFinite(strike) ? strike * data.oi : 0;
+            if (isCallInBand(delta, params)) {
+                callOiSum += data.oi;
+                callStrikeOiSum += strikeOi;
+                avgCallDelta += delta * data.oi;
+                callCount++;
+            }
+            if (isPutInBand(delta, params)) {
+                putOiSum += data.oi;
+                putStrikeOiSum += strikeOi;
+                avgPutDelta += delta * data.oi;
+                putCount++;
+            }
+        }
 
-    console.log("Selected Expiration:", bestExp.expDateStr, "DTE:", bestExp.dte);
+        if (delta !== undefined && data.volume !== undefined) {
+            if (isCallInBand(delta, params)) callVolumeSum += data.volume;
+            if (isPutInBand(delta, params)) putVolumeSum += data.volume;
+        }
+
+        // Calculate mid prices for pricing skew
+        if (data.bid !== undefined && data.ask !== undefined && data.bid > 0 && data.ask > 0) {
+            const mid = (data.bid + data.ask) / 2;
+            if (isCallInBand(delta, params)) {
+                callMidSum += mid;
+                callMidCount++;
+                callPremiumSum += mid * (data.oi ?? 0);
+            }
+            if (isPutInBand(delta, params)) {
+                putMidSum += mid;
+                putMidCount++;
+                putPremiumSum += mid * (data.oi ?? 0);
+            }
+        }
+    }
 
-    const strikes = bestExp.strikes || [];
-    const symbols: string[] = [];
+    // Before averaging these hold the delta-weighted OI sums
+    const deltaWeightedSkew = avgCallDelta > 0 ? Math.abs(avgPutDelta) / avgCallDelta : null;
+    const premiumWeightedSkew = callPremiumSum > 0 ? putPremiumSum / callPremiumSum : null;
+
+    // Notional is weighted by strike: the multiplier and spot are the same for every
+    // option of the expiration and cancel out of the ratio
+    const notionalWeightedSkew = callStrikeOiSum > 0 ? putStrikeOiSum / callStrikeOiSum : null;
+
+    if (callOiSum > 0) avgCallDelta /= callOiSum;
+    if (putOiSum > 0) avgPutDelta /= putOiSum;
+
+    // Calculate pricing skew
+    const avgCallMid = callMidCount > 0 ? callMidSum / callMidCount : 0;
+    const avgPutMid = putMidCount > 0 ? putMidSum / putMidCount : 0;
+    const pricingSkew = avgCallMid > 0 ? avgPutMid / avgCallMid : null;
+
+    // Calculate implied move from ATM straddle
+    let impliedMove: number | null = null;
+    const atmCallData = selection.atmCall ? snapshot.options[selection.atmCall.symbol] : undefined;
+    const atmPutData = selection.atmPut ? snapshot.options[selection.atmPut.symbol] : undefined;
+    if (atmCallData?.bid !== undefined && atmCallData.ask !== undefined &&
+        atmPutData?.bid !== undefined && atmPutData.ask !== undefined &&
+        underlyingPrice !== undefined && underlyingPrice > 0) {
+        const atmCallMid = (atmCallData.bid + atmCallData.ask) / 2;
+        const atmPutMid = (atmPutData.bid + atmPutData.ask) / 2;
+        const straddlePrice = atmCallMid + atmPutMid;
+        impliedMove = (straddlePrice / underlyingPrice) * 100;
+    }
 
-    for (const strike of strikes) {
-        if (strike['call-streamer-symbol']) symbols.push(strike['call-streamer-symbol']);
-        if (strike['put-streamer-symbol']) symbols.push(strike['put-streamer-symbol']);
+    if (callOiSum === 0 || putOiSum === 0) {
+        throw new Error(`Timeout: Got OI for ${callCount} calls and ${putCount} puts`);
     }
 
-    console.log(`Collected ${symbols.length} streamer symbols`);
+    const volMetrics = computeVolMetrics(chain, greeks);
 
     return {
-        symbols,
-        expirationDate: bestExp.expDateStr,
-        dte: bestExp.dte
+        skew: putOiSum / callOiSum,
+        pricingSkew,
+        impliedMove,
+        underlyingPrice: underlyingPrice ?? null,
+        underlyingSymbol: underlying?.symbol ?? null,
+        underlyingStreamerSymbol: underlying?.streamerSymbol ?? null,
+        expirationDate: chain.expirationDate,
+        dte: chain.dte,
+        expirationType: chain.expirationType,
+        callOi: callOiSum,
+        putOi: putOiSum,
+        volumeSkew: callVolumeSum > 0 ? putVolumeSum / callVolumeSum : null,
+        callVolume: callVolumeSum,
+        putVolume: putVolumeSum,
+        deltaWeightedSkew,
+        premiumWeightedSkew,
+        notionalWeightedSkew,
+        callDelta: avgCallDelta,
+        putDelta: avgPutDelta,
+        callStreamerSymbol: `${callCount} options`,
+        putStreamerSymbol: `${putCount} options`,
+        ...volMetrics,
+        totalGex: gex?.totalGex ?? null,
+        gammaFlip: gex?.gammaFlip ?? null,
+        bandOptions: describeBandOptions(chain, selection, greeks),
+        calculatedAt: new Date().toISOString(),
+        minDelta: params.minDelta,
+        maxDelta: params.maxDelta,
+        centerDelta: params.centerDelta,
+        targetDte: params.targetDte
     };
 };
 
-export interface StreamProgress {
-    type: 'chain' | 'phase1' | 'phase2' | 'result' | 'error';
-    message?: string;
-    data?: any;
+/**
+ * A stored expiration (see ChainOptionSnapshot) to recompute metrics from
+ */
+export interface StoredChain {
+    symbol: string;
+    expirationDate: string;
+    dte: number;
+    underlyingPrice: number | null;
+    options: ChainOptionSnapshot[];
 }
 
+// Key of the stored underlying price in the rebuilt market data snapshot
+const STORED_UNDERLYING = 'stored-underlying';
+
+/**
+ * Re-run band selection and the skew formulas over a stored chain with new parameters.
+ * GEX is not recomputed (gamma isn't stored), so totalGex and gammaFlip are null.
+ */
+export const recomputeSkewFromChain = (stored: StoredChain, params: SkewParams): SkewResult => {
+    const strikes = new Map<number, ChainStrike>();
+    const greeks: Record<string, OptionGreeks> = {};
+    const snapshot: MarketDataSnapshot = { options: {}, underlyingPrices: {} };
+
+    for (const option of stored.options) {
+        const strike = strikes.get(option.strike) ?? { strikePrice: option.strike };
+        if (option.type === 'call') strike.callSymbol = option.symbol;
+        else strike.putSymbol = option.symbol;
+        strikes.set(option.strike, strike);
+
+        if (option.delta !== null) {
+            greeks[option.symbol] = {
+                delta: option.delta,
+                iv: option.iv,
+                gamma: null,
+                vega: null,
+                theta: null,
+                source: option.greeksSource ?? 'feed'
+            };
+        }
+        snapshot.options[option.symbol] = {
+            oi: option.openInterest ?? undefined,
+            volume: option.volume ?? undefined,
+            bid: option.bid ?? undefined,
+            ask: option.ask ?? undefined
+        };
+    }
+
+    const chain: ChainResult = {
+        symbols: stored.options.map(o => o.symbol),
+        expirationDate: stored.expirationDate,
+        dte: stored.dte,
+        expirationType: '',
+        strikes: [...strikes.values()].sort((a, b) => a.strikePrice - b.strikePrice),
+        underlyingSymbol: null,
+        multiplier: null
+    };
+
+    let underlying: UnderlyingContract | null = null;
+    if (stored.underlyingPrice !== null) {
+        underlying = { symbol: stored.symbol, streamerSymbol: STORED_UNDERLYING };
+        snapshot.underlyingPrices[STORED_UNDERLYING] = stored.underlyingPrice;
+    }
+
+    const selection = selectBandOptions(toDeltaMap(greeks), chain.symbols, params);
+    if (selection.filteredSymbols.length === 0) {
+        throw new Error(`No options found in the ${formatDeltaBand(params)} delta range`);
+    }
+
+    return computeSkewResult(chain, selection, greeks, snapshot, underlying, null, params);
+};
+
+/**
+ * Progress reporters forwarding phase coverage to the SSE stream
+ */
+const reportPhase1 = <T>(onProgress: (progress: StreamProgress<T>) => void, message: string) =>
+    (coverage: Coverage) => onProgress({
+        type: 'phase1',
+        message: `${message} ${formatCoverage(coverage)}`,
+        data: { coverage }
+    });
+
+const reportPhase2 = <T>(onProgress: (progress: StreamProgress<T>) => void, message: string) =>
+    ({ oi, quotes, underlying }: MarketDataCoverage) => onProgress({
+        type: 'phase2',
+        message: `${message} OI ${formatCoverage(oi)}, quotes ${quotes.percent}%`,
+        data: { coverage: oi, quotes, underlying }
+    });
+
 /**
  * Stream skew calculation with progress callbacks for SSE
  */
 export const streamSkewCalculation = async (
     symbol: string,
-    onProgress: (progress: StreamProgress) => void
+    onProgress: (progress: StreamProgress) => void,
+    params: SkewParams = DEFAULT_SKEW_PARAMS,
+    signal?: AbortSignal
 ): Promise<void> => {
-    try {
-        // Cleanup any prior subscriptions
-        await cleanupStreamer();
+    let session: StreamerSession | null = null;
 
+    try {
         // Authenticate
         await authenticate();
 
         // Fetch option chain
-        const chainResult = await fetchOptionChain(symbol);
+        const chainResult = await fetchOptionChain(symbol, params.targetDte, params);
         onProgress({
             type: 'chain',
             message: `Fetched ${chainResult.symbols.length} symbols`,
@@ -312,301 +1571,327 @@ export const streamSkewCalculation = async (
             throw new Error("No symbols found in option chain");
         }
 
-        // Connect to streamer
-        console.log("Connecting to streamer...");
-        await client!.quoteStreamer.connect();
+        // Open a session on the shared streamer connection
+        session = await openSession(`skew:${symbol}`, signal);
 
         // ====== PHASE 1: Stream all symbols to get deltas ======
-        console.log(`[Phase 1] Subscribing to ${chainResult.symbols.length} symbols...`);
-        client!.quoteStreamer.subscribe(chainResult.symbols);
-        currentSubscribedSymbols = [...chainResult.symbols];
-
         onProgress({ type: 'phase1', message: 'Collecting delta values...' });
+        const greeksMap = await collectGreeks(
+            session,
+            chainResult.symbols,
+            PHASE1_TIMEOUT_MS,
+            reportPhase1(onProgress, 'Collecting delta values...')
+        );
+        assertSessionOpen(session);
+
+        // ====== PHASE 2: Stream the band for OI + ATM for implied move ======
+        // The band is chosen afterwards, once quotes can stand in for Greeks the feed didn't publish
+        const phase2Symbols = PHASE2_FULL_CHAIN
+            ? chainResult.symbols
+            : getPhase2Symbols(chainResult.symbols, greeksMap, params);
+        const underlying = await resolveUnderlying(symbol, chainResult);
+
+        const phase2Message = `Collecting OI for ${phase2Symbols.length} symbols...`;
+        onProgress({ type: 'phase2', message: phase2Message });
+
+        const snapshot = await collectMarketData(
+            session,
+            phase2Symbols,
+            underlying ? [underlying.streamerSymbol] : [],
+            PHASE2_TIMEOUT_MS,
+            reportPhase2(onProgress, phase2Message)
+        );
+        assertSessionOpen(session);
+
+        // Price options the Greeks feed missed
+        const greeks = fillMissingGreeks(symbol, chainResult, greeksMap, snapshot, underlying);
+
+        // ====== FILTER: Keep balanced calls and puts in the delta band ======
+        const selection = selectBandOptions(toDeltaMap(greeks), phase2Symbols, params);
+
+        if (selection.filteredSymbols.length === 0) {
+            throw new Error(`No options found in the ${formatDeltaBand(params)} delta range`);
+        }
+
+        const result = computeSkewResult(
+            chainResult,
+            selection,
+            greeks,
+            snapshot,
+            underlying,
+            PHASE2_FULL_CHAIN ? computeGex(symbol, chainResult, greeks, snapshot, underlying) : null,
+            params
+        );
+        chainSnapshots.set(result, buildChainSnapshot(chainResult, greeks, snapshot));
+
+        onProgress({ type: 'result', data: result });
+
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        onProgress({ type: 'error', message });
+    } finally {
+        // Release this calculation's subscriptions (the connection stays open)
+        session?.close();
+    }
+};
 
-        const deltaMap = await new Promise<Record<string, number>>((resolve) => {
-            const deltas: Record<string, number> = {};
+/**
+ * Run one skew calculation to completion (onProgress observes the progress events)
+ */
+export const calculateSkew = (
+    symbol: string,
+    params: SkewParams,
+    signal?: AbortSignal,
+    onProgress?: (progress: StreamProgress) => void
+): Promise<SkewResult> => {
+    return new Promise<SkewResult>((resolve, reject) => {
+        streamSkewCalculation(symbol, (progress) => {
+            onProgress?.(progress);
+            if (progress.type === 'result') {
+                resolve(progress.data);
+            } else if (progress.type === 'error') {
+                reject(new Error(progress.message || 'Unknown error'));
+            }
+        }, params, signal);
+    });
+};
 
-            const onDeltaMessage = (json: any) => {
-                const events = Array.isArray(json) ? json : [json];
-                for (const event of events) {
-                    const sym = event.eventSymbol || event.symbol;
-                    const type = event.eventType;
+export interface TermStructureResult {
+    symbol: string;
+    maxDte: number;
+    points: SkewResult[];
+    errors: Record<string, string>;
+}
 
-                    if (!sym || !chainResult.symbols.includes(sym)) continue;
+/**
+ * Stream skew term structure: OI skew, pricing skew and implied move
+ * for every Regular/End-Of-Month expiration out to maxDte
+ */
+export const streamTermStructureCalculation = async (
+    symbol: string,
+    onProgress: (progress: StreamProgress<TermStructureResult>) => void,
+    params: SkewParams = DEFAULT_SKEW_PARAMS,
+    maxDte: number = DEFAULT_TERM_STRUCTURE_MAX_DTE,
+    signal?: AbortSignal
+): Promise<void> => {
+    let session: StreamerSession | null = null;
 
-                    if (type === 'Greeks' || event.greeks) {
-                        const delta = event.greeks?.delta || event.delta;
-                        if (typeof delta === 'number') {
-                            deltas[sym] = delta;
-                        }
-                    }
-                }
-            };
+    try {
+        // Authenticate
+        await authenticate();
 
-            currentEventHandler = onDeltaMessage;
-            // @ts-ignore
-            client!.quoteStreamer.addEventListener(onDeltaMessage);
-
-            currentTimeout = setTimeout(() => {
-                console.log(`[Phase 1] Collected deltas for ${Object.keys(deltas).length} symbols`);
-                if (currentEventHandler && client) {
-                    try {
-                        // @ts-ignore
-                        client.quoteStreamer.removeEventListener(currentEventHandler);
-                    } catch (e) { /* ignore */ }
-                }
-                currentEventHandler = null;
-                resolve(deltas);
-            }, 5000);
+        // Fetch all expirations in the horizon
+        const chains = (await fetchTermStructureChains(symbol, maxDte, params.expirationType)).filter(c => c.symbols.length > 0);
+        const allSymbols = chains.flatMap(c => c.symbols);
+        onProgress({
+            type: 'chain',
+            message: `Fetched ${allSymbols.length} symbols across ${chains.length} expirations`,
+            data: {
+                symbolCount: allSymbols.length,
+                expirations: chains.map(c => ({ expirationDate: c.expirationDate, dte: c.dte }))
+            }
         });
 
-        // ====== FILTER: Keep balanced calls and puts in 10-30 delta range ======
-        const callCandidates: { symbol: string, delta: number }[] = [];
-        const putCandidates: { symbol: string, delta: number }[] = [];
+        if (allSymbols.length === 0) {
+            throw new Error("No symbols found in option chain");
+        }
 
-        // Also find ATM options (closest to 50 delta) for implied move calculation
-        let atmCall: { symbol: string, delta: number } | null = null;
-        let atmPut: { symbol: string, delta: number } | null = null;
+        // Open a session on the shared streamer connection
+        session = await openSession(`term:${symbol}`, signal);
+
+        // ====== PHASE 1: Stream every expiration to get deltas ======
+        const phase1Message = `Collecting delta values for ${chains.length} expirations...`;
+        onProgress({ type: 'phase1', message: phase1Message });
+        const greeksMap = await collectGreeks(session, allSymbols, PHASE1_TIMEOUT_MS, reportPhase1(onProgress, phase1Message));
+        assertSessionOpen(session);
+        const deltaMap = toDeltaMap(greeksMap);
+
+        // ====== FILTER: Per expiration, keep balanced calls and puts in the delta band ======
+        const selections = chains.map(chain => selectBandOptions(deltaMap, chain.symbols, params));
+        const underlyings = await Promise.all(chains.map(chain => resolveUnderlying(symbol, chain)));
+        const underlyingStreamerSymbols = underlyings.flatMap(u => u ? [u.streamerSymbol] : []);
+
+        const phase2Symbols = new Set<string>();
+        for (const selection of selections) {
+            selection.filteredSymbols.forEach(sym => phase2Symbols.add(sym));
+            if (selection.atmCall) phase2Symbols.add(selection.atmCall.symbol);
+            if (selection.atmPut) phase2Symbols.add(selection.atmPut.symbol);
+        }
 
-        for (const [sym, delta] of Object.entries(deltaMap)) {
-            if (delta >= 0.10 && delta <= 0.30) {
-                callCandidates.push({ symbol: sym, delta });
-            }
-            if (delta <= -0.10 && delta >= -0.30) {
-                putCandidates.push({ symbol: sym, delta });
-            }
+        if (phase2Symbols.size === 0) {
+            throw new Error(`No options found in the ${formatDeltaBand(params)} delta range`);
+        }
 
-            // Find closest to 50 delta (ATM)
-            if (delta > 0 && (!atmCall || Math.abs(delta - 0.50) < Math.abs(atmCall.delta - 0.50))) {
-                atmCall = { symbol: sym, delta };
-            }
-            if (delta < 0 && (!atmPut || Math.abs(delta - (-0.50)) < Math.abs(atmPut.delta - (-0.50)))) {
-                atmPut = { symbol: sym, delta };
+        // ====== PHASE 2: Stream filtered symbols for OI + ATM for implied move ======
+        const phase2Message = `Collecting OI for ${phase2Symbols.size} symbols...`;
+        onProgress({ type: 'phase2', message: phase2Message });
+        const snapshot = await collectMarketData(
+            session,
+            [...phase2Symbols],
+            [...new Set(underlyingStreamerSymbols)],
+            PHASE2_TIMEOUT_MS,
+            reportPhase2(onProgress, phase2Message)
+        );
+        assertSessionOpen(session);
+
+        const points: SkewResult[] = [];
+        const errors: Record<string, string> = {};
+
+        chains.forEach((chain, i) => {
+            try {
+                if (selections[i].filteredSymbols.length === 0) {
+                    throw new Error(`No options found in the ${formatDeltaBand(params)} delta range`);
+                }
+                points.push(computeSkewResult(
+                    chain,
+                    selections[i],
+                    greeksMap,
+                    snapshot,
+                    underlyings[i],
+                    null,
+                    { ...params, targetDte: chain.dte }
+                ));
+            } catch (error) {
+                errors[chain.expirationDate] = error instanceof Error ? error.message : 'Unknown error';
             }
+        });
+
+        if (points.length === 0) {
+            throw new Error(`No expiration had enough OI data (${Object.keys(errors).length} failed)`);
         }
 
-        callCandidates.sort((a, b) => Math.abs(a.delta - 0.20) - Math.abs(b.delta - 0.20));
-        putCandidates.sort((a, b) => Math.abs(a.delta - (-0.20)) - Math.abs(b.delta - (-0.20)));
+        const result: TermStructureResult = { symbol: symbol.toUpperCase(), maxDte, points, errors };
+        onProgress({ type: 'result', data: result });
 
-        const balancedCount = Math.min(callCandidates.length, putCandidates.length);
-        const selectedCalls = callCandidates.slice(0, balancedCount);
-        const selectedPuts = putCandidates.slice(0, balancedCount);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        onProgress({ type: 'error', message });
+    } finally {
+        // Release this calculation's subscriptions (the connection stays open)
+        session?.close();
+    }
+};
 
-        const filteredSymbols = [
-            ...selectedCalls.map(c => c.symbol),
-            ...selectedPuts.map(p => p.symbol)
-        ];
+/**
+ * Calculate the implied volatility smile for the expiration closest to targetDte
+ * (or the one picked by expirationType / expirationDate)
+ */
+export const calculateSmile = async (
+    symbol: string,
+    params: Pick<SkewParams, 'targetDte' | 'expirationType' | 'expirationDate'> = DEFAULT_SKEW_PARAMS,
+    signal?: AbortSignal
+): Promise<SmileResult> => {
+    let session: StreamerSession | null = null;
 
-        if (filteredSymbols.length === 0) {
-            throw new Error("No options found in the 10-30 delta range");
+    try {
+        await authenticate();
+
+        const chainResult = await fetchOptionChain(symbol, params.targetDte, params);
+        if (chainResult.symbols.length === 0) {
+            throw new Error("No symbols found in option chain");
         }
 
-        // Unsubscribe from all symbols before Phase 2
-        try {
-            // @ts-ignore
-            if (client!.quoteStreamer.unsubscribe) {
-                client!.quoteStreamer.unsubscribe(currentSubscribedSymbols);
-            }
-        } catch (e) {
-            console.warn("Failed to unsubscribe between phases:", e);
+        session = await openSession(`smile:${symbol}`, signal);
+
+        const greeksMap = await collectGreeks(session, chainResult.symbols, PHASE1_TIMEOUT_MS);
+        assertSessionOpen(session);
+        const smile = buildSmile(symbol, chainResult, greeksMap);
+
+        if (smile.byStrike.length === 0) {
+            throw new Error("No Greeks received for the selected expiration");
         }
 
-        // ====== PHASE 2: Stream filtered symbols for OI + ATM for implied move ======
-        // Build subscription list: filtered symbols + ATM options + underlying
-        const phase2Symbols = [...filteredSymbols];
-        if (atmCall && !phase2Symbols.includes(atmCall.symbol)) {
-            phase2Symbols.push(atmCall.symbol);
-        }
-        if (atmPut && !phase2Symbols.includes(atmPut.symbol)) {
-            phase2Symbols.push(atmPut.symbol);
-        }
-
-        // Construct the underlying futures contract symbol from expiration date
-        // We have: input symbol (/ES), expiration date (2025-12-31)
-        // Construct: ESZ5 (root + month code + year digit)
-        let underlyingStreamerSymbol = symbol;
-        const isFutures = symbol.startsWith('/');
-
-        if (isFutures) {
-            const monthCodes = ['F', 'G', 'H', 'J', 'K', 'M', 'N', 'Q', 'U', 'V', 'X', 'Z'];
-            const expDate = parseISO(chainResult.expirationDate);
-            const monthCode = monthCodes[expDate.getMonth()];
-            const yearDigit = expDate.getFullYear() % 10;
-            const rootSymbol = symbol.replace('/', '');
-            const futuresContract = `${rootSymbol}${monthCode}${yearDigit}`; // e.g., ESZ5
-
-            // Get the streamer symbol for this contract
-            underlyingStreamerSymbol = await getStreamerSymbol('/' + futuresContract);
-        } else {
-            // For equities, the symbol itself is the underlying
-            underlyingStreamerSymbol = await getStreamerSymbol(symbol);
+        return smile;
+    } finally {
+        session?.close();
+    }
+};
+
+/**
+ * Calculate dealer gamma exposure by strike for the expiration closest to targetDte
+ * (or the one picked by expirationType / expirationDate)
+ */
+export const calculateGex = async (
+    symbol: string,
+    params: Pick<SkewParams, 'targetDte' | 'expirationType' | 'expirationDate'> = DEFAULT_SKEW_PARAMS,
+    signal?: AbortSignal
+): Promise<GexResult> => {
+    let session: StreamerSession | null = null;
+
+    try {
+        await authenticate();
+
+        const chainResult = await fetchOptionChain(symbol, params.targetDte, params);
+        if (chainResult.symbols.length === 0) {
+            throw new Error("No symbols found in option chain");
         }
-        phase2Symbols.push(underlyingStreamerSymbol);
 
-        console.log(`[Phase 2] Subscribing to ${phase2Symbols.length} symbols (including ATM + underlying)...`);
-        client!.quoteStreamer.subscribe(phase2Symbols);
-        currentSubscribedSymbols = [...phase2Symbols];
+        session = await openSession(`gex:${symbol}`, signal);
 
-        onProgress({ type: 'phase2', message: `Collecting OI for ${filteredSymbols.length} symbols...` });
+        const greeksMap = await collectGreeks(session, chainResult.symbols, PHASE1_TIMEOUT_MS);
+        assertSessionOpen(session);
 
-        const result = await new Promise<SkewResult>((resolve, reject) => {
-            const dataStore: Record<string, { delta: number, oi?: number, bid?: number, ask?: number }> = {};
+        const underlying = await resolveUnderlying(symbol, chainResult);
+        const snapshot = await collectMarketData(
+            session,
+            chainResult.symbols,
+            underlying ? [underlying.streamerSymbol] : [],
+            PHASE2_TIMEOUT_MS
+        );
+        assertSessionOpen(session);
 
-            for (const sym of filteredSymbols) {
-                dataStore[sym] = { delta: deltaMap[sym] };
-            }
+        const gex = computeGex(symbol, chainResult, greeksMap, snapshot, underlying);
+        if (!gex) {
+            throw new Error("No underlying price received");
+        }
+        if (gex.strikes.length === 0) {
+            throw new Error("No open interest received for the selected expiration");
+        }
 
-            // Track ATM options separately
-            let atmCallBid: number | undefined;
-            let atmCallAsk: number | undefined;
-            let atmPutBid: number | undefined;
-            let atmPutAsk: number | undefined;
-            let underlyingPrice: number | undefined;
-
-            currentTimeout = setTimeout(() => {
-                let callOiSum = 0;
-                let putOiSum = 0;
-                let callCount = 0;
-                let putCount = 0;
-                let avgCallDelta = 0;
-                let avgPutDelta = 0;
-
-                // For pricing skew calculation
-                let callMidSum = 0;
-                let putMidSum = 0;
-                let callMidCount = 0;
-                let putMidCount = 0;
-
-                for (const [, data] of Object.entries(dataStore)) {
-                    if (data.delta !== undefined && data.oi !== undefined && data.oi > 0) {
-                        if (data.delta >= 0.10 && data.delta <= 0.30) {
-                            callOiSum += data.oi;
-                            avgCallDelta += data.delta * data.oi;
-                            callCount++;
-                        }
-                        if (data.delta <= -0.10 && data.delta >= -0.30) {
-                            putOiSum += data.oi;
-                            avgPutDelta += data.delta * data.oi;
-                            putCount++;
-                        }
-                    }
-
-                    // Calculate mid prices for pricing skew
-                    if (data.bid !== undefined && data.ask !== undefined && data.bid > 0 && data.ask > 0) {
-                        const mid = (data.bid + data.ask) / 2;
-                        if (data.delta >= 0.10 && data.delta <= 0.30) {
-                            callMidSum += mid;
-                            callMidCount++;
-                        }
-                        if (data.delta <= -0.10 && data.delta >= -0.30) {
-                            putMidSum += mid;
-                            putMidCount++;
-                        }
-                    }
-                }
+        return gex;
+    } finally {
+        session?.close();
+    }
+};
 
-                if (callOiSum > 0) avgCallDelta /= callOiSum;
-                if (putOiSum > 0) avgPutDelta /= putOiSum;
-
-                // Calculate pricing skew
-                const avgCallMid = callMidCount > 0 ? callMidSum / callMidCount : 0;
-                const avgPutMid = putMidCount > 0 ? putMidSum / putMidCount : 0;
-                const pricingSkew = avgCallMid > 0 ? avgPutMid / avgCallMid : null;
-
-                // Calculate implied move from ATM straddle
-                let impliedMove: number | null = null;
-                if (atmCallBid !== undefined && atmCallAsk !== undefined &&
-                    atmPutBid !== undefined && atmPutAsk !== undefined &&
-                    underlyingPrice !== undefined && underlyingPrice > 0) {
-                    const atmCallMid = (atmCallBid + atmCallAsk) / 2;
-                    const atmPutMid = (atmPutBid + atmPutAsk) / 2;
-                    const straddlePrice = atmCallMid + atmPutMid;
-                    impliedMove = (straddlePrice / underlyingPrice) * 100;
-                }
+/**
+ * Calculate the open interest distribution (max pain, OI walls, put/call by strike)
+ * for the expiration closest to targetDte (or the one picked by expirationType / expirationDate)
+ */
+export const calculateOiDistribution = async (
+    symbol: string,
+    params: Pick<SkewParams, 'targetDte' | 'expirationType' | 'expirationDate'> = DEFAULT_SKEW_PARAMS,
+    signal?: AbortSignal
+): Promise<OiDistributionResult> => {
+    let session: StreamerSession | null = null;
 
-                if (callOiSum > 0 && putOiSum > 0) {
-                    const skew = putOiSum / callOiSum;
-                    resolve({
-                        skew,
-                        pricingSkew,
-                        impliedMove,
-                        underlyingPrice: underlyingPrice ?? null,
-                        expirationDate: chainResult.expirationDate,
-                        dte: chainResult.dte,
-                        callOi: callOiSum,
-                        putOi: putOiSum,
-                        callDelta: avgCallDelta,
-                        putDelta: avgPutDelta,
-                        callStreamerSymbol: `${callCount} options`,
-                        putStreamerSymbol: `${putCount} options`
-                    });
-                } else {
-                    reject(new Error(`Timeout: Got OI for ${callCount} calls and ${putCount} puts`));
-                }
-            }, 30000); // 30 second timeout for Phase 2 OI collection
-
-            const onOiMessage = (json: any) => {
-                const events = Array.isArray(json) ? json : [json];
-
-                for (const event of events) {
-                    const sym = event.eventSymbol || event.symbol;
-                    const type = event.eventType;
-
-                    if (!sym) continue;
-
-                    // Capture underlying price from Trade or Quote events
-                    if (sym === underlyingStreamerSymbol && (type === 'Trade' || type === 'Quote')) {
-                        const price = event.price || event.lastPrice || event.bidPrice;
-                        if (typeof price === 'number' && price > 0) {
-                            underlyingPrice = price;
-                        }
-                    }
-
-                    // Capture ATM option bid/ask
-                    if (type === 'Quote') {
-                        const bid = event.bidPrice;
-                        const ask = event.askPrice;
-
-                        if (atmCall && sym === atmCall.symbol && typeof bid === 'number' && typeof ask === 'number') {
-                            atmCallBid = bid;
-                            atmCallAsk = ask;
-                        }
-                        if (atmPut && sym === atmPut.symbol && typeof bid === 'number' && typeof ask === 'number') {
-                            atmPutBid = bid;
-                            atmPutAsk = ask;
-                        }
-
-                        // Also capture for filtered symbols (pricing skew)
-                        if (typeof bid === 'number' && typeof ask === 'number' && dataStore[sym]) {
-                            dataStore[sym].bid = bid;
-                            dataStore[sym].ask = ask;
-                        }
-                    }
-
-                    // Capture OI for filtered symbols
-                    if (filteredSymbols.includes(sym)) {
-                        if (type === 'Summary' || event.summary) {
-                            const oi = event.summary?.openInterest || event.openInterest;
-                            if (typeof oi === 'number' && dataStore[sym]) {
-                                dataStore[sym].oi = oi;
-                            }
-                        }
-                    }
-                }
-            };
+    try {
+        await authenticate();
 
-            currentEventHandler = onOiMessage;
-            // @ts-ignore
-            client!.quoteStreamer.addEventListener(onOiMessage);
-        });
+        const chainResult = await fetchOptionChain(symbol, params.targetDte, params);
+        if (chainResult.symbols.length === 0) {
+            throw new Error("No symbols found in option chain");
+        }
 
-        onProgress({ type: 'result', data: result });
+        session = await openSession(`oi:${symbol}`, signal);
+
+        // OI only: no Greeks needed, so skip straight to the Phase 2 collection
+        const underlying = await resolveUnderlying(symbol, chainResult);
+        const snapshot = await collectMarketData(
+            session,
+            chainResult.symbols,
+            underlying ? [underlying.streamerSymbol] : [],
+            PHASE2_TIMEOUT_MS
+        );
+        assertSessionOpen(session);
+
+        const distribution = computeOiDistribution(symbol, chainResult, snapshot, underlying);
+        if (distribution.strikes.length === 0) {
+            throw new Error("No open interest received for the selected expiration");
+        }
 
-    } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        onProgress({ type: 'error', message });
+        return distribution;
     } finally {
-        // Cleanup after streaming
-        await cleanupStreamer();
+        session?.close();
     }
 };
@@ -0,0 +1,160 @@
+import { createAlertDelivery, updateAlertDelivery, getPendingAlertDeliveries, AlertDeliveryRecord } from './db';
+
+/**
+ * Webhook delivery for alerts.
+ *
+ * Each alert is logged as an AlertDelivery row and POSTed as JSON to its webhook.
+ * Network errors, timeouts, 408/429 and 5xx responses are retried with exponential
+ * backoff (ALERT_WEBHOOK_RETRY_MS, doubling) up to ALERT_WEBHOOK_RETRIES times;
+ * other responses fail straight away. Every attempt updates the log row, and
+ * deliveries left pending by a restart are resumed on start.
+ */
+
+export interface WebhookConfig {
+    // Attempts after the first
+    retries: number;
+    // Delay before the first retry (doubles on each retry)
+    retryDelayMs: number;
+    timeoutMs: number;
+}
+
+export interface WebhookMessage {
+    ruleId: number;
+    snapshotId: number | null;
+    symbol: string;
+    message: string;
+    url: string;
+    payload: Record<string, unknown>;
+}
+
+interface AttemptOutcome {
+    delivered: boolean;
+    retryable: boolean;
+    responseStatus: number | null;
+    error: string | null;
+}
+
+// Longest response body excerpt kept in the delivery log
+const MAX_ERROR_BODY_LENGTH = 200;
+
+/**
+ * Integer env setting of at least `min`; unset or invalid values fall back to the default
+ */
+const readIntEnv = (name: string, fallback: number, min: number): number => {
+    const raw = process.env[name];
+    const value = Number(raw);
+    return raw !== undefined && raw.trim() !== '' && Number.isInteger(value) && value >= min ? value : fallback;
+};
+
+export const loadWebhookConfig = (): WebhookConfig => ({
+    retries: readIntEnv('ALERT_WEBHOOK_RETRIES', 3, 0),
+    retryDelayMs: readIntEnv('ALERT_WEBHOOK_RETRY_MS', 5000, 0),
+    timeoutMs: readIntEnv('ALERT_WEBHOOK_TIMEOUT_MS', 10000, 1)
+});
+
+const isRetryableStatus = (status: number): boolean => status === 408 || status === 429 || status >= 500;
+
+const postWebhook = async (url: string, body: string, timeoutMs: number): Promise<AttemptOutcome> => {
+    try {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body,
+            signal: AbortSignal.timeout(timeoutMs)
+        });
+        if (response.ok) {
+            return { delivered: true, retryable: false, responseStatus: response.status, error: null };
+        }
+        const text = (await response.text().catch(() => '')).trim().slice(0, MAX_ERROR_BODY_LENGTH);
+        return {
+            delivered: false,
+            retryable: isRetryableStatus(response.status),
+            responseStatus: response.status,
+            error: `HTTP ${response.status}${text ? `: ${text}` : ''}`
+        };
+    } catch (error) {
+        return {
+            delivered: false,
+            retryable: true,
+            responseStatus: null,
+            error: error instanceof Error ? error.message : 'Request failed'
+        };
+    }
+};
+
+export class WebhookDispatcher {
+    private config = loadWebhookConfig();
+    // Deliveries with an attempt in flight or a retry scheduled
+    private inFlight = new Set<number>();
+
+    /**
+     * Log a delivery and start sending it (returns once it is logged)
+     */
+    async send(message: WebhookMessage): Promise<AlertDeliveryRecord> {
+        const delivery = await createAlertDelivery({
+            ruleId: message.ruleId,
+            snapshotId: message.snapshotId,
+            symbol: message.symbol,
+            message: message.message,
+            url: message.url,
+            payload: JSON.stringify(message.payload)
+        });
+        this.deliver(delivery);
+        return delivery;
+    }
+
+    /**
+     * Resume deliveries left pending by a restart
+     */
+    async resume(): Promise<void> {
+        const pending = (await getPendingAlertDeliveries()).filter(delivery => !this.inFlight.has(delivery.id));
+        if (pending.length === 0) return;
+
+        console.log(`[Alerts] Resuming ${pending.length} pending webhook deliveries`);
+        for (const delivery of pending) {
+            this.deliver(delivery);
+        }
+    }
+
+    private async deliver(delivery: AlertDeliveryRecord): Promise<void> {
+        this.inFlight.add(delivery.id);
+        let attempts = delivery.attempts;
+
+        try {
+            for (;;) {
+                attempts++;
+                const outcome = await postWebhook(delivery.url, delivery.payload, this.config.timeoutMs);
+
+                if (outcome.delivered) {
+                    await updateAlertDelivery(delivery.id, {
+                        status: 'delivered',
+                        attempts,
+                        responseStatus: outcome.responseStatus,
+                        error: null,
+                        deliveredAt: new Date()
+                    });
+                    console.log(`[Alerts] Delivered alert ${delivery.id} for ${delivery.symbol} (attempt ${attempts})`);
+                    return;
+                }
+
+                const failed = !outcome.retryable || attempts > this.config.retries;
+                await updateAlertDelivery(delivery.id, {
+                    status: failed ? 'failed' : 'pending',
+                    attempts,
+                    responseStatus: outcome.responseStatus,
+                    error: outcome.error
+                });
+                if (failed) {
+                    console.warn(`[Alerts] Delivery ${delivery.id} for ${delivery.symbol} failed after ${attempts} attempts: ${outcome.error}`);
+                    return;
+                }
+
+                await new Promise(resolve => setTimeout(resolve, this.config.retryDelayMs * 2 ** (attempts - 1)));
+            }
+        } catch (error) {
+            console.error(`[Alerts] Failed to update delivery ${delivery.id}:`, error);
+        } finally {
+            this.inFlight.delete(delivery.id);
+        }
+    }
+}
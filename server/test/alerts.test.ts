@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getEnabledAlertRules, getSkewHistory, onSnapshotSaved, saveAlertRuleState, AlertRuleRecord, SavedSnapshot } from '../src/services/db';
+import { getSkewRank } from '../src/services/skewRank';
+import { AlertEngine, parseAlertRule } from '../src/services/alerts';
+
+const webhooks = vi.hoisted(() => ({ send: vi.fn(), resume: vi.fn() }));
+
+vi.mock('../src/services/db', () => {
+    const ALERT_CONDITIONS = ['crosses_above', 'crosses_below', 'change_pct', 'sentiment_change', 'percentile_above', 'percentile_below'];
+    return {
+        ALERT_CONDITIONS,
+        isAlertCondition: (value: unknown) => typeof value === 'string' && ALERT_CONDITIONS.includes(value),
+        LIVE_METRIC_VERSION: 'live',
+        onSnapshotSaved: vi.fn(),
+        getEnabledAlertRules: vi.fn(),
+        getSkewHistory: vi.fn(),
+        getSkewHistorySeries: vi.fn(),
+        saveAlertRuleState: vi.fn()
+    };
+});
+
+vi.mock('../src/services/webhooks', () => ({
+    WebhookDispatcher: class {
+        send = webhooks.send;
+        resume = webhooks.resume;
+    }
+}));
+
+vi.mock('../src/services/skewRank', async importOriginal => ({
+    ...await importOriginal<typeof import('../src/services/skewRank')>(),
+    getSkewRank: vi.fn()
+}));
+
+const series = { minDelta: 0.1, maxDelta: 0.3, centerDelta: 0.2, targetDte: 30 };
+
+const makeRule = (rule: Partial<AlertRuleRecord>): AlertRuleRecord => ({
+    id: 1,
+    name: 'SPY skew',
+    symbol: 'SPY',
+    condition: 'crosses_above',
+    metric: 'oiSkew',
+    threshold: 1.5,
+    windowMinutes: null,
+    lookback: null,
+    fromSentiment: null,
+    toSentiment: null,
+    webhookUrl: 'https://hooks.example.com/skew',
+    cooldownMinutes: 60,
+    enabled: true,
+    active: false,
+    lastTriggeredAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...series,
+    ...rule
+});
+
+// Only the fields the engine reads
+const makeSnapshot = (oiSkew: number, timestamp = '2025-12-01T15:00:00Z') => ({
+    id: 7,
+    symbol: 'SPY',
+    timestamp: new Date(timestamp),
+    oiSkew,
+    pricingSkew: null,
+    impliedMove: 3.8,
+    underlyingPrice: 600,
+    expirationDate: '2025-12-31',
+    dte: 29,
+    ...series
+}) as unknown as SavedSnapshot;
+
+const history = (...values: number[]) => values.map((oiSkew, index) => ({
+    timestamp: new Date(Date.UTC(2025, 11, 1, 14, 45 - index * 15)),
+    oiSkew,
+    pricingSkew: null
+}));
+
+/**
+ * Start an engine and evaluate a saved snapshot against the given rules
+ */
+const evaluate = async (rules: AlertRuleRecord[], snapshot: SavedSnapshot) => {
+    vi.mocked(getEnabledAlertRules).mockResolvedValue(rules);
+    new AlertEngine().start();
+    const listener = vi.mocked(onSnapshotSaved).mock.calls.at(-1)![0];
+    await listener(snapshot);
+};
+
+describe('alert engine', () => {
+    beforeEach(() => {
+        vi.mocked(getSkewHistory).mockReset();
+        vi.mocked(saveAlertRuleState).mockReset();
+        webhooks.send.mockReset();
+        webhooks.resume.mockReset().mockResolvedValue(undefined);
+    });
+
+    it('fires when the metric crosses the threshold since the previous snapshot', async () => {
+        vi.mocked(getSkewHistory).mockResolvedValue(history(1.4) as never);
+
+        await evaluate([makeRule({})], makeSnapshot(1.6));
+
+        expect(getEnabledAlertRules).toHaveBeenCalledWith('SPY', series);
+        expect(saveAlertRuleState).toHaveBeenCalledWith(1, true, expect.any(Date));
+        expect(webhooks.send).toHaveBeenCalledWith(expect.objectContaining({
+            ruleId: 1,
+            snapshotId: 7,
+            url: 'https://hooks.example.com/skew',
+            message: 'SPY OI skew crossed above 1.5: 1.4 → 1.6',
+            payload: expect.objectContaining({ value: 1.6, previous: 1.4, threshold: 1.5 })
+        }));
+    });
+
+    it('keeps the state but sends nothing during the cooldown', async () => {
+        vi.mocked(getSkewHistory).mockResolvedValue(history(1.4) as never);
+        const lastTriggeredAt = new Date(Date.now() - 10 * 60 * 1000);
+
+        await evaluate([makeRule({ lastTriggeredAt })], makeSnapshot(1.6));
+
+        expect(saveAlertRuleState).toHaveBeenCalledWith(1, true, undefined);
+        expect(webhooks.send).not.toHaveBeenCalled();
+    });
+
+    it('does not fire while the metric stays past the threshold', async () => {
+        vi.mocked(getSkewHistory).mockResolvedValue(history(1.6) as never);
+
+        await evaluate([makeRule({ active: true })], makeSnapshot(1.7));
+
+        expect(saveAlertRuleState).not.toHaveBeenCalled();
+        expect(webhooks.send).not.toHaveBeenCalled();
+    });
+
+    it('fires a percent change once when it starts to hold', async () => {
+        const rule = makeRule({ condition: 'change_pct', threshold: -10, windowMinutes: 60 });
+        vi.mocked(getSkewHistory).mockImplementation(async ({ endDate }) =>
+            history(endDate!.getTime() === Date.parse('2025-12-01T14:00:00Z') ? 2.0 : 1.9) as never);
+
+        await evaluate([rule], makeSnapshot(1.7));
+
+        expect(webhooks.send).toHaveBeenCalledWith(expect.objectContaining({
+            message: 'SPY OI skew fell 15.0% over 1h: 2 → 1.7',
+            payload: expect.objectContaining({ reference: 2.0, changePct: expect.closeTo(-15) })
+        }));
+
+        webhooks.send.mockClear();
+        await evaluate([{ ...rule, active: true }], makeSnapshot(1.6));
+        expect(webhooks.send).not.toHaveBeenCalled();
+    });
+
+    it('fires on a change to the chosen sentiment', async () => {
+        vi.mocked(getSkewHistory).mockResolvedValue(history(1.0) as never);
+        const rule = makeRule({ condition: 'sentiment_change', threshold: null, toSentiment: 'Extr. Bearish' });
+
+        await evaluate([rule], makeSnapshot(5.0));
+
+        expect(webhooks.send).toHaveBeenCalledWith(expect.objectContaining({
+            payload: expect.objectContaining({ sentiment: 'Extr. Bearish' })
+        }));
+        expect(saveAlertRuleState).toHaveBeenCalledWith(1, true, expect.any(Date));
+    });
+
+    it('fires when the skew rank reaches the percentile', async () => {
+        vi.mocked(getSkewHistory).mockResolvedValue([]);
+        vi.mocked(getSkewRank).mockResolvedValue({
+            lookback: '60d',
+            since: '2025-09-01T00:00:00.000Z',
+            oiSkew: { value: 1.6, percentile: 95, zScore: 2.1, mean: 1.2, stdDev: 0.19, samples: 60 },
+            pricingSkew: null,
+            impliedMove: null
+        } as never);
+        const rule = makeRule({ condition: 'percentile_above', threshold: 90, lookback: '60d' });
+
+        await evaluate([rule], makeSnapshot(1.6));
+
+        expect(getSkewRank).toHaveBeenCalledWith({ symbol: 'SPY', params: series }, '60d', expect.objectContaining({ oiSkew: 1.6 }));
+        expect(webhooks.send).toHaveBeenCalledWith(expect.objectContaining({
+            message: 'SPY OI skew 1.6 ranks at percentile 95 of its 60d history'
+        }));
+    });
+});
+
+describe('alert rule input', () => {
+    it('clears fields that do not apply to the condition', () => {
+        const rule = parseAlertRule({
+            name: ' Skew jump ',
+            symbol: 'spy',
+            condition: 'crosses_above',
+            threshold: '1.5',
+            windowMinutes: 60,
+            fromSentiment: 'Bullish',
+            webhookUrl: 'https://hooks.example.com/skew'
+        });
+
+        expect(rule).toMatchObject({
+            name: 'Skew jump',
+            symbol: 'SPY',
+            metric: 'oiSkew',
+            threshold: 1.5,
+            windowMinutes: null,
+            lookback: null,
+            fromSentiment: null,
+            cooldownMinutes: 60,
+            enabled: true
+        });
+    });
+
+    it.each([
+        [{ condition: 'crosses_above' }, 'Missing threshold for crosses_above'],
+        [{ condition: 'change_pct', threshold: 5 }, 'Invalid windowMinutes: change_pct needs a positive whole number of minutes'],
+        [{ condition: 'percentile_above', threshold: 120 }, 'Invalid threshold: percentile must be between 0 and 100'],
+        [{ condition: 'percentile_above', metric: 'volumeSkew', threshold: 90 }, 'Invalid metric for percentile_above'],
+        [{ condition: 'crosses_above', threshold: 1, webhookUrl: 'ftp://example.com' }, 'Invalid webhookUrl: must be an http(s) URL']
+    ])('rejects %o', (fields, message) => {
+        expect(() => parseAlertRule({ name: 'Rule', symbol: 'SPY', webhookUrl: 'https://hooks.example.com/skew', ...fields }))
+            .toThrow(message);
+    });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { nextCronRun, parseCron } from '../src/services/cron';
+
+describe('cron', () => {
+    it('rejects malformed expressions', () => {
+        expect(() => parseCron('*/15 * * *')).toThrow('expected 5 fields');
+        expect(() => parseCron('60 * * * *')).toThrow('Invalid cron field: 60 (allowed 0-59)');
+        expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron step: */0');
+        expect(() => parseCron('0 17-9 * * *')).toThrow('Invalid cron field: 17-9');
+    });
+
+    it('finds the next run in the schedule time zone', () => {
+        // Every 15 minutes from 9:00 to 16:45 New York time, Monday to Friday
+        const schedule = parseCron('*/15 9-16 * * 1-5');
+
+        // Friday 16:50 New York (EST, UTC-5) rolls over to Monday 9:00
+        expect(nextCronRun(schedule, new Date('2025-12-05T21:50:00Z'), 'America/New_York'))
+            .toEqual(new Date('2025-12-08T14:00:00Z'));
+        expect(nextCronRun(schedule, new Date('2025-12-08T14:00:00Z'), 'America/New_York'))
+            .toEqual(new Date('2025-12-08T14:15:00Z'));
+    });
+
+    it('matches either day field when both are restricted, and 7 as Sunday', () => {
+        const schedule = parseCron('0 12 1 * 7');
+
+        // Sunday 2025-12-07 comes before the 1st of January
+        expect(nextCronRun(schedule, new Date('2025-12-02T00:00:00Z'), 'UTC')).toEqual(new Date('2025-12-07T12:00:00Z'));
+        expect(nextCronRun(schedule, new Date('2025-12-28T12:00:00Z'), 'UTC')).toEqual(new Date('2026-01-01T12:00:00Z'));
+    });
+});
@@ -0,0 +1,42 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { calculateGex, cleanupStreamer } from '../src/services/tastytrade';
+import { settle } from './replay';
+
+// Contract multiplier x spot^2
+const SCALE = 100 * 600 * 600;
+
+describe('gamma exposure', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    afterAll(async () => {
+        await cleanupStreamer();
+    });
+
+    it('nets call and put gamma x OI per strike', async () => {
+        const gex = await settle(calculateGex('SPY'));
+
+        expect(gex.expirationDate).toBe('2025-12-31');
+        expect(gex.underlyingPrice).toBe(600);
+        expect(gex.multiplier).toBe(100);
+        expect(gex.strikes.map(s => s.strike)).toEqual([570, 580, 590, 600, 610, 620, 630]);
+
+        const atm = gex.strikes.find(s => s.strike === 600);
+        expect(atm?.callGex).toBeCloseTo(0.013819 * 2200 * SCALE);
+        expect(atm?.putGex).toBeCloseTo(-0.013819 * 2100 * SCALE);
+        expect(atm?.netGex).toBeCloseTo(0.013819 * 100 * SCALE);
+        expect(gex.totalGex).toBeCloseTo(800008200);
+    });
+
+    it('puts the gamma flip at the sign change of cumulative GEX closest to spot', async () => {
+        const gex = await settle(calculateGex('SPY'));
+
+        // Cumulative GEX turns negative between 570 and 580 and positive again between 600 and 610
+        expect(gex.gammaFlip).toBeCloseTo(609.7904, 3);
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { bucketHistory, HistoryRow } from '../src/services/historyBuckets';
+
+const row = (timestamp: string, oiSkew: number | null, underlyingPrice: number | null = null): HistoryRow => ({
+    timestamp: new Date(timestamp),
+    oiSkew,
+    pricingSkew: null,
+    impliedMove: null,
+    volumeSkew: null,
+    underlyingPrice
+});
+
+describe('bucketHistory', () => {
+    it('summarizes each UTC hour and skips empty ones', () => {
+        const buckets = bucketHistory([
+            row('2025-12-01T14:05:00Z', 1.2, 600),
+            row('2025-12-01T14:20:00Z', 1.6, 601),
+            row('2025-12-01T14:50:00Z', 1.0, 599),
+            row('2025-12-01T16:10:00Z', 1.4)
+        ], '1h');
+
+        expect(buckets.map(b => [b.timestamp, b.count])).toEqual([
+            ['2025-12-01T14:00:00.000Z', 3],
+            ['2025-12-01T16:00:00.000Z', 1]
+        ]);
+        expect(buckets[0].oiSkew).toEqual({ open: 1.2, high: 1.6, low: 1.0, close: 1.0, mean: expect.closeTo(1.2667, 4) });
+        expect(buckets[1].underlyingPrice).toBeNull();
+        expect(buckets[0].pricingSkew).toBeNull();
+    });
+
+    it('starts weeks on Monday', () => {
+        const buckets = bucketHistory([
+            row('2025-11-30T23:00:00Z', 1.1),
+            row('2025-12-01T00:00:00Z', 1.3),
+            row('2025-12-07T23:59:00Z', 1.5)
+        ], '1w');
+
+        expect(buckets.map(b => [b.timestamp, b.count])).toEqual([
+            ['2025-11-24T00:00:00.000Z', 1],
+            ['2025-12-01T00:00:00.000Z', 2]
+        ]);
+        expect(buckets[1].oiSkew?.close).toBe(1.5);
+    });
+});
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { findStoredSnapshots, getSnapshotPage, insertSnapshots } from '../src/services/db';
+import { exportHistory, HistoryFormat, importHistory, parseHistoryFile } from '../src/services/historyTransfer';
+
+vi.mock('../src/services/db', () => ({
+    LIVE_METRIC_VERSION: 'live',
+    getSnapshotPage: vi.fn(),
+    findStoredSnapshots: vi.fn(),
+    insertSnapshots: vi.fn(),
+    getSnapshotIdentityKey: (row: { symbol: string; timestamp: Date; metricVersion: string }) =>
+        `${row.symbol}|${row.timestamp.toISOString()}|${row.metricVersion}`
+}));
+
+const HEADER = 'symbol,timestamp,oiSkew,dte,expirationDate,callOi,putOi,callDelta,putDelta';
+const row = (timestamp: string, oiSkew = '1.8') =>
+    `spy,${timestamp},${oiSkew},29,2025-12-31,2500,4500,0.18,-0.2`;
+
+const stored = {
+    id: 1,
+    symbol: 'SPY',
+    timestamp: new Date('2025-12-01T12:00:00Z'),
+    metricVersion: 'live',
+    oiSkew: 1.8,
+    pricingSkew: 1.67,
+    impliedMove: 3.83,
+    underlyingPrice: 600,
+    dte: 29,
+    expirationDate: '2025-12-31',
+    callOi: 2500,
+    putOi: 4500,
+    volumeSkew: null,
+    callVolume: null,
+    putVolume: null,
+    deltaWeightedSkew: 2.63,
+    premiumWeightedSkew: 3.57,
+    notionalWeightedSkew: 1.65,
+    callDelta: 0.18,
+    putDelta: -0.2,
+    riskReversal25: null,
+    butterfly25: null,
+    riskReversal10: null,
+    atmIv: 0.2,
+    totalGex: 800008200,
+    gammaFlip: 609.79,
+    minDelta: 0.1,
+    maxDelta: 0.3,
+    centerDelta: 0.2,
+    targetDte: 30
+};
+
+const collect = async (chunks: AsyncGenerator<string>) => {
+    let text = '';
+    for await (const chunk of chunks) text += chunk;
+    return text;
+};
+
+describe('history file parsing', () => {
+    it('reads CSV with a byte order mark, CRLF line endings and quoted fields', () => {
+        const content = `\uFEFF${HEADER}\r\n${row('2025-12-01T12:00:00Z')}\r\n\r\n"SPY","2025-12-02T12:00:00Z",1.9,28,"2025-12-31",2500,"4,500",0.18,-0.2\r\n`;
+
+        expect(parseHistoryFile(content, 'csv')).toEqual([
+            {
+                line: 2,
+                record: expect.objectContaining({ symbol: 'spy', timestamp: '2025-12-01T12:00:00Z', oiSkew: '1.8' })
+            },
+            {
+                line: 4,
+                record: expect.objectContaining({ symbol: 'SPY', putOi: '4,500' })
+            }
+        ]);
+    });
+
+    it('rejects a CSV header without the required columns', () => {
+        expect(() => parseHistoryFile('symbol,timestamp,oiSkew\n', 'csv'))
+            .toThrow('CSV header is missing required columns: dte, expirationDate, callOi, putOi, callDelta, putDelta');
+    });
+
+    it('reports unreadable rows by line number', () => {
+        const csv = parseHistoryFile(`${HEADER}\nSPY,2025-12-01T12:00:00Z\n`, 'csv');
+        expect(csv[0]).toMatchObject({ line: 2, record: new Error('Expected 9 fields, got 2') });
+
+        const ndjson = parseHistoryFile('{"symbol":"SPY"}\n{oops\n[1]\n', 'ndjson');
+        expect(ndjson.map(({ line, record }) => [line, record instanceof Error ? record.message : 'ok'])).toEqual([
+            [1, 'ok'],
+            [2, 'Invalid JSON'],
+            [3, 'Expected a JSON object']
+        ]);
+    });
+});
+
+describe('history import', () => {
+    beforeEach(() => {
+        vi.mocked(findStoredSnapshots).mockReset().mockResolvedValue(new Set());
+        vi.mocked(insertSnapshots).mockReset().mockImplementation(async rows => rows.length);
+    });
+
+    it('imports valid rows and reports the rest', async () => {
+        vi.mocked(findStoredSnapshots).mockResolvedValue(new Set(['SPY|2025-12-03T12:00:00.000Z|live']));
+        const records = parseHistoryFile([
+            HEADER,
+            row('2025-12-01T12:00:00Z'),
+            row('2025-12-01T12:00:00Z'),
+            row('2025-12-02T12:00:00Z', 'abc'),
+            row('yesterday'),
+            row('2025-12-03T12:00:00Z'),
+            'SPY,2025-12-04T12:00:00Z,1.8,29,2025-12-31,2500.5,4500,0.18,-0.2'
+        ].join('\n'), 'csv');
+
+        const result = await importHistory(records);
+
+        expect(result).toEqual({
+            received: 6,
+            imported: 1,
+            duplicates: 2,
+            invalid: 3,
+            errors: {
+                4: 'Invalid oiSkew: abc',
+                5: 'Invalid timestamp: yesterday',
+                7: 'Invalid callOi: 2500.5'
+            }
+        });
+        expect(insertSnapshots).toHaveBeenCalledWith([
+            expect.objectContaining({
+                symbol: 'SPY',
+                timestamp: new Date('2025-12-01T12:00:00Z'),
+                metricVersion: 'live',
+                oiSkew: 1.8,
+                callOi: 2500,
+                pricingSkew: null
+            })
+        ]);
+    });
+
+    it.each<HistoryFormat>(['csv', 'ndjson'])('imports its own %s export unchanged', async format => {
+        vi.mocked(getSnapshotPage).mockResolvedValueOnce([stored] as never);
+
+        const text = await collect(exportHistory({ format, symbols: ['SPY'] }));
+        const result = await importHistory(parseHistoryFile(text, format));
+
+        expect(result).toMatchObject({ received: 1, imported: 1, invalid: 0 });
+        expect(vi.mocked(insertSnapshots).mock.calls[0][0]).toEqual([{ ...stored, id: undefined }]);
+    });
+});
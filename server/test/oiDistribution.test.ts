@@ -0,0 +1,30 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { calculateOiDistribution, cleanupStreamer } from '../src/services/tastytrade';
+import { settle } from './replay';
+
+describe('OI distribution', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    afterAll(async () => {
+        await cleanupStreamer();
+    });
+
+    it('finds max pain, the OI walls and the put/call ratios', async () => {
+        const distribution = await settle(calculateOiDistribution('SPY'));
+
+        expect(distribution.totalCallOi).toBe(8650);
+        expect(distribution.totalPutOi).toBe(9250);
+        expect(distribution.putCallRatio).toBeCloseTo(9250 / 8650);
+        // Settling at 600 pays holders 34,500 in intrinsic value, less than any other strike
+        expect(distribution.maxPain).toBe(600);
+        expect(distribution.callWall).toEqual({ strike: 610, oi: 2600 });
+        expect(distribution.putWall).toEqual({ strike: 580, oi: 2500 });
+        expect(distribution.strikes.find(s => s.strike === 570)?.putCallRatio).toBeCloseTo(2000 / 150);
+    });
+});
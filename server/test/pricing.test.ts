@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { greeksFromPrice, impliedVolatility, priceOption, PricingInputs } from '../src/services/pricing';
+
+// The 570 put of the replay fixture, which the Greeks feed skips
+const put570: PricingInputs = {
+    model: 'black-scholes',
+    type: 'put',
+    underlyingPrice: 600,
+    strike: 570,
+    timeToExpiry: 29 / 365,
+    rate: 0.04
+};
+
+describe('pricing', () => {
+    it('recovers the volatility an option was priced at', () => {
+        for (const model of ['black-scholes', 'black76'] as const) {
+            for (const type of ['call', 'put'] as const) {
+                const inputs = { ...put570, model, type };
+                expect(impliedVolatility(inputs, priceOption(inputs, 0.25))).toBeCloseTo(0.25, 5);
+            }
+        }
+    });
+
+    it('solves IV and Greeks from the quote mid', () => {
+        const greeks = greeksFromPrice(put570, (3.12 + 3.22) / 2);
+
+        expect(greeks?.iv).toBeCloseTo(0.206, 3);
+        expect(greeks?.delta).toBeCloseTo(-0.1667, 3);
+        expect(greeks?.gamma).toBeCloseTo(0.007174, 4);
+    });
+
+    it('returns null for prices outside the no-arbitrage bounds', () => {
+        expect(greeksFromPrice(put570, 0)).toBeNull();
+        expect(greeksFromPrice(put570, 600)).toBeNull();
+        expect(greeksFromPrice({ ...put570, timeToExpiry: 0 }, 3.17)).toBeNull();
+    });
+});
@@ -0,0 +1,29 @@
+import { vi } from 'vitest';
+import { streamSkewCalculation, SkewResult } from '../src/services/tastytrade';
+
+// Longer than both collection phases, so every calculation finishes on its own
+const CALCULATION_WINDOW_MS = 60000;
+
+/**
+ * Await a calculation while fake timers stand in for the replay delivery and phase timeouts
+ */
+export const settle = async <T>(calculation: Promise<T>): Promise<T> => {
+    const outcome = calculation.then(
+        value => ({ value }),
+        (error: unknown) => ({ error })
+    );
+    await vi.advanceTimersByTimeAsync(CALCULATION_WINDOW_MS);
+    const result = await outcome;
+    if ('error' in result) throw result.error;
+    return result.value;
+};
+
+/**
+ * Run a streamed skew calculation to its result (rejects on its error event)
+ */
+export const runSkew = (symbol: string): Promise<SkewResult> => settle(new Promise<SkewResult>((resolve, reject) => {
+    streamSkewCalculation(symbol, (progress) => {
+        if (progress.type === 'result') resolve(progress.data);
+        if (progress.type === 'error') reject(new Error(progress.message));
+    });
+}));
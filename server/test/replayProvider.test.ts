@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReplayProvider, MarketEvent, readRecords } from '../src/services/providers';
+
+const createProvider = () => new ReplayProvider(process.env.REPLAY_DATA_DIR as string, { intervalMs: 1 });
+
+describe('ReplayProvider', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('loads the recorded chain and dates the replay from the manifest', async () => {
+        const provider = createProvider();
+        const expirations = await provider.fetchChainExpirations('SPY');
+
+        expect(expirations.map(exp => exp['expiration-date'])).toEqual(['2025-12-05', '2025-12-19', '2025-12-31', '2026-01-16']);
+        expect(readRecords(expirations[2], 'strikes')).toHaveLength(7);
+        expect(provider.now().toISOString()).toBe('2025-12-01T12:00:00.000Z');
+    });
+
+    it('rejects symbols without a recorded chain', async () => {
+        await expect(createProvider().fetchChainExpirations('QQQ')).rejects.toThrow('No recorded chain for QQQ');
+    });
+
+    it('resolves futures and streamer symbols from the manifest', async () => {
+        const provider = createProvider();
+
+        expect((await provider.fetchFutures('/ES')).map(f => f.symbol)).toEqual(['/ESZ5', '/ESH6']);
+        expect(await provider.getStreamerSymbol('/ESZ5')).toBe('/ESZ25:XCME');
+        expect(await provider.getStreamerSymbol('SPY')).toBe('SPY');
+        expect(await provider.searchSymbols('sp')).toEqual([{ symbol: 'SPY', description: 'Recorded chain', instrumentType: 'Replay' }]);
+    });
+
+    it('delivers the recorded events of subscribed symbols only', async () => {
+        const provider = createProvider();
+        await provider.connect();
+        const received: MarketEvent[] = [];
+        provider.addEventListener(events => received.push(...[events].flat()));
+
+        provider.subscribe(['SPY', '.SPY251231C600']);
+        provider.unsubscribe(['.SPY251231C600']);
+        await vi.advanceTimersByTimeAsync(100);
+
+        expect(received).toEqual([{ eventType: 'Trade', eventSymbol: 'SPY', price: 600, dayVolume: 48211000 }]);
+        await provider.disconnect();
+    });
+});
@@ -0,0 +1,66 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanupStreamer, fetchOptionChain } from '../src/services/tastytrade';
+import { runSkew } from './replay';
+
+describe('skew calculation', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    afterAll(async () => {
+        await cleanupStreamer();
+    });
+
+    it('picks the Regular or End-Of-Month expiration closest to 30 DTE', async () => {
+        const chain = await fetchOptionChain('SPY');
+
+        expect(chain.expirationDate).toBe('2025-12-31');
+        expect(chain.dte).toBe(29);
+        expect(chain.symbols).toHaveLength(14);
+    });
+
+    it('compares put and call OI in the 10-30 delta band', async () => {
+        const result = await runSkew('SPY');
+
+        // Calls 620 (0.24) and 630 (0.12), puts 570 (-0.17, priced from its quote) and 580 (-0.24)
+        expect(result.callOi).toBe(1000 + 1500);
+        expect(result.putOi).toBe(2000 + 2500);
+        expect(result.skew).toBeCloseTo(1.8);
+        expect(result.callDelta).toBeCloseTo((0.2423 * 1000 + 0.1173 * 1500) / 2500);
+        expect(result.putDelta).toBeCloseTo((-0.1667 * 2000 - 0.2403 * 2500) / 4500);
+        expect(result.callStreamerSymbol).toBe('2 options');
+        expect(result.putStreamerSymbol).toBe('2 options');
+    });
+
+    it('prices options the Greeks feed skipped from their quote', async () => {
+        const result = await runSkew('SPY');
+
+        expect(result.bandOptions.map(o => [o.strike, o.type, o.greeksSource])).toEqual([
+            [570, 'put', 'computed'],
+            [580, 'put', 'feed'],
+            [620, 'call', 'feed'],
+            [630, 'call', 'feed']
+        ]);
+    });
+
+    it('prices the band and the ATM straddle from quote mids', async () => {
+        const result = await runSkew('SPY');
+
+        expect(result.underlyingPrice).toBe(600);
+        expect(result.pricingSkew).toBeCloseTo(((3.17 + 4.77) / 2) / ((3.46 + 1.28) / 2));
+        // 600 call (0.54) and 600 put (-0.46) are closest to 50 delta
+        expect(result.impliedMove).toBeCloseTo((12.43 + 10.52) / 600 * 100);
+    });
+
+    it('weights the band OI by |delta|, premium and strike', async () => {
+        const result = await runSkew('SPY');
+
+        expect(result.deltaWeightedSkew).toBeCloseTo((0.1667 * 2000 + 0.2403 * 2500) / (0.2423 * 1000 + 0.1173 * 1500));
+        expect(result.premiumWeightedSkew).toBeCloseTo((3.17 * 2000 + 4.77 * 2500) / (3.46 * 1000 + 1.28 * 1500));
+        expect(result.notionalWeightedSkew).toBeCloseTo((570 * 2000 + 580 * 2500) / (620 * 1000 + 630 * 1500));
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getSkewHistorySeries } from '../src/services/db';
+import { getSkewRank, rankValue } from '../src/services/skewRank';
+
+vi.mock('../src/services/db', () => ({
+    LIVE_METRIC_VERSION: 'live',
+    onSnapshotSaved: vi.fn(),
+    getSkewHistory: vi.fn(),
+    getSkewHistorySeries: vi.fn()
+}));
+
+const snapshot = (timestamp: string, oiSkew: number) => ({
+    timestamp: new Date(timestamp),
+    oiSkew,
+    pricingSkew: null,
+    impliedMove: null,
+    volumeSkew: null,
+    underlyingPrice: null
+});
+
+describe('skew rank', () => {
+    it('ranks a value against the daily closes', () => {
+        const rank = rankValue(1.5, [1.0, 1.2, 1.4, 1.6, 1.8]);
+
+        expect(rank).toMatchObject({ value: 1.5, percentile: 60, mean: 1.4, samples: 5 });
+        expect(rank?.stdDev).toBeCloseTo(Math.sqrt(0.08));
+        expect(rank?.zScore).toBeCloseTo(0.1 / Math.sqrt(0.08));
+    });
+
+    it('needs five samples and a spread for the z-score', () => {
+        expect(rankValue(1.5, [1.0, 1.2, 1.4, 1.6])).toBeNull();
+        expect(rankValue(1.5, [1.5, 1.5, 1.5, 1.5, 1.5])).toMatchObject({ percentile: 0, zScore: null });
+    });
+
+    it('compares current readings with the last snapshot of each day', async () => {
+        vi.mocked(getSkewHistorySeries).mockResolvedValue([
+            snapshot('2025-11-24T15:00:00Z', 2.0),
+            snapshot('2025-11-24T20:00:00Z', 1.0),
+            snapshot('2025-11-25T20:00:00Z', 1.2),
+            snapshot('2025-11-26T20:00:00Z', 1.4),
+            snapshot('2025-11-28T15:00:00Z', 0.5),
+            snapshot('2025-11-28T20:00:00Z', 1.6),
+            snapshot('2025-12-01T20:00:00Z', 1.8)
+        ]);
+
+        const rank = await getSkewRank({ symbol: 'SPY' }, '20d', { oiSkew: 1.5, pricingSkew: 1.1, impliedMove: null });
+
+        expect(rank?.since).toBe('2025-11-24T00:00:00.000Z');
+        expect(rank?.oiSkew).toMatchObject({ percentile: 60, mean: 1.4, samples: 5 });
+        // No pricing skew history and no current implied move
+        expect(rank?.pricingSkew).toBeNull();
+        expect(rank?.impliedMove).toBeNull();
+    });
+});
@@ -0,0 +1,16 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        include: ['test/**/*.test.ts'],
+        // Provider and calculation logs only for failing tests
+        silent: 'passed-only',
+        // Calculations run offline against the recorded fixture set, without a database
+        env: {
+            MARKET_DATA_PROVIDER: 'replay',
+            REPLAY_DATA_DIR: path.resolve(__dirname, 'test/fixtures/replay'),
+            CACHE_STORE: 'memory'
+        }
+    }
+});
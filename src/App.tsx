@@ -1,10 +1,15 @@
 import { useState, useEffect, useRef } from 'react';
-import { streamSkewCalculation, checkHealth, searchSymbols } from './services/tasty';
-import type { SkewResult, SymbolSearchResult } from './services/tasty';
+import { streamSkewCalculation, checkHealth, searchSymbols, fetchExpirations, formatDeltaBand, getSkewVariantValue, DEFAULT_SKEW_PARAMS, EXPIRATION_TYPE_OPTIONS, SKEW_VARIANTS } from './services/tasty';
+import type { ExpirationInfo, ExpirationTypeFilter, SkewParams, SkewResult, SkewVariant, SymbolSearchResult } from './services/tasty';
 import { MarketOverview } from './components/MarketOverview';
 import { SkewHistoryChart } from './components/SkewHistoryChart';
+import { TermStructureChart } from './components/TermStructureChart';
+import { SmileChart } from './components/SmileChart';
+import { GexChart } from './components/GexChart';
+import { OiDistributionChart } from './components/OiDistributionChart';
 
 type ViewMode = 'single' | 'market';
+type NumericParamKey = Exclude<keyof SkewParams, 'expirationType' | 'expirationDate'>;
 
 function App() {
   const [symbol, setSymbol] = useState('/ES');
@@ -15,6 +20,14 @@ function App() {
   const [serverOnline, setServerOnline] = useState<boolean | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('market');
   const [viewingChartSymbol, setViewingChartSymbol] = useState<string | null>(null);
+  const [viewingTermSymbol, setViewingTermSymbol] = useState<string | null>(null);
+  const [viewingSmileSymbol, setViewingSmileSymbol] = useState<string | null>(null);
+  const [viewingGexSymbol, setViewingGexSymbol] = useState<string | null>(null);
+  const [viewingOiSymbol, setViewingOiSymbol] = useState<string | null>(null);
+  const [params, setParams] = useState<SkewParams>(DEFAULT_SKEW_PARAMS);
+  const [skewVariant, setSkewVariant] = useState<SkewVariant>('oi');
+  const [expirations, setExpirations] = useState<ExpirationInfo[]>([]);
+  const [expirationsLoading, setExpirationsLoading] = useState(false);
   const cleanupRef = useRef<(() => void) | null>(null);
 
   // Autosuggest state
@@ -30,11 +43,40 @@ function App() {
     checkHealth().then(setServerOnline);
   }, []);
 
+  // Load the expiration picker for the single-asset symbol (debounced while typing)
+  useEffect(() => {
+    if (viewMode !== 'single' || !serverOnline || !symbol) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setExpirationsLoading(true);
+      try {
+        const list = await fetchExpirations(symbol);
+        if (!cancelled) setExpirations(list);
+      } catch {
+        if (!cancelled) setExpirations([]);
+      } finally {
+        if (!cancelled) setExpirationsLoading(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [symbol, viewMode, serverOnline]);
+
+  // An exact expiration only applies to the symbol it was picked for
+  const clearExpirationDate = () => {
+    setParams((prev) => ({ ...prev, expirationDate: undefined }));
+  };
+
   // Debounced symbol search
   const handleSymbolChange = (value: string) => {
     const upperValue = value.toUpperCase();
     setSymbol(upperValue);
     setSelectedIndex(-1);
+    clearExpirationDate();
 
     // Clear previous timeout
     if (searchTimeoutRef.current) {
@@ -61,6 +103,7 @@ function App() {
   // Handle selecting a symbol from dropdown
   const handleSelectSymbol = (selectedSymbol: string) => {
     setSymbol(selectedSymbol);
+    clearExpirationDate();
     setShowDropdown(false);
     setSearchResults([]);
     inputRef.current?.focus();
@@ -95,7 +138,30 @@ function App() {
     }
   };
 
+  // Delta inputs are shown in whole delta units (e.g. 25 = 0.25)
+  const handleParamChange = (key: NumericParamKey, value: string) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) return;
+    setParams((prev) => ({
+      ...prev,
+      [key]: key === 'targetDte' ? Math.round(parsed) : parsed / 100
+    }));
+  };
+
+  const validateParams = (p: SkewParams): string | null => {
+    if (!(p.minDelta > 0 && p.maxDelta < 1 && p.minDelta <= p.maxDelta)) return 'Delta band must satisfy 0 < min ≤ max < 100';
+    if (p.centerDelta < p.minDelta || p.centerDelta > p.maxDelta) return 'Center delta must lie within the band';
+    if (p.targetDte < 0) return 'Target DTE must not be negative';
+    return null;
+  };
+
   const handleCalculate = async () => {
+    const paramsError = validateParams(params);
+    if (paramsError) {
+      setStatus(`Error: ${paramsError}`);
+      return;
+    }
+
     // Cleanup any existing stream
     if (cleanupRef.current) {
       cleanupRef.current();
@@ -117,13 +183,13 @@ function App() {
             setStatus('Connected. Starting calculation...');
             break;
           case 'cached':
-            setStatus('⚡ Using cached result (1 hour TTL)');
+            setStatus('⚡ Using cached result');
             break;
           case 'chain':
             setStatus(`Fetched ${progress.data?.symbolCount || 0} symbols...`);
             break;
           case 'phase1':
-            setStatus('Phase 1: Collecting delta values...');
+            setStatus(`Phase 1: ${progress.message || 'Collecting delta values...'}`);
             break;
           case 'phase2':
             setStatus(progress.message || 'Phase 2: Collecting OI...');
@@ -143,7 +209,8 @@ function App() {
         setStatus(`Error: ${error}`);
         setLoading(false);
         cleanupRef.current = null;
-      }
+      },
+      params
     );
   };
 
@@ -180,6 +247,18 @@ function App() {
           </div>
 
           <div className="flex items-center gap-6">
+            {/* Skew variant driving colours and sentiment */}
+            <select
+              className="variant-select"
+              value={skewVariant}
+              onChange={(e) => setSkewVariant(e.target.value as SkewVariant)}
+              title="Skew variant used for colours and sentiment"
+            >
+              {SKEW_VARIANTS.map(v => (
+                <option key={v.key} value={v.key}>{v.label}</option>
+              ))}
+            </select>
+
             {/* View Mode Toggle */}
             <div className="view-toggle">
               <button
@@ -212,7 +291,7 @@ function App() {
 
       {/* Main Content */}
       {viewMode === 'market' ? (
-        <MarketOverview serverOnline={serverOnline} onShowChart={handleShowChart} />
+        <MarketOverview serverOnline={serverOnline} skewVariant={skewVariant} onShowChart={handleShowChart} />
       ) : (
         <div className="max-w-xl w-full relative z-10 animate-fade-in flex-1 flex items-center">
           <div className="glass-card rounded-3xl p-8 md:p-12 w-full">
@@ -221,15 +300,53 @@ function App() {
               <div className="autosuggest-container">
                 <div className="flex items-center justify-between mb-2 ml-1">
                   <label className="block text-xs font-semibold text-white/40 uppercase tracking-wider">Asset Symbol</label>
-                  <button
-                    onClick={() => handleShowChart(symbol)}
-                    className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1 font-medium bg-blue-500/10 px-2 py-1 rounded-md transition-colors"
-                  >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
-                    </svg>
-                    History Chart
-                  </button>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleShowChart(symbol)}
+                      className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1 font-medium bg-blue-500/10 px-2 py-1 rounded-md transition-colors"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+                      </svg>
+                      History Chart
+                    </button>
+                    <button
+                      onClick={() => setViewingTermSymbol(symbol)}
+                      className="text-xs text-sky-400 hover:text-sky-300 flex items-center gap-1 font-medium bg-sky-500/10 px-2 py-1 rounded-md transition-colors"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 17l6-6 4 4 8-8M14 7h7v7" />
+                      </svg>
+                      Term Structure
+                    </button>
+                    <button
+                      onClick={() => setViewingSmileSymbol(symbol)}
+                      className="text-xs text-emerald-400 hover:text-emerald-300 flex items-center gap-1 font-medium bg-emerald-500/10 px-2 py-1 rounded-md transition-colors"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6c4 10 14 10 18 0" />
+                      </svg>
+                      IV Smile
+                    </button>
+                    <button
+                      onClick={() => setViewingGexSymbol(symbol)}
+                      className="text-xs text-amber-400 hover:text-amber-300 flex items-center gap-1 font-medium bg-amber-500/10 px-2 py-1 rounded-md transition-colors"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 20V10M10 20V4M16 20v-8M22 20H2" />
+                      </svg>
+                      GEX
+                    </button>
+                    <button
+                      onClick={() => setViewingOiSymbol(symbol)}
+                      className="text-xs text-sky-400 hover:text-sky-300 flex items-center gap-1 font-medium bg-sky-500/10 px-2 py-1 rounded-md transition-colors"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2 12h20M6 12V5M10 12V8M14 12v7M18 12v4" />
+                      </svg>
+                      OI Map
+                    </button>
+                  </div>
                 </div >
                 <input
                   ref={inputRef}
@@ -269,6 +386,60 @@ function App() {
                 )}
               </div >
 
+              {/* Calculation Parameters */}
+              <div className="grid grid-cols-4 gap-3">
+                {([
+                  { key: 'minDelta', label: 'Min Δ' },
+                  { key: 'maxDelta', label: 'Max Δ' },
+                  { key: 'centerDelta', label: 'Center Δ' },
+                  { key: 'targetDte', label: 'DTE' }
+                ] as { key: NumericParamKey; label: string }[]).map(({ key, label }) => (
+                  <div key={key}>
+                    <label className="block text-[10px] font-semibold text-white/40 uppercase tracking-wider mb-1 ml-1">{label}</label>
+                    <input
+                      type="number"
+                      min={key === 'targetDte' ? 0 : 1}
+                      max={key === 'targetDte' ? undefined : 99}
+                      value={key === 'targetDte' ? params.targetDte : Math.round(params[key] * 100)}
+                      onChange={(e) => handleParamChange(key, e.target.value)}
+                      className="w-full rounded-lg px-3 py-2 text-sm font-mono"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {/* Expiration Selection */}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-[10px] font-semibold text-white/40 uppercase tracking-wider mb-1 ml-1">Expiration Type</label>
+                  <select
+                    value={params.expirationType ?? ''}
+                    onChange={(e) => setParams((prev) => ({ ...prev, expirationType: (e.target.value || undefined) as ExpirationTypeFilter | undefined }))}
+                    disabled={!!params.expirationDate}
+                    className="variant-select w-full disabled:opacity-50"
+                  >
+                    {EXPIRATION_TYPE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-[10px] font-semibold text-white/40 uppercase tracking-wider mb-1 ml-1">Expiration</label>
+                  <select
+                    value={params.expirationDate ?? ''}
+                    onChange={(e) => setParams((prev) => ({ ...prev, expirationDate: e.target.value || undefined }))}
+                    className="variant-select w-full"
+                  >
+                    <option value="">{expirationsLoading ? 'Loading...' : `Closest to ${params.targetDte} DTE`}</option>
+                    {expirations.map(exp => (
+                      <option key={exp.expirationDate} value={exp.expirationDate}>
+                        {exp.expirationDate} · {exp.expirationType} · {exp.dte} DTE
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
               <button
                 onClick={handleCalculate}
                 disabled={loading || serverOnline === false}
@@ -302,13 +473,16 @@ function App() {
                   return '#7f1d1d';
                 };
 
+                const variant = SKEW_VARIANTS.find(v => v.key === skewVariant) ?? SKEW_VARIANTS[0];
+                const variantSkew = getSkewVariantValue(details, skewVariant);
+
                 // With new symmetric ranges, we just average directly
                 const avgSkew = details.pricingSkew !== null
-                  ? (5 * skew + details.pricingSkew) / 6
-                  : skew;
+                  ? (5 * variantSkew + details.pricingSkew) / 6
+                  : variantSkew;
 
                 const getSentiment = () => {
-                  const val = details.pricingSkew !== null ? avgSkew : skew;
+                  const val = details.pricingSkew !== null ? avgSkew : variantSkew;
                   if (val < 0.3) return 'Extr. Bullish';
                   if (val < 0.5) return 'Bullish';
                   if (val < 0.7) return 'Mildly Bullish';
@@ -319,7 +493,7 @@ function App() {
                 };
 
                 const getSentimentColor = () => {
-                  const val = details.pricingSkew !== null ? avgSkew : skew;
+                  const val = details.pricingSkew !== null ? avgSkew : variantSkew;
                   return getSkewColor(val);
                 };
 
@@ -328,7 +502,7 @@ function App() {
                     <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-blue-500 to-emerald-500 opacity-50" />
 
                     <div className="text-center mb-8">
-                      <div className="text-xs font-bold text-white/40 uppercase tracking-widest mb-4">10-30 Delta P/C Ratio</div>
+                      <div className="text-xs font-bold text-white/40 uppercase tracking-widest mb-4">{formatDeltaBand(details)} Delta P/C Ratio</div>
 
                       {/* OI Skew */}
                       <div
@@ -344,6 +518,22 @@ function App() {
                         </span>
                       </div>
 
+                      {/* Selected weighted variant */}
+                      {skewVariant !== 'oi' && (
+                        <div
+                          className="flex items-baseline justify-center gap-3 mb-2 cursor-help"
+                          title={`${variant.label} Skew: ${variant.description}`}
+                        >
+                          <span className="text-sm font-semibold text-white/40 uppercase w-16 text-right">{variant.short}</span>
+                          <span
+                            className="text-3xl md:text-4xl font-mono font-bold drop-shadow-xl"
+                            style={{ color: getSkewColor(variantSkew) }}
+                          >
+                            {variantSkew.toFixed(4)}
+                          </span>
+                        </div>
+                      )}
+
                       {/* Pricing Skew */}
                       <div
                         className="flex items-baseline justify-center gap-3 cursor-help"
@@ -368,7 +558,8 @@ function App() {
                           const decimals = symbol.startsWith('/6') ? 4 : 2;
                           const lower = (details.underlyingPrice * (1 - details.impliedMove / 100)).toFixed(decimals);
                           const upper = (details.underlyingPrice * (1 + details.impliedMove / 100)).toFixed(decimals);
-                          return `Implied Move: ±${details.impliedMove.toFixed(2)}% | Range: ${lower} - ${upper}`;
+                          const underlying = details.underlyingSymbol ? ` on ${details.underlyingSymbol}` : '';
+                          return `Implied Move${underlying}: ±${details.impliedMove.toFixed(2)}% | Range: ${lower} - ${upper}`;
                         })()}
                       >
                         <span className="text-sm font-semibold text-white/40 uppercase w-16 text-right">Move</span>
@@ -381,7 +572,7 @@ function App() {
                       <div
                         className="text-sm font-bold uppercase tracking-wider mt-4 cursor-help"
                         style={{ color: getSentimentColor() }}
-                        title="Based on average of OI and Price skew"
+                        title={`Based on average of ${variant.label} and Price skew`}
                       >
                         {getSentiment()}
                       </div>
@@ -390,12 +581,44 @@ function App() {
                     <div className="grid grid-cols-2 gap-4 text-sm border-t border-white/5 pt-6">
                       <div className="space-y-1">
                         <div className="text-white/30 text-xs uppercase font-semibold">Expiration</div>
-                        <div className="font-medium text-white/90">{details.expirationDate}</div>
+                        <div className="font-medium text-white/90">{details.expirationDate}{details.expirationType && <span className="text-white/40"> · {details.expirationType}</span>}</div>
                       </div>
                       <div className="space-y-1 text-right">
                         <div className="text-white/30 text-xs uppercase font-semibold">DTE</div>
                         <div className="font-medium text-white/90">{details.dte} Days</div>
                       </div>
+                      {details.underlyingSymbol && (
+                        <>
+                          <div className="space-y-1">
+                            <div className="text-white/30 text-xs uppercase font-semibold">Underlying</div>
+                            <div className="font-medium text-white/90" title={details.underlyingStreamerSymbol ?? undefined}>
+                              {details.underlyingSymbol}
+                            </div>
+                          </div>
+                          <div className="space-y-1 text-right">
+                            <div className="text-white/30 text-xs uppercase font-semibold">Price</div>
+                            <div className="font-medium text-white/90">{details.underlyingPrice ?? 'N/A'}</div>
+                          </div>
+                        </>
+                      )}
+
+                      {details.bandOptions.length > 0 && (() => {
+                        const computed = details.bandOptions.filter(o => o.greeksSource === 'computed');
+                        return (
+                          <div
+                            className="col-span-2 space-y-1"
+                            title={computed.length > 0
+                              ? `Priced from quotes: ${computed.map(o => `${o.strike} ${o.type}`).join(', ')}`
+                              : 'All band Greeks came from the feed'}
+                          >
+                            <div className="text-white/30 text-xs uppercase font-semibold">Greeks</div>
+                            <div className="font-medium text-white/90">
+                              {details.bandOptions.length - computed.length} feed
+                              {computed.length > 0 && <span className="text-amber-400"> · {computed.length} computed</span>}
+                            </div>
+                          </div>
+                        );
+                      })()}
 
                       <div className="col-span-2 grid grid-cols-2 gap-4 bg-white/5 rounded-xl p-4 mt-2">
                         <div className="text-center">
@@ -406,6 +629,14 @@ function App() {
                           <div className="text-emerald-400/80 text-xs font-bold uppercase mb-1">Put OI</div>
                           <div className="text-white font-mono text-lg">{details.putOi.toLocaleString()}</div>
                         </div>
+                        <div className="text-center">
+                          <div className="text-blue-400/80 text-xs font-bold uppercase mb-1">Call Volume</div>
+                          <div className="text-white font-mono text-lg">{details.callVolume.toLocaleString()}</div>
+                        </div>
+                        <div className="text-center border-l border-white/10">
+                          <div className="text-emerald-400/80 text-xs font-bold uppercase mb-1">Put Volume</div>
+                          <div className="text-white font-mono text-lg">{details.putVolume.toLocaleString()}</div>
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -422,11 +653,70 @@ function App() {
           <div className="w-full max-w-4xl relative">
             <SkewHistoryChart
               symbol={viewingChartSymbol}
+              params={viewMode === 'single' ? params : undefined}
               onClose={() => setViewingChartSymbol(null)}
             />
           </div>
         </div>
       )}
+
+      {/* IV Smile Modal */}
+      {viewingSmileSymbol && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+          <div className="w-full max-w-4xl relative">
+            <SmileChart
+              symbol={viewingSmileSymbol}
+              targetDte={params.targetDte}
+              expirationType={params.expirationType}
+              expirationDate={params.expirationDate}
+              onClose={() => setViewingSmileSymbol(null)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Gamma Exposure Modal */}
+      {viewingGexSymbol && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+          <div className="w-full max-w-4xl relative">
+            <GexChart
+              symbol={viewingGexSymbol}
+              targetDte={params.targetDte}
+              expirationType={params.expirationType}
+              expirationDate={params.expirationDate}
+              onClose={() => setViewingGexSymbol(null)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Open Interest Distribution Modal */}
+      {viewingOiSymbol && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+          <div className="w-full max-w-4xl relative">
+            <OiDistributionChart
+              symbol={viewingOiSymbol}
+              targetDte={params.targetDte}
+              expirationType={params.expirationType}
+              expirationDate={params.expirationDate}
+              onClose={() => setViewingOiSymbol(null)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Term Structure Modal */}
+      {viewingTermSymbol && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+          <div className="w-full max-w-4xl relative">
+            <TermStructureChart
+              symbol={viewingTermSymbol}
+              params={params}
+              onClose={() => setViewingTermSymbol(null)}
+            />
+          </div>
+        </div>
+      )}
     </div >
   );
 }
@@ -0,0 +1,495 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { format } from 'date-fns';
+import {
+    fetchAlertRules,
+    fetchAlertDeliveries,
+    createAlertRule,
+    updateAlertRule,
+    deleteAlertRule,
+    testAlertRule,
+    ALERT_CONDITION_OPTIONS,
+    ALERT_METRIC_OPTIONS,
+    RANK_LOOKBACK_OPTIONS,
+    DEFAULT_RANK_LOOKBACK,
+    SENTIMENT_LABELS
+} from '../services/tasty';
+import type { AlertRule, AlertRuleInput, AlertDelivery, AlertDeliveryStatus, AlertCondition, RankLookback } from '../services/tasty';
+
+interface AlertDrawerProps {
+    onClose: () => void;
+}
+
+type AlertTab = 'rules' | 'deliveries';
+
+// Form fields as typed (numbers are parsed on save)
+interface RuleDraft {
+    name: string;
+    symbol: string;
+    condition: AlertCondition;
+    metric: string;
+    threshold: string;
+    windowMinutes: string;
+    lookback: RankLookback;
+    fromSentiment: string;
+    toSentiment: string;
+    webhookUrl: string;
+    cooldownMinutes: string;
+    enabled: boolean;
+}
+
+const STATUS_STYLES: Record<AlertDeliveryStatus, string> = {
+    pending: 'bg-amber-500/15 text-amber-400',
+    delivered: 'bg-green-500/15 text-green-400',
+    failed: 'bg-red-500/15 text-red-400'
+};
+
+const INPUT_CLASS = 'w-full rounded-md bg-white/5 px-2 py-1 text-xs text-white placeholder-white/30 outline-none focus:bg-white/10';
+
+const isPercentile = (condition: AlertCondition) => condition === 'percentile_above' || condition === 'percentile_below';
+
+const getMetricLabel = (metric: string) => ALERT_METRIC_OPTIONS.find(option => option.value === metric)?.label ?? metric;
+
+const toDraft = (rule?: AlertRule): RuleDraft => ({
+    name: rule?.name ?? '',
+    symbol: rule?.symbol ?? '',
+    condition: rule?.condition ?? 'crosses_above',
+    metric: rule?.metric ?? 'oiSkew',
+    threshold: rule?.threshold?.toString() ?? '',
+    windowMinutes: rule?.windowMinutes?.toString() ?? '60',
+    lookback: rule?.lookback ?? DEFAULT_RANK_LOOKBACK,
+    fromSentiment: rule?.fromSentiment ?? '',
+    toSentiment: rule?.toSentiment ?? '',
+    webhookUrl: rule?.webhookUrl ?? '',
+    cooldownMinutes: rule?.cooldownMinutes.toString() ?? '60',
+    enabled: rule?.enabled ?? true
+});
+
+const toInput = (draft: RuleDraft): AlertRuleInput => {
+    const parseNumber = (value: string) => value.trim() === '' ? null : Number(value);
+    return {
+        name: draft.name,
+        symbol: draft.symbol,
+        condition: draft.condition,
+        metric: draft.metric,
+        threshold: parseNumber(draft.threshold),
+        windowMinutes: parseNumber(draft.windowMinutes),
+        lookback: draft.lookback,
+        fromSentiment: draft.fromSentiment || null,
+        toSentiment: draft.toSentiment || null,
+        webhookUrl: draft.webhookUrl.trim() || null,
+        cooldownMinutes: parseNumber(draft.cooldownMinutes) ?? 0,
+        enabled: draft.enabled
+    };
+};
+
+/**
+ * One-line summary of a rule's condition, e.g. "OI skew crosses above 1.5"
+ */
+const describeRule = (rule: AlertRule): string => {
+    const metric = getMetricLabel(rule.metric);
+    switch (rule.condition) {
+        case 'crosses_above':
+            return `${metric} crosses above ${rule.threshold}`;
+        case 'crosses_below':
+            return `${metric} crosses below ${rule.threshold}`;
+        case 'change_pct':
+            return `${metric} ${(rule.threshold ?? 0) >= 0 ? 'rises' : 'falls'} ${Math.abs(rule.threshold ?? 0)}% in ${rule.windowMinutes} min`;
+        case 'sentiment_change':
+            return `Sentiment ${rule.fromSentiment ? `leaves ${rule.fromSentiment}` : 'changes'}${rule.toSentiment ? ` to ${rule.toSentiment}` : ''}`;
+        case 'percentile_above':
+            return `${metric} rank ≥ ${rule.threshold}th pct (${rule.lookback})`;
+        case 'percentile_below':
+            return `${metric} rank ≤ ${rule.threshold}th pct (${rule.lookback})`;
+    }
+};
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+    return (
+        <label className="block space-y-1">
+            <span className="text-[10px] uppercase tracking-wide text-white/40">{label}</span>
+            {children}
+        </label>
+    );
+}
+
+function RuleForm({ rule, onSaved, onCancel }: { rule?: AlertRule; onSaved: () => void; onCancel: () => void }) {
+    const [draft, setDraft] = useState<RuleDraft>(() => toDraft(rule));
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const update = <K extends keyof RuleDraft>(key: K, value: RuleDraft[K]) => setDraft(prev => ({ ...prev, [key]: value }));
+
+    const metricOptions = isPercentile(draft.condition)
+        ? ALERT_METRIC_OPTIONS.filter(option => option.rankable)
+        : ALERT_METRIC_OPTIONS;
+
+    const save = async () => {
+        try {
+            setSaving(true);
+            setError(null);
+            const input = toInput(draft);
+            if (rule) {
+                await updateAlertRule(rule.id, input);
+            } else {
+                await createAlertRule(input);
+            }
+            onSaved();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-2 rounded-lg bg-white/5 p-3">
+            <div className="grid grid-cols-[1fr_6rem] gap-2">
+                <Field label="Name">
+                    <input className={INPUT_CLASS} value={draft.name} placeholder="ES OI skew above 1.5" onChange={(e) => update('name', e.target.value)} />
+                </Field>
+                <Field label="Symbol">
+                    <input className={INPUT_CLASS} value={draft.symbol} placeholder="/ES" onChange={(e) => update('symbol', e.target.value.toUpperCase())} />
+                </Field>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                <Field label="Condition">
+                    <select
+                        className={INPUT_CLASS}
+                        value={draft.condition}
+                        onChange={(e) => {
+                            const condition = e.target.value as AlertCondition;
+                            setDraft(prev => ({
+                                ...prev,
+                                condition,
+                                // Only OI skew, pricing skew and implied move have a rank
+                                metric: isPercentile(condition) && !ALERT_METRIC_OPTIONS.find(o => o.value === prev.metric)?.rankable ? 'oiSkew' : prev.metric
+                            }));
+                        }}
+                    >
+                        {ALERT_CONDITION_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </Field>
+                {draft.condition !== 'sentiment_change' && (
+                    <Field label="Metric">
+                        <select className={INPUT_CLASS} value={draft.metric} onChange={(e) => update('metric', e.target.value)}>
+                            {metricOptions.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </Field>
+                )}
+            </div>
+
+            {draft.condition === 'sentiment_change' ? (
+                <div className="grid grid-cols-2 gap-2">
+                    <Field label="From">
+                        <select className={INPUT_CLASS} value={draft.fromSentiment} onChange={(e) => update('fromSentiment', e.target.value)}>
+                            <option value="">Any</option>
+                            {SENTIMENT_LABELS.map(label => <option key={label} value={label}>{label}</option>)}
+                        </select>
+                    </Field>
+                    <Field label="To">
+                        <select className={INPUT_CLASS} value={draft.toSentiment} onChange={(e) => update('toSentiment', e.target.value)}>
+                            <option value="">Any</option>
+                            {SENTIMENT_LABELS.map(label => <option key={label} value={label}>{label}</option>)}
+                        </select>
+                    </Field>
+                </div>
+            ) : (
+                <div className="grid grid-cols-2 gap-2">
+                    <Field label={draft.condition === 'change_pct' ? 'Change % (negative = fall)' : isPercentile(draft.condition) ? 'Percentile (0-100)' : 'Threshold'}>
+                        <input className={INPUT_CLASS} type="number" step="any" value={draft.threshold} onChange={(e) => update('threshold', e.target.value)} />
+                    </Field>
+                    {draft.condition === 'change_pct' && (
+                        <Field label="Window (minutes)">
+                            <input className={INPUT_CLASS} type="number" min={1} value={draft.windowMinutes} onChange={(e) => update('windowMinutes', e.target.value)} />
+                        </Field>
+                    )}
+                    {isPercentile(draft.condition) && (
+                        <Field label="Lookback">
+                            <select className={INPUT_CLASS} value={draft.lookback} onChange={(e) => update('lookback', e.target.value as RankLookback)}>
+                                {RANK_LOOKBACK_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </Field>
+                    )}
+                </div>
+            )}
+
+            <Field label="Webhook URL">
+                <input
+                    className={INPUT_CLASS}
+                    value={draft.webhookUrl}
+                    placeholder="https://hooks.slack.com/... (server default when empty)"
+                    onChange={(e) => update('webhookUrl', e.target.value)}
+                />
+            </Field>
+
+            <div className="grid grid-cols-2 items-end gap-2">
+                <Field label="Cooldown (minutes)">
+                    <input className={INPUT_CLASS} type="number" min={0} value={draft.cooldownMinutes} onChange={(e) => update('cooldownMinutes', e.target.value)} />
+                </Field>
+                <label className="flex items-center gap-2 pb-1 text-xs text-white/70">
+                    <input type="checkbox" checked={draft.enabled} onChange={(e) => update('enabled', e.target.checked)} />
+                    Enabled
+                </label>
+            </div>
+
+            {error && <div className="rounded-md bg-red-500/10 px-2 py-1.5 text-xs text-red-300">{error}</div>}
+
+            <div className="flex justify-end gap-2 pt-1">
+                <button onClick={onCancel} className="rounded-md px-3 py-1 text-xs text-white/50 hover:text-white transition-colors">
+                    Cancel
+                </button>
+                <button
+                    onClick={save}
+                    disabled={saving}
+                    className="rounded-md bg-white/10 px-3 py-1 text-xs font-semibold text-white hover:bg-white/20 disabled:opacity-50 transition-colors"
+                >
+                    {saving ? 'Saving...' : rule ? 'Save rule' : 'Create rule'}
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export function AlertDrawer({ onClose }: AlertDrawerProps) {
+    const [tab, setTab] = useState<AlertTab>('rules');
+    const [rules, setRules] = useState<AlertRule[]>([]);
+    const [deliveries, setDeliveries] = useState<AlertDelivery[]>([]);
+    const [nextCursor, setNextCursor] = useState<number | null>(null);
+    // Rule being edited ('new' for the create form)
+    const [editing, setEditing] = useState<number | 'new' | null>(null);
+    // Delivery log filtered to one rule
+    const [deliveryRuleId, setDeliveryRuleId] = useState<number | undefined>(undefined);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const loadRules = useCallback(async () => {
+        try {
+            setError(null);
+            setRules(await fetchAlertRules());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const loadDeliveries = useCallback(async () => {
+        try {
+            setError(null);
+            const page = await fetchAlertDeliveries(deliveryRuleId);
+            setDeliveries(page.data);
+            setNextCursor(page.nextCursor);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setLoading(false);
+        }
+    }, [deliveryRuleId]);
+
+    useEffect(() => {
+        setLoading(true);
+        if (tab === 'rules') {
+            loadRules();
+        } else {
+            loadDeliveries();
+        }
+    }, [tab, loadRules, loadDeliveries]);
+
+    const loadMore = async () => {
+        if (nextCursor === null) return;
+        try {
+            const page = await fetchAlertDeliveries(deliveryRuleId, nextCursor);
+            setDeliveries(prev => [...prev, ...page.data]);
+            setNextCursor(page.nextCursor);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+    };
+
+    const runAction = async (action: () => Promise<unknown>, message?: string) => {
+        try {
+            setNotice(null);
+            await action();
+            if (message) setNotice(message);
+            await loadRules();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+    };
+
+    const showDeliveries = (ruleId?: number) => {
+        setDeliveryRuleId(ruleId);
+        setTab('deliveries');
+    };
+
+    const ruleNames = new Map(rules.map(rule => [rule.id, rule.name]));
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-end bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+            <div
+                className="flex h-full w-full max-w-md flex-col border-l border-white/10 bg-[#0a0a0a]/95 shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-white/10 px-4 py-3">
+                    <h3 className="text-lg font-bold text-white">Alerts</h3>
+                    <button
+                        onClick={onClose}
+                        className="rounded-full p-2 text-white/40 hover:bg-white/10 hover:text-white transition-colors"
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                {/* Tabs */}
+                <div className="flex items-center gap-1 border-b border-white/10 px-4 py-2">
+                    {(['rules', 'deliveries'] as AlertTab[]).map(key => (
+                        <button
+                            key={key}
+                            onClick={() => key === 'deliveries' ? showDeliveries(undefined) : setTab(key)}
+                            className={`rounded-md px-3 py-1 text-xs capitalize transition-colors ${tab === key ? 'bg-white/10 text-white' : 'text-white/40 hover:text-white'}`}
+                        >
+                            {key}
+                        </button>
+                    ))}
+                    {tab === 'rules' ? (
+                        <button
+                            onClick={() => setEditing('new')}
+                            className="ml-auto rounded-md bg-white/10 px-3 py-1 text-xs font-semibold text-white hover:bg-white/20 transition-colors"
+                        >
+                            New rule
+                        </button>
+                    ) : (
+                        <button
+                            onClick={() => loadDeliveries()}
+                            className="ml-auto rounded-md px-3 py-1 text-xs text-white/40 hover:text-white transition-colors"
+                        >
+                            Refresh
+                        </button>
+                    )}
+                </div>
+
+                <div className="flex-1 space-y-2 overflow-y-auto px-4 py-2">
+                    {notice && <div className="rounded-md bg-sky-500/10 px-2 py-1.5 text-xs text-sky-300">{notice}</div>}
+
+                    {tab === 'rules' && editing === 'new' && (
+                        <RuleForm onSaved={() => { setEditing(null); loadRules(); }} onCancel={() => setEditing(null)} />
+                    )}
+
+                    {loading ? (
+                        <div className="py-8 text-center text-sm text-white/40">Loading...</div>
+                    ) : error ? (
+                        <div className="py-8 text-center text-sm text-red-400">{error}</div>
+                    ) : tab === 'rules' ? (
+                        rules.length === 0 ? (
+                            <div className="py-8 text-center text-sm text-white/40">No alert rules yet</div>
+                        ) : (
+                            <ul className="space-y-1">
+                                {rules.map(rule => editing === rule.id ? (
+                                    <li key={rule.id}>
+                                        <RuleForm rule={rule} onSaved={() => { setEditing(null); loadRules(); }} onCancel={() => setEditing(null)} />
+                                    </li>
+                                ) : (
+                                    <li key={rule.id} className="rounded-md px-2 py-1.5 text-xs hover:bg-white/5">
+                                        <div className="flex items-center gap-2">
+                                            <input
+                                                type="checkbox"
+                                                checked={rule.enabled}
+                                                title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                                                onChange={(e) => runAction(() => updateAlertRule(rule.id, { enabled: e.target.checked }))}
+                                            />
+                                            <span className="w-14 font-semibold text-white">{rule.symbol}</span>
+                                            <span className={`truncate ${rule.enabled ? 'text-white/80' : 'text-white/30'}`}>{rule.name}</span>
+                                            {rule.active && (
+                                                <span className="rounded bg-amber-500/15 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-amber-400" title="Condition held at the last snapshot">
+                                                    active
+                                                </span>
+                                            )}
+                                        </div>
+                                        <div className="mt-1 flex items-center gap-2 pl-6 text-white/40">
+                                            <span className="truncate">{describeRule(rule)}</span>
+                                            <span className="ml-auto shrink-0 font-mono">
+                                                {rule.lastTriggeredAt ? format(new Date(rule.lastTriggeredAt), 'MM/dd HH:mm') : 'never fired'}
+                                            </span>
+                                        </div>
+                                        <div className="mt-1 flex gap-3 pl-6">
+                                            <button className="text-white/40 hover:text-white transition-colors" onClick={() => setEditing(rule.id)}>Edit</button>
+                                            <button
+                                                className="text-white/40 hover:text-white transition-colors"
+                                                onClick={() => runAction(() => testAlertRule(rule.id), `Test alert sent for "${rule.name}", see Deliveries`)}
+                                            >
+                                                Test
+                                            </button>
+                                            <button className="text-white/40 hover:text-white transition-colors" onClick={() => showDeliveries(rule.id)}>Deliveries</button>
+                                            <button
+                                                className="ml-auto text-red-400/60 hover:text-red-400 transition-colors"
+                                                onClick={() => {
+                                                    if (window.confirm(`Delete alert rule "${rule.name}" and its delivery log?`)) {
+                                                        runAction(() => deleteAlertRule(rule.id));
+                                                    }
+                                                }}
+                                            >
+                                                Delete
+                                            </button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )
+                    ) : deliveries.length === 0 ? (
+                        <div className="py-8 text-center text-sm text-white/40">No deliveries yet</div>
+                    ) : (
+                        <ul className="space-y-1">
+                            {deliveryRuleId !== undefined && (
+                                <li className="flex items-center gap-2 text-xs text-white/40">
+                                    Rule: <span className="text-white/80">{ruleNames.get(deliveryRuleId) ?? deliveryRuleId}</span>
+                                    <button className="hover:text-white transition-colors" onClick={() => setDeliveryRuleId(undefined)}>Show all</button>
+                                </li>
+                            )}
+                            {deliveries.map(delivery => (
+                                <li key={delivery.id} className="rounded-md px-2 py-1.5 text-xs hover:bg-white/5">
+                                    <div className="flex items-center gap-2">
+                                        <span className={`rounded px-1.5 py-0.5 text-[10px] font-semibold uppercase ${STATUS_STYLES[delivery.status]}`}>
+                                            {delivery.status}
+                                        </span>
+                                        {delivery.snapshotId === null && <span className="text-[10px] uppercase text-white/30">test</span>}
+                                        <span className="w-14 font-semibold text-white">{delivery.symbol}</span>
+                                        <span className="text-white/40">
+                                            {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                                            {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+                                        </span>
+                                        <span className="ml-auto font-mono text-white/40">{format(new Date(delivery.createdAt), 'MM/dd HH:mm:ss')}</span>
+                                    </div>
+                                    <div className="mt-1 text-white/70">{delivery.message}</div>
+                                    {delivery.error && (
+                                        <div className="mt-1 font-mono text-red-300 break-words">{delivery.error}</div>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    {!loading && tab === 'deliveries' && nextCursor !== null && (
+                        <button
+                            onClick={loadMore}
+                            className="mt-2 w-full rounded-md bg-white/5 py-1.5 text-xs text-white/40 hover:text-white transition-colors"
+                        >
+                            Load older deliveries
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,4 +1,7 @@
-import type { SkewResult } from '../services/tasty';
+import { useEffect, useState } from 'react';
+import { formatDistanceStrict } from 'date-fns';
+import { formatDeltaBand, getSkewVariantValue, SKEW_VARIANTS, RANK_LOOKBACK_OPTIONS } from '../services/tasty';
+import type { MetricRank, SessionState, SkewRank, SkewResult, SkewVariant } from '../services/tasty';
 
 export type AssetStatus = 'idle' | 'pending' | 'calculating' | 'phase1' | 'phase2' | 'cached' | 'complete' | 'error';
 
@@ -6,14 +9,27 @@ export interface AssetState {
     status: AssetStatus;
     result?: SkewResult;
     error?: string;
+    // Percent of symbols reported in the current phase
+    coverage?: number;
+    // Served from an expired cache entry; refreshing while the server recalculates it
+    stale?: boolean;
+    refreshing?: boolean;
+    // Trading session of the symbol's market
+    session?: SessionState;
+    // Current readings ranked against the symbol's history
+    rank?: SkewRank | null;
 }
 
 interface AssetCardProps {
     symbol: string;
     description?: string;
     state: AssetState;
+    // Skew variant that drives the colour and sentiment
+    variant?: SkewVariant;
     onRetry?: () => void;
     onShowChart?: () => void;
+    // Open the calculation run log for this symbol
+    onShowRuns?: () => void;
 }
 
 const getSkewColor = (skew: number): string => {
@@ -65,13 +81,58 @@ const getCombinedSentiment = (oiSkew: number, priceSkew: number | null): { label
     return { label: 'Extr. Bearish', color: '#7f1d1d' };
 };
 
-const getStatusText = (status: AssetStatus): string => {
+// Format decimal IV difference in vol points, e.g. -0.0235 -> "-2.35"
+const formatVolPoints = (value: number | null): string => {
+    if (value === null || value === undefined) return 'N/A';
+    const points = value * 100;
+    return `${points > 0 ? '+' : ''}${points.toFixed(2)}`;
+};
+
+// Rank colours run from low (green) to high (red), like the skew scale
+const getRankColor = (percentile: number): string => {
+    if (percentile < 10) return '#22c55e';
+    if (percentile < 30) return '#86efac';
+    if (percentile < 70) return '#facc15';
+    if (percentile < 90) return '#f97316';
+    return '#ef4444';
+};
+
+const formatZScore = (rank: MetricRank): string =>
+    rank.zScore !== null ? `${rank.zScore > 0 ? '+' : ''}${rank.zScore.toFixed(2)}σ` : 'N/A';
+
+const describeRank = (label: string, rank: MetricRank | null): string =>
+    rank
+        ? `${label}: ${Math.round(rank.percentile)}th percentile, z ${formatZScore(rank)} (mean ${rank.mean.toFixed(4)} over ${rank.samples} days)`
+        : `${label}: not enough history`;
+
+// Re-render every 30s so the data age stays current
+const AGE_TICK_MS = 30 * 1000;
+
+const useNow = (): number => {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), AGE_TICK_MS);
+        return () => clearInterval(timer);
+    }, []);
+
+    return now;
+};
+
+const SESSION_LABELS: Record<SessionState, string> = {
+    open: 'market open',
+    pre: 'pre-market',
+    closed: 'market closed'
+};
+
+const getStatusText = (status: AssetStatus, coverage?: number): string => {
+    const progress = coverage !== undefined ? ` ${Math.round(coverage)}%` : '';
     switch (status) {
         case 'idle': return 'Not calculated';
         case 'pending': return 'Queued...';
         case 'calculating': return 'Starting...';
-        case 'phase1': return 'Collecting deltas...';
-        case 'phase2': return 'Collecting OI...';
+        case 'phase1': return `Collecting deltas...${progress}`;
+        case 'phase2': return `Collecting OI...${progress}`;
         case 'cached': return 'From cache';
         case 'complete': return '';
         case 'error': return 'Error';
@@ -79,8 +140,11 @@ const getStatusText = (status: AssetStatus): string => {
     }
 };
 
-export function AssetCard({ symbol, description, state, onRetry, onShowChart }: AssetCardProps) {
-    const { status, result, error } = state;
+export function AssetCard({ symbol, description, state, variant = 'oi', onRetry, onShowChart, onShowRuns }: AssetCardProps) {
+    const { status, result, error, coverage, stale, refreshing, session, rank } = state;
+    const now = useNow();
+    const variantInfo = SKEW_VARIANTS.find(v => v.key === variant) ?? SKEW_VARIANTS[0];
+    const variantSkew = result ? getSkewVariantValue(result, variant) : 0;
     const isLoading = ['pending', 'calculating', 'phase1', 'phase2'].includes(status);
     const isComplete = status === 'complete' || status === 'cached';
     const isError = status === 'error';
@@ -122,7 +186,7 @@ export function AssetCard({ symbol, description, state, onRetry, onShowChart }:
                 <>
                     <div
                         className="asset-card__skew-row"
-                        title="OI Skew: Put Open Interest / Call Open Interest (10-30 delta options)"
+                        title={`OI Skew: Put Open Interest / Call Open Interest (${formatDeltaBand(result)} delta options)`}
                     >
                         <span className="asset-card__skew-label">OI</span>
                         <span
@@ -132,9 +196,23 @@ export function AssetCard({ symbol, description, state, onRetry, onShowChart }:
                             {result.skew.toFixed(4)}
                         </span>
                     </div>
+                    {variant !== 'oi' && (
+                        <div
+                            className="asset-card__skew-row"
+                            title={`${variantInfo.label} Skew: ${variantInfo.description} (${formatDeltaBand(result)} delta options)`}
+                        >
+                            <span className="asset-card__skew-label">{variantInfo.short}</span>
+                            <span
+                                className="asset-card__skew-value"
+                                style={{ color: getSkewColor(variantSkew) }}
+                            >
+                                {variantSkew.toFixed(4)}
+                            </span>
+                        </div>
+                    )}
                     <div
                         className="asset-card__skew-row"
-                        title="Price Skew: Avg Put Mid Price / Avg Call Mid Price (10-30 delta options)"
+                        title={`Price Skew: Avg Put Mid Price / Avg Call Mid Price (${formatDeltaBand(result)} delta options)`}
                     >
                         <span className="asset-card__skew-label">PR</span>
                         <span
@@ -144,6 +222,20 @@ export function AssetCard({ symbol, description, state, onRetry, onShowChart }:
                             {result.pricingSkew?.toFixed(4) || 'N/A'}
                         </span>
                     </div>
+                    {result.volumeSkew != null && (
+                        <div
+                            className="asset-card__skew-row"
+                            title={`Volume Skew: Put Day Volume / Call Day Volume (${formatDeltaBand(result)} delta options, ${result.putVolume.toLocaleString()} / ${result.callVolume.toLocaleString()})`}
+                        >
+                            <span className="asset-card__skew-label">VOL</span>
+                            <span
+                                className="asset-card__skew-value"
+                                style={{ color: getSkewColor(result.volumeSkew) }}
+                            >
+                                {result.volumeSkew.toFixed(4)}
+                            </span>
+                        </div>
+                    )}
                     {result.impliedMove !== null && (
                         <div className="asset-card__skew-row" title="Implied Move (approx. 1 std dev)">
                             <span className="asset-card__skew-label">MOVE</span>
@@ -155,14 +247,59 @@ export function AssetCard({ symbol, description, state, onRetry, onShowChart }:
 
                     <div
                         className="asset-card__sentiment"
-                        style={{ color: getCombinedSentiment(result.skew, result.pricingSkew).color }}
+                        style={{ color: getCombinedSentiment(variantSkew, result.pricingSkew).color }}
                     >
-                        {getCombinedSentiment(result.skew, result.pricingSkew).label}
+                        {getCombinedSentiment(variantSkew, result.pricingSkew).label}
                     </div>
 
+                    {(result.riskReversal25 != null || result.atmIv != null) && (
+                        <div className="asset-card__vol-metrics">
+                            <span title="25Δ Risk Reversal: 25Δ call IV - 25Δ put IV (vol points)">
+                                RR25 <b style={{ color: (result.riskReversal25 ?? 0) < 0 ? '#f87171' : '#4ade80' }}>{formatVolPoints(result.riskReversal25)}</b>
+                            </span>
+                            <span title="25Δ Butterfly: avg of 25Δ call/put IV - ATM IV (vol points)">
+                                BF25 <b>{formatVolPoints(result.butterfly25)}</b>
+                            </span>
+                            <span title="10Δ Risk Reversal: 10Δ call IV - 10Δ put IV (vol points)">
+                                RR10 <b>{formatVolPoints(result.riskReversal10)}</b>
+                            </span>
+                            <span title="At-the-money implied volatility">
+                                ATM <b>{result.atmIv != null ? `${(result.atmIv * 100).toFixed(1)}%` : 'N/A'}</b>
+                            </span>
+                        </div>
+                    )}
+
+                    {rank?.oiSkew && (
+                        <div
+                            className="asset-card__rank"
+                            title={[
+                                `Skew rank vs. the last ${RANK_LOOKBACK_OPTIONS.find(o => o.value === rank.lookback)?.label ?? rank.lookback} of daily closes`,
+                                describeRank('OI skew', rank.oiSkew),
+                                describeRank('Pricing skew', rank.pricingSkew),
+                                describeRank('Implied move', rank.impliedMove)
+                            ].join('\n')}
+                        >
+                            Skew rank <b style={{ color: getRankColor(rank.oiSkew.percentile) }}>{Math.round(rank.oiSkew.percentile)}</b>
+                            <span>{formatZScore(rank.oiSkew)}</span>
+                            {rank.pricingSkew && <span>PR {Math.round(rank.pricingSkew.percentile)}</span>}
+                            {rank.impliedMove && <span>MOVE {Math.round(rank.impliedMove.percentile)}</span>}
+                        </div>
+                    )}
+
                     {result.dte !== undefined && (
                         <div className="asset-card__dte">
-                            DTE: {result.dte}
+                            DTE: {result.dte}{result.underlyingSymbol && ` · ${result.underlyingSymbol}`}
+                        </div>
+                    )}
+
+                    {result.calculatedAt && (
+                        <div
+                            className={`asset-card__age ${stale ? 'asset-card__age--stale' : ''}`}
+                            title={`Calculated ${new Date(result.calculatedAt).toLocaleString()}`}
+                        >
+                            Updated {formatDistanceStrict(new Date(result.calculatedAt), now, { addSuffix: true })}
+                            {stale && (refreshing ? ' · refreshing...' : ' · stale')}
+                            {session && session !== 'open' && ` · ${SESSION_LABELS[session]}`}
                         </div>
                     )}
                 </>
@@ -171,7 +308,7 @@ export function AssetCard({ symbol, description, state, onRetry, onShowChart }:
             {isLoading && (
                 <div className="asset-card__loading">
                     <div className="asset-card__spinner"></div>
-                    <div>{getStatusText(status)}</div>
+                    <div>{getStatusText(status, coverage)}</div>
                 </div>
             )}
 
@@ -184,17 +321,31 @@ export function AssetCard({ symbol, description, state, onRetry, onShowChart }:
             {isError && (
                 <div className="asset-card__error-container">
                     <div className="asset-card__error-msg">{error || 'Failed to calculate'}</div>
-                    {onRetry && (
-                        <button
-                            className="asset-card__retry-btn"
-                            onClick={(e) => {
-                                e.stopPropagation();
-                                onRetry();
-                            }}
-                        >
-                            Retry
-                        </button>
-                    )}
+                    <div className="asset-card__error-actions">
+                        {onRetry && (
+                            <button
+                                className="asset-card__retry-btn"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onRetry();
+                                }}
+                            >
+                                Retry
+                            </button>
+                        )}
+                        {onShowRuns && (
+                            <button
+                                className="asset-card__details-btn"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onShowRuns();
+                                }}
+                                title="Phase timings, coverage and errors of recent runs"
+                            >
+                                Details
+                            </button>
+                        )}
+                    </div>
                 </div>
             )}
         </div>
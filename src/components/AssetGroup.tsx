@@ -1,17 +1,20 @@
 import { AssetCard, type AssetState } from './AssetCard';
+import type { SkewVariant } from '../services/tasty';
 
 interface AssetGroupProps {
     name: string;
     symbols: readonly string[];
     descriptions: Record<string, string>;
     states: Record<string, AssetState>;
+    variant: SkewVariant;
     onRefresh: () => void;
     onRetrySymbol: (symbol: string) => void;
     onShowChart: (symbol: string) => void;
+    onShowRuns: (symbol: string) => void;
     isRefreshing: boolean;
 }
 
-export function AssetGroup({ name, symbols, descriptions, states, onRefresh, onRetrySymbol, onShowChart, isRefreshing }: AssetGroupProps) {
+export function AssetGroup({ name, symbols, descriptions, states, variant, onRefresh, onRetrySymbol, onShowChart, onShowRuns, isRefreshing }: AssetGroupProps) {
     return (
         <div className="asset-group">
             <div className="asset-group__header">
@@ -46,8 +49,10 @@ export function AssetGroup({ name, symbols, descriptions, states, onRefresh, onR
                         symbol={symbol}
                         description={descriptions[symbol]}
                         state={states[symbol] || { status: 'idle' }}
+                        variant={variant}
                         onRetry={() => onRetrySymbol(symbol)}
                         onShowChart={() => onShowChart(symbol)}
+                        onShowRuns={() => onShowRuns(symbol)}
                     />
                 ))}
             </div>
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import {
+    BarChart,
+    Bar,
+    Cell,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    ResponsiveContainer,
+    ReferenceLine
+} from 'recharts';
+import { fetchGex } from '../services/tasty';
+import type { GexResult, ExpirationTypeFilter } from '../services/tasty';
+
+interface GexChartProps {
+    symbol: string;
+    targetDte?: number;
+    expirationType?: ExpirationTypeFilter;
+    expirationDate?: string;
+    onClose: () => void;
+}
+
+const compact = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 });
+const formatGex = (value: number) => compact.format(value);
+
+export function GexChart({ symbol, targetDte, expirationType, expirationDate, onClose }: GexChartProps) {
+    const [gex, setGex] = useState<GexResult | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchData = async () => {
+            try {
+                setLoading(true);
+                setError(null);
+                setGex(await fetchGex(symbol, { targetDte, expirationType, expirationDate }));
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Unknown error');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchData();
+    }, [symbol, targetDte, expirationType, expirationDate]);
+
+    if (loading) {
+        return (
+            <div className="flex h-64 w-full items-center justify-center rounded-2xl bg-black/40 backdrop-blur-md">
+                <div className="flex items-center gap-2 text-white/60">
+                    <svg className="h-5 w-5 animate-spin" viewBox="0 0 24 24" fill="none">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                    </svg>
+                    <span>Collecting gamma and OI...</span>
+                </div>
+            </div>
+        );
+    }
+
+    if (error || !gex || gex.strikes.length === 0) {
+        return (
+            <div className="flex h-64 w-full items-center justify-center rounded-2xl bg-black/40 backdrop-blur-md">
+                <div className="text-center">
+                    <p className="text-red-400 mb-2">{error || 'No GEX data available'}</p>
+                    <button onClick={onClose} className="text-xs text-white/40 hover:text-white underline">
+                        Close
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="relative w-full overflow-hidden rounded-2xl bg-[#0a0a0a]/95 border border-white/10 p-4 shadow-2xl backdrop-blur-xl animate-in zoom-in-95 duration-200">
+            {/* Header */}
+            <div className="flex items-center justify-between mb-4 px-2">
+                <div>
+                    <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                        {symbol} <span className="text-xs font-normal text-white/40 bg-white/5 px-2 py-0.5 rounded-full">Gamma Exposure</span>
+                        <span className="text-xs font-normal text-white/40 bg-white/5 px-2 py-0.5 rounded-full">
+                            {gex.expirationDate} · {gex.dte} DTE
+                        </span>
+                    </h3>
+                    <div className="mt-1 flex gap-4 text-xs text-white/50">
+                        <span>
+                            Total <b className={gex.totalGex >= 0 ? 'text-emerald-400' : 'text-red-400'}>{formatGex(gex.totalGex)}</b>
+                        </span>
+                        <span>
+                            Flip <b className="text-amber-400">{gex.gammaFlip !== null ? gex.gammaFlip.toFixed(2) : 'N/A'}</b>
+                        </span>
+                        <span>
+                            {gex.underlyingSymbol} <b className="text-white/80">{gex.underlyingPrice}</b>
+                        </span>
+                    </div>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="rounded-full p-2 text-white/40 hover:bg-white/10 hover:text-white transition-colors"
+                >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                </button>
+            </div>
+
+            {/* Chart */}
+            <div className="h-[300px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={gex.strikes}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+                        <XAxis
+                            dataKey="strike"
+                            type="number"
+                            domain={['dataMin', 'dataMax']}
+                            stroke="rgba(255,255,255,0.2)"
+                            tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 10 }}
+                        />
+
+                        <YAxis
+                            stroke="rgba(255,255,255,0.2)"
+                            tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 10 }}
+                            tickFormatter={formatGex}
+                        />
+
+                        <Tooltip
+                            contentStyle={{
+                                backgroundColor: '#171717',
+                                border: '1px solid rgba(255,255,255,0.1)',
+                                borderRadius: '8px',
+                                boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.5)'
+                            }}
+                            cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                            labelFormatter={(val) => `Strike ${val}`}
+                            formatter={(val) => typeof val === 'number' ? formatGex(val) : val}
+                            itemStyle={{ fontSize: '12px' }}
+                        />
+
+                        <ReferenceLine y={0} stroke="rgba(255,255,255,0.2)" />
+                        <ReferenceLine
+                            x={gex.underlyingPrice}
+                            stroke="#38bdf8"
+                            strokeDasharray="4 4"
+                            label={{ value: 'Spot', fill: '#38bdf8', fontSize: 10, position: 'top' }}
+                        />
+                        {gex.gammaFlip !== null && (
+                            <ReferenceLine
+                                x={gex.gammaFlip}
+                                stroke="#f59e0b"
+                                strokeDasharray="4 4"
+                                label={{ value: 'Flip', fill: '#f59e0b', fontSize: 10, position: 'top' }}
+                            />
+                        )}
+
+                        <Bar dataKey="netGex" name="Net GEX">
+                            {gex.strikes.map(s => (
+                                <Cell key={s.strike} fill={s.netGex >= 0 ? '#10b981' : '#ef4444'} />
+                            ))}
+                        </Bar>
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+}
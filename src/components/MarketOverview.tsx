@@ -1,23 +1,34 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { getMarketStatus, streamBatchCalculation } from '../services/tasty';
-import type { AssetGroups, BatchProgressEvent, SkewResult } from '../services/tasty';
+import { getMarketStatus, streamBatchCalculation, DEFAULT_RANK_LOOKBACK, RANK_LOOKBACK_OPTIONS } from '../services/tasty';
+import type { AssetGroups, BatchProgressDetails, BatchProgressEvent, RankLookback, SkewResult, SkewVariant } from '../services/tasty';
 import { AssetGroup } from './AssetGroup';
+import { SchedulerControls } from './SchedulerControls';
+import { RunDrawer } from './RunDrawer';
+import { AlertDrawer } from './AlertDrawer';
 import type { AssetState, AssetStatus } from './AssetCard';
 
-type GroupKey = 'fx' | 'indices' | 'bonds' | 'crypto';
+// How often to check on results the server is refreshing in the background
+const REFRESH_POLL_MS = 5 * 1000;
 
 interface MarketOverviewProps {
     serverOnline: boolean | null;
+    skewVariant: SkewVariant;
     onShowChart: (symbol: string) => void;
 }
 
-export function MarketOverview({ serverOnline, onShowChart }: MarketOverviewProps) {
+export function MarketOverview({ serverOnline, skewVariant, onShowChart }: MarketOverviewProps) {
     const [groups, setGroups] = useState<AssetGroups | null>(null);
     const [descriptions, setDescriptions] = useState<Record<string, string>>({});
     const [assetStates, setAssetStates] = useState<Record<string, AssetState>>({});
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [calculatingSymbols, setCalculatingSymbols] = useState<Set<string>>(new Set());
+    // Run log drawer, optionally filtered to one symbol
+    const [runsDrawer, setRunsDrawer] = useState<{ symbol: string | null } | null>(null);
+    const [showAlerts, setShowAlerts] = useState(false);
+    const [rankLookback, setRankLookback] = useState<RankLookback>(DEFAULT_RANK_LOOKBACK);
+    // Read by callbacks that outlive a lookback change (batch completion, polling)
+    const rankLookbackRef = useRef<RankLookback>(DEFAULT_RANK_LOOKBACK);
     const cleanupRef = useRef<(() => void) | null>(null);
     const initialLoadDoneRef = useRef(false);
 
@@ -27,6 +38,7 @@ export function MarketOverview({ serverOnline, onShowChart }: MarketOverviewProp
     }, [calculatingSymbols]);
 
     const isAnyRefreshing = calculatingSymbols.size > 0;
+    const isServerRefreshing = Object.values(assetStates).some(state => state.refreshing);
 
     // Update a single asset's state
     const updateAssetState = useCallback((symbol: string, update: Partial<AssetState>) => {
@@ -36,6 +48,28 @@ export function MarketOverview({ serverOnline, onShowChart }: MarketOverviewProp
         }));
     }, []);
 
+    // Re-rank every symbol against its history (after new results or a lookback change)
+    const loadRanks = useCallback(async () => {
+        try {
+            const response = await getMarketStatus(rankLookbackRef.current);
+            setAssetStates(prev => {
+                const next = { ...prev };
+                for (const [symbol, { rank }] of Object.entries(response.status)) {
+                    if (next[symbol]) next[symbol] = { ...next[symbol], rank };
+                }
+                return next;
+            });
+        } catch (err) {
+            console.error('Failed to load skew ranks:', err);
+        }
+    }, []);
+
+    const changeRankLookback = useCallback((lookback: RankLookback) => {
+        rankLookbackRef.current = lookback;
+        setRankLookback(lookback);
+        loadRanks();
+    }, [loadRanks]);
+
     // Handle batch progress events
     const handleBatchProgress = useCallback((event: BatchProgressEvent) => {
         if (event.type === 'progress' && event.symbol) {
@@ -44,7 +78,8 @@ export function MarketOverview({ serverOnline, onShowChart }: MarketOverviewProp
                 updateAssetState(event.symbol, {
                     status,
                     result: event.data as SkewResult,
-                    error: undefined
+                    error: undefined,
+                    stale: false
                 });
                 // Remove from calculating set
                 setCalculatingSymbols(prev => {
@@ -55,7 +90,7 @@ export function MarketOverview({ serverOnline, onShowChart }: MarketOverviewProp
             } else if (status === 'error') {
                 updateAssetState(event.symbol, {
                     status: 'error',
-                    error: event.data?.error || 'Unknown error'
+                    error: (event.data as BatchProgressDetails | undefined)?.error || 'Unknown error'
                 });
                 // Remove from calculating set
                 setCalculatingSymbols(prev => {
@@ -64,7 +99,7 @@ export function MarketOverview({ serverOnline, onShowChart }: MarketOverviewProp
                     return next;
                 });
             } else {
-                updateAssetState(event.symbol, { status });
+                updateAssetState(event.symbol, { status, coverage: (event.data as BatchProgressDetails | undefined)?.coverage?.percent });
             }
         }
     }, [updateAssetState]);
@@ -81,7 +116,7 @@ export function MarketOverview({ serverOnline, onShowChart }: MarketOverviewProp
 
         // Set all symbols to pending and add to calculating set
         symbols.forEach(symbol => {
-            updateAssetState(symbol, { status: 'pending' });
+            updateAssetState(symbol, { status: 'pending', refreshing: false });
         });
         setCalculatingSymbols(prev => new Set([...prev, ...symbols]));
 
@@ -90,6 +125,7 @@ export function MarketOverview({ serverOnline, onShowChart }: MarketOverviewProp
             handleBatchProgress,
             () => {
                 cleanupRef.current = null;
+                loadRanks();
             },
             (error) => {
                 console.error('Batch calculation error:', error);
@@ -102,11 +138,11 @@ export function MarketOverview({ serverOnline, onShowChart }: MarketOverviewProp
                 cleanupRef.current = null;
             }
         );
-    }, [handleBatchProgress, updateAssetState]);
+    }, [handleBatchProgress, updateAssetState, loadRanks]);
 
     // Refresh a specific group
-    const refreshGroup = useCallback((groupKey: GroupKey) => {
-        if (!groups) return;
+    const refreshGroup = useCallback((groupKey: string) => {
+        if (!groups?.[groupKey]) return;
         const symbols = [...groups[groupKey].symbols];
         startBatchCalculation(symbols);
     }, [groups, startBatchCalculation]);
@@ -133,7 +169,7 @@ export function MarketOverview({ serverOnline, onShowChart }: MarketOverviewProp
                 setIsLoading(true);
                 setError(null);
 
-                const response = await getMarketStatus();
+                const response = await getMarketStatus(rankLookbackRef.current);
                 setGroups(response.groups);
                 setDescriptions(response.descriptions);
 
@@ -141,14 +177,19 @@ export function MarketOverview({ serverOnline, onShowChart }: MarketOverviewProp
                 const initialStates: Record<string, AssetState> = {};
                 const uncachedSymbols: string[] = [];
 
-                for (const [symbol, { cached, data }] of Object.entries(response.status)) {
+                for (const [symbol, { cached, stale, refreshing, session, rank, data }] of Object.entries(response.status)) {
+                    // Stale results are shown as-is while the server refreshes them
                     if (cached && data) {
                         initialStates[symbol] = {
                             status: 'cached',
-                            result: data
+                            result: data,
+                            stale,
+                            refreshing,
+                            session,
+                            rank
                         };
                     } else {
-                        initialStates[symbol] = { status: 'idle' };
+                        initialStates[symbol] = { status: 'idle', session };
                         uncachedSymbols.push(symbol);
                     }
                 }
@@ -181,6 +222,32 @@ export function MarketOverview({ serverOnline, onShowChart }: MarketOverviewProp
         };
     }, [serverOnline, startBatchCalculation]);
 
+    // Poll while the server refreshes stale results in the background
+    useEffect(() => {
+        if (!isServerRefreshing) return;
+
+        const timer = setInterval(async () => {
+            try {
+                const response = await getMarketStatus(rankLookbackRef.current);
+                setAssetStates(prev => {
+                    const next = { ...prev };
+                    for (const [symbol, { stale, refreshing, session, rank, data }] of Object.entries(response.status)) {
+                        // Only settle symbols still waiting on the server (not re-queued by a batch)
+                        if (!prev[symbol]?.refreshing || refreshing) continue;
+                        next[symbol] = data
+                            ? { status: 'cached', result: data, stale, refreshing: false, session, rank }
+                            : { status: 'idle', session };
+                    }
+                    return next;
+                });
+            } catch (err) {
+                console.error('Failed to poll market status:', err);
+            }
+        }, REFRESH_POLL_MS);
+
+        return () => clearInterval(timer);
+    }, [isServerRefreshing]);
+
     if (serverOnline === false) {
         return (
             <div className="market-overview">
@@ -219,40 +286,75 @@ export function MarketOverview({ serverOnline, onShowChart }: MarketOverviewProp
         <div className="market-overview">
             <div className="market-overview__header">
                 <h1 className="market-overview__title">Market Overview</h1>
-                <button
-                    className="btn-gradient market-overview__refresh-all"
-                    onClick={refreshAll}
-                    disabled={isAnyRefreshing}
-                >
-                    {isAnyRefreshing ? (
-                        <>
-                            <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                            </svg>
-                            <span>Refreshing...</span>
-                        </>
-                    ) : (
-                        'Refresh All'
-                    )}
-                </button>
+                <div className="market-overview__actions">
+                    <SchedulerControls />
+                    <button
+                        className="variant-select"
+                        onClick={() => setRunsDrawer({ symbol: null })}
+                        title="Calculation run log (timings, coverage, errors)"
+                    >
+                        Runs
+                    </button>
+                    <button
+                        className="variant-select"
+                        onClick={() => setShowAlerts(true)}
+                        title="Alert rules and webhook deliveries"
+                    >
+                        Alerts
+                    </button>
+                    <select
+                        className="variant-select"
+                        value={rankLookback}
+                        onChange={(e) => changeRankLookback(e.target.value as RankLookback)}
+                        title="Lookback for the skew rank (percentile of daily closes)"
+                    >
+                        {RANK_LOOKBACK_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>Rank {option.label}</option>
+                        ))}
+                    </select>
+                    <button
+                        className="btn-gradient market-overview__refresh-all"
+                        onClick={refreshAll}
+                        disabled={isAnyRefreshing}
+                    >
+                        {isAnyRefreshing ? (
+                            <>
+                                <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                </svg>
+                                <span>Refreshing...</span>
+                            </>
+                        ) : (
+                            'Refresh All'
+                        )}
+                    </button>
+                </div>
             </div>
 
             <div className="market-overview__groups">
-                {(Object.entries(groups) as [GroupKey, typeof groups.fx][]).map(([key, group]) => (
+                {Object.entries(groups).map(([key, group]) => (
                     <AssetGroup
                         key={key}
                         name={group.name}
                         symbols={group.symbols}
                         descriptions={descriptions}
                         states={assetStates}
+                        variant={skewVariant}
                         onRefresh={() => refreshGroup(key)}
                         onRetrySymbol={retrySymbol}
                         onShowChart={onShowChart}
+                        onShowRuns={(symbol) => setRunsDrawer({ symbol })}
                         isRefreshing={isGroupRefreshing(group.symbols)}
                     />
                 ))}
             </div>
+
+            {runsDrawer && (
+                <RunDrawer symbol={runsDrawer.symbol} onClose={() => setRunsDrawer(null)} />
+            )}
+
+            {showAlerts && <AlertDrawer onClose={() => setShowAlerts(false)} />}
         </div>
     );
 }
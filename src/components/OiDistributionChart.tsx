@@ -0,0 +1,185 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+    BarChart,
+    Bar,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    ResponsiveContainer,
+    ReferenceLine,
+    Legend
+} from 'recharts';
+import { fetchOiDistribution } from '../services/tasty';
+import type { OiDistributionResult, ExpirationTypeFilter } from '../services/tasty';
+
+interface OiDistributionChartProps {
+    symbol: string;
+    targetDte?: number;
+    expirationType?: ExpirationTypeFilter;
+    expirationDate?: string;
+    onClose: () => void;
+}
+
+const compact = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 });
+
+export function OiDistributionChart({ symbol, targetDte, expirationType, expirationDate, onClose }: OiDistributionChartProps) {
+    const [distribution, setDistribution] = useState<OiDistributionResult | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchData = async () => {
+            try {
+                setLoading(true);
+                setError(null);
+                setDistribution(await fetchOiDistribution(symbol, { targetDte, expirationType, expirationDate }));
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Unknown error');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchData();
+    }, [symbol, targetDte, expirationType, expirationDate]);
+
+    // Mirrored histogram: calls above zero, puts below
+    const data = useMemo(() => (distribution?.strikes ?? []).map(s => ({
+        strike: s.strike,
+        callOi: s.callOi,
+        putOi: -s.putOi,
+        putCallRatio: s.putCallRatio
+    })), [distribution]);
+
+    if (loading) {
+        return (
+            <div className="flex h-64 w-full items-center justify-center rounded-2xl bg-black/40 backdrop-blur-md">
+                <div className="flex items-center gap-2 text-white/60">
+                    <svg className="h-5 w-5 animate-spin" viewBox="0 0 24 24" fill="none">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                    </svg>
+                    <span>Collecting open interest...</span>
+                </div>
+            </div>
+        );
+    }
+
+    if (error || !distribution || distribution.strikes.length === 0) {
+        return (
+            <div className="flex h-64 w-full items-center justify-center rounded-2xl bg-black/40 backdrop-blur-md">
+                <div className="text-center">
+                    <p className="text-red-400 mb-2">{error || 'No open interest data available'}</p>
+                    <button onClick={onClose} className="text-xs text-white/40 hover:text-white underline">
+                        Close
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="relative w-full overflow-hidden rounded-2xl bg-[#0a0a0a]/95 border border-white/10 p-4 shadow-2xl backdrop-blur-xl animate-in zoom-in-95 duration-200">
+            {/* Header */}
+            <div className="flex items-center justify-between mb-4 px-2">
+                <div>
+                    <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                        {symbol} <span className="text-xs font-normal text-white/40 bg-white/5 px-2 py-0.5 rounded-full">OI by Strike</span>
+                        <span className="text-xs font-normal text-white/40 bg-white/5 px-2 py-0.5 rounded-full">
+                            {distribution.expirationDate} · {distribution.dte} DTE
+                        </span>
+                    </h3>
+                    <div className="mt-1 flex flex-wrap gap-4 text-xs text-white/50">
+                        <span>
+                            Max Pain <b className="text-amber-400">{distribution.maxPain ?? 'N/A'}</b>
+                        </span>
+                        <span>
+                            Call Wall <b className="text-blue-400">
+                                {distribution.callWall ? `${distribution.callWall.strike} (${compact.format(distribution.callWall.oi)})` : 'N/A'}
+                            </b>
+                        </span>
+                        <span>
+                            Put Wall <b className="text-emerald-400">
+                                {distribution.putWall ? `${distribution.putWall.strike} (${compact.format(distribution.putWall.oi)})` : 'N/A'}
+                            </b>
+                        </span>
+                        <span>
+                            P/C <b className="text-white/80">{distribution.putCallRatio !== null ? distribution.putCallRatio.toFixed(2) : 'N/A'}</b>
+                        </span>
+                    </div>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="rounded-full p-2 text-white/40 hover:bg-white/10 hover:text-white transition-colors"
+                >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                </button>
+            </div>
+
+            {/* Chart */}
+            <div className="h-[300px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={data} stackOffset="sign">
+                        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+                        <XAxis
+                            dataKey="strike"
+                            type="number"
+                            domain={['dataMin', 'dataMax']}
+                            stroke="rgba(255,255,255,0.2)"
+                            tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 10 }}
+                        />
+
+                        <YAxis
+                            stroke="rgba(255,255,255,0.2)"
+                            tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 10 }}
+                            tickFormatter={(val) => compact.format(Math.abs(val))}
+                        />
+
+                        <Tooltip
+                            contentStyle={{
+                                backgroundColor: '#171717',
+                                border: '1px solid rgba(255,255,255,0.1)',
+                                borderRadius: '8px',
+                                boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.5)'
+                            }}
+                            cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                            labelFormatter={(val) => {
+                                const point = data.find(d => d.strike === val);
+                                const ratio = point?.putCallRatio != null ? ` · P/C ${point.putCallRatio.toFixed(2)}` : '';
+                                return `Strike ${val}${ratio}`;
+                            }}
+                            formatter={(val) => typeof val === 'number' ? Math.abs(val).toLocaleString() : val}
+                            itemStyle={{ fontSize: '12px' }}
+                        />
+
+                        <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }} />
+
+                        <ReferenceLine y={0} stroke="rgba(255,255,255,0.2)" />
+                        {distribution.underlyingPrice !== null && (
+                            <ReferenceLine
+                                x={distribution.underlyingPrice}
+                                stroke="#38bdf8"
+                                strokeDasharray="4 4"
+                                label={{ value: 'Spot', fill: '#38bdf8', fontSize: 10, position: 'top' }}
+                            />
+                        )}
+                        {distribution.maxPain !== null && (
+                            <ReferenceLine
+                                x={distribution.maxPain}
+                                stroke="#f59e0b"
+                                strokeDasharray="4 4"
+                                label={{ value: 'Max Pain', fill: '#f59e0b', fontSize: 10, position: 'insideTopRight' }}
+                            />
+                        )}
+
+                        <Bar dataKey="callOi" name="Call OI" stackId="oi" fill="#3b82f6" />
+                        <Bar dataKey="putOi" name="Put OI" stackId="oi" fill="#10b981" />
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { fetchRuns, formatDeltaBand } from '../services/tasty';
+import type { CalculationRun, RunFilters, RunStatus, RunTrigger } from '../services/tasty';
+
+interface RunDrawerProps {
+    // Pre-selected symbol filter (all symbols when null)
+    symbol: string | null;
+    onClose: () => void;
+}
+
+const TRIGGER_LABELS: Record<RunTrigger, string> = {
+    ui: 'UI',
+    batch: 'Batch',
+    scheduler: 'Scheduler',
+    revalidate: 'Revalidate'
+};
+
+const STATUS_STYLES: Record<RunStatus, string> = {
+    success: 'bg-green-500/15 text-green-400',
+    error: 'bg-red-500/15 text-red-400',
+    cancelled: 'bg-white/10 text-white/50'
+};
+
+const formatMs = (ms: number | null): string => {
+    if (ms === null) return '—';
+    return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+const formatPercent = (percent: number | null, received?: number | null, total?: number | null): string => {
+    if (percent === null) return '—';
+    const counts = received != null && total != null ? ` (${received}/${total})` : '';
+    return `${percent}%${counts}`;
+};
+
+function RunDetail({ run }: { run: CalculationRun }) {
+    const phases: { label: string; ms: number | null; color: string }[] = [
+        { label: 'Chain', ms: run.chainMs, color: 'bg-sky-500' },
+        { label: 'Phase 1 (Greeks)', ms: run.phase1Ms, color: 'bg-purple-500' },
+        { label: 'Phase 2 (OI, quotes)', ms: run.phase2Ms, color: 'bg-amber-500' }
+    ];
+
+    const rows: [string, string][] = [
+        ['Started', format(new Date(run.startedAt), 'MMM dd, HH:mm:ss')],
+        ['Duration', formatMs(run.durationMs)],
+        ['Expiration', run.expirationDate ? `${run.expirationDate}${run.dte !== null ? ` (${run.dte} DTE)` : ''}` : '—'],
+        ['Params', `${formatDeltaBand(run)}Δ @ ${run.centerDelta} · ${run.targetDte} DTE`],
+        ['Symbols subscribed', run.symbolsSubscribed?.toString() ?? '—'],
+        ['Delta coverage', formatPercent(run.deltaCoverage, run.deltaReceived, run.symbolsSubscribed)],
+        ['OI coverage', formatPercent(run.oiCoverage, run.oiReceived, run.oiSymbols)],
+        ['Quote coverage', formatPercent(run.quoteCoverage)],
+        ['Underlying price', run.underlyingReceived === null ? '—' : run.underlyingReceived ? 'received' : 'missing']
+    ];
+
+    return (
+        <div className="mt-2 space-y-3 rounded-lg bg-white/5 p-3 text-xs">
+            {run.error && (
+                <div className="rounded-md bg-red-500/10 px-2 py-1.5 font-mono text-red-300 break-words">{run.error}</div>
+            )}
+
+            {run.cacheHit ? (
+                <div className="text-white/50">Served from the cache, no calculation ran.</div>
+            ) : (
+                <div className="space-y-1">
+                    {phases.map(phase => (
+                        <div key={phase.label} className="flex items-center gap-2">
+                            <span className="w-32 text-white/40">{phase.label}</span>
+                            <div className="h-1.5 flex-1 rounded-full bg-white/5">
+                                {phase.ms !== null && run.durationMs > 0 && (
+                                    <div
+                                        className={`h-1.5 rounded-full ${phase.color}`}
+                                        style={{ width: `${Math.max(2, (phase.ms / run.durationMs) * 100)}%` }}
+                                    />
+                                )}
+                            </div>
+                            <span className="w-14 text-right font-mono text-white/70">{formatMs(phase.ms)}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                {rows.map(([label, value]) => (
+                    <div key={label} className="contents">
+                        <dt className="text-white/40">{label}</dt>
+                        <dd className="font-mono text-white/80">{value}</dd>
+                    </div>
+                ))}
+            </dl>
+        </div>
+    );
+}
+
+export function RunDrawer({ symbol, onClose }: RunDrawerProps) {
+    const [filters, setFilters] = useState<RunFilters>({ symbol: symbol ?? undefined });
+    const [runs, setRuns] = useState<CalculationRun[]>([]);
+    const [nextCursor, setNextCursor] = useState<number | null>(null);
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const load = async () => {
+            try {
+                setLoading(true);
+                setError(null);
+                const page = await fetchRuns(filters);
+                if (cancelled) return;
+                setRuns(page.data);
+                setNextCursor(page.nextCursor);
+                // Open the latest failure straight away
+                setSelectedId(page.data.find(run => run.status === 'error')?.id ?? null);
+            } catch (err) {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        load();
+        return () => {
+            cancelled = true;
+        };
+    }, [filters]);
+
+    const loadMore = async () => {
+        if (nextCursor === null) return;
+        try {
+            const page = await fetchRuns(filters, nextCursor);
+            setRuns(prev => [...prev, ...page.data]);
+            setNextCursor(page.nextCursor);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-end bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+            <div
+                className="flex h-full w-full max-w-md flex-col border-l border-white/10 bg-[#0a0a0a]/95 shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-white/10 px-4 py-3">
+                    <h3 className="text-lg font-bold text-white">
+                        Calculation Runs
+                        {filters.symbol && <span className="ml-2 text-sm font-normal text-white/40">{filters.symbol}</span>}
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        className="rounded-full p-2 text-white/40 hover:bg-white/10 hover:text-white transition-colors"
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                {/* Filters */}
+                <div className="flex items-center gap-2 border-b border-white/10 px-4 py-2">
+                    <input
+                        className="w-24 rounded-md bg-white/5 px-2 py-1 text-xs text-white placeholder-white/30 outline-none focus:bg-white/10"
+                        placeholder="Symbol"
+                        defaultValue={filters.symbol ?? ''}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                                const value = e.currentTarget.value.trim();
+                                setFilters(prev => ({ ...prev, symbol: value || undefined }));
+                            }
+                        }}
+                        title="Press Enter to filter"
+                    />
+                    <select
+                        className="rounded-md bg-white/5 px-2 py-1 text-xs text-white/80"
+                        value={filters.status ?? ''}
+                        onChange={(e) => setFilters(prev => ({ ...prev, status: (e.target.value || undefined) as RunStatus | undefined }))}
+                    >
+                        <option value="">All statuses</option>
+                        <option value="success">Success</option>
+                        <option value="error">Errors</option>
+                        <option value="cancelled">Cancelled</option>
+                    </select>
+                    <select
+                        className="rounded-md bg-white/5 px-2 py-1 text-xs text-white/80"
+                        value={filters.trigger ?? ''}
+                        onChange={(e) => setFilters(prev => ({ ...prev, trigger: (e.target.value || undefined) as RunTrigger | undefined }))}
+                    >
+                        <option value="">All triggers</option>
+                        {(Object.keys(TRIGGER_LABELS) as RunTrigger[]).map(trigger => (
+                            <option key={trigger} value={trigger}>{TRIGGER_LABELS[trigger]}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {/* Run list */}
+                <div className="flex-1 overflow-y-auto px-4 py-2">
+                    {loading ? (
+                        <div className="py-8 text-center text-sm text-white/40">Loading runs...</div>
+                    ) : error ? (
+                        <div className="py-8 text-center text-sm text-red-400">{error}</div>
+                    ) : runs.length === 0 ? (
+                        <div className="py-8 text-center text-sm text-white/40">No runs recorded</div>
+                    ) : (
+                        <ul className="space-y-1">
+                            {runs.map(run => (
+                                <li key={run.id}>
+                                    <button
+                                        className={`flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-xs transition-colors ${selectedId === run.id ? 'bg-white/10' : 'hover:bg-white/5'}`}
+                                        onClick={() => setSelectedId(id => id === run.id ? null : run.id)}
+                                    >
+                                        <span className={`rounded px-1.5 py-0.5 text-[10px] font-semibold uppercase ${STATUS_STYLES[run.status]}`}>
+                                            {run.cacheHit ? 'cached' : run.status}
+                                        </span>
+                                        <span className="w-14 font-semibold text-white">{run.symbol}</span>
+                                        <span className="text-white/40">{TRIGGER_LABELS[run.trigger]}</span>
+                                        <span className="ml-auto font-mono text-white/40">{format(new Date(run.startedAt), 'MM/dd HH:mm:ss')}</span>
+                                        <span className="w-12 text-right font-mono text-white/60">{formatMs(run.durationMs)}</span>
+                                    </button>
+                                    {selectedId === run.id && <RunDetail run={run} />}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    {!loading && nextCursor !== null && (
+                        <button
+                            onClick={loadMore}
+                            className="mt-2 w-full rounded-md bg-white/5 py-1.5 text-xs text-white/40 hover:text-white transition-colors"
+                        >
+                            Load older runs
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
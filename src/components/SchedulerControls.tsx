@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { controlScheduler, getSchedulerStatus } from '../services/tasty';
+import type { SchedulerStatus } from '../services/tasty';
+
+// Poll faster while a run is in progress
+const IDLE_POLL_MS = 30000;
+const RUNNING_POLL_MS = 3000;
+
+const formatTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const getStatusText = (status: SchedulerStatus): string => {
+    if (status.running && status.currentRun) {
+        const done = status.currentRun.completed.length + Object.keys(status.currentRun.errors).length;
+        return `Collecting ${status.currentSymbol ?? ''} (${done}/${status.currentRun.symbols.length})`;
+    }
+    if (!status.enabled) return 'Auto-collect off';
+    if (status.paused) return 'Auto-collect paused';
+    if (status.marketHoursOnly && !status.marketOpen) return 'Markets closed';
+    return status.nextRunAt ? `Next snapshot ${formatTime(status.nextRunAt)}` : 'No run scheduled';
+};
+
+/**
+ * Status and controls for the server-side snapshot collector
+ */
+export function SchedulerControls() {
+    const [status, setStatus] = useState<SchedulerStatus | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const refresh = async () => {
+            try {
+                setStatus(await getSchedulerStatus());
+                setError(null);
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Unknown error');
+            }
+        };
+
+        refresh();
+        const interval = setInterval(refresh, status?.running ? RUNNING_POLL_MS : IDLE_POLL_MS);
+        return () => clearInterval(interval);
+    }, [status?.running]);
+
+    const handleAction = async (action: 'run' | 'pause' | 'resume') => {
+        try {
+            setStatus(await controlScheduler(action));
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+    };
+
+    if (!status) return null;
+
+    const lastRun = status.lastRun;
+    const sessions = status.groups.map(g => `${g.group}: ${g.session}`).join(', ');
+    const title = (lastRun?.finishedAt
+        ? `Last run ${formatTime(lastRun.finishedAt)}: ${lastRun.completed.length} saved, ${Object.keys(lastRun.errors).length} failed`
+        : `Schedule: ${status.cron} (${status.timezone})`) + (status.marketHoursOnly ? `\nSessions: ${sessions}` : '');
+
+    return (
+        <div className="scheduler-controls" title={error || title}>
+            <span className={`scheduler-controls__status ${error ? 'scheduler-controls__status--error' : ''}`}>
+                {error || getStatusText(status)}
+            </span>
+            <div className="view-toggle">
+                <button
+                    className="view-toggle__btn"
+                    onClick={() => handleAction('run')}
+                    disabled={status.running}
+                >
+                    Run now
+                </button>
+                {status.enabled && (
+                    <button
+                        className="view-toggle__btn"
+                        onClick={() => handleAction(status.paused ? 'resume' : 'pause')}
+                    >
+                        {status.paused ? 'Resume' : 'Pause'}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
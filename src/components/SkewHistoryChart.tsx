@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import {
     ComposedChart,
+    Area,
     Line,
     XAxis,
     YAxis,
@@ -10,43 +11,86 @@ import {
     Legend
 } from 'recharts';
 import { format } from 'date-fns';
+import { fetchHistory, fetchHistoryBuckets, formatDeltaBand, getHistoryExportUrl } from '../services/tasty';
+import type { SkewParams, HistoryInterval, HistorySnapshot, HistoryBucket } from '../services/tasty';
 
 interface HistoryData {
-    timestamp: string;
-    oiSkew: number;
+    timestamp: number;
+    oiSkew: number | null;
     pricingSkew: number | null;
+    volumeSkew: number | null;
     underlyingPrice: number | null;
+    // Low/high of OI skew within a bucket
+    oiRange?: [number, number] | null;
 }
 
+type ChartInterval = HistoryInterval | 'raw';
+
+const INTERVAL_OPTIONS: { value: ChartInterval; label: string; title: string }[] = [
+    { value: 'raw', label: 'Raw', title: 'Individual snapshots, newest first in pages' },
+    { value: '1h', label: '1H', title: 'Hourly buckets (close, OI skew high-low band)' },
+    { value: '1d', label: '1D', title: 'Daily buckets (close, OI skew high-low band)' },
+    { value: '1w', label: '1W', title: 'Weekly buckets (close, OI skew high-low band)' }
+];
+
+// Axis tick and tooltip label formats per interval
+const DATE_FORMATS: Record<ChartInterval, { tick: string; label: string }> = {
+    raw: { tick: 'MM/dd HH:mm', label: 'MMM dd, HH:mm' },
+    '1h': { tick: 'MM/dd HH:mm', label: 'MMM dd, HH:mm' },
+    '1d': { tick: 'MMM dd', label: 'EEE MMM dd, yyyy' },
+    '1w': { tick: 'MMM dd', label: "'Week of' MMM dd, yyyy" }
+};
+
+const fromSnapshot = (item: HistorySnapshot): HistoryData => ({
+    timestamp: new Date(item.timestamp).getTime(),
+    oiSkew: item.oiSkew,
+    pricingSkew: item.pricingSkew,
+    volumeSkew: item.volumeSkew,
+    underlyingPrice: item.underlyingPrice
+});
+
+// Buckets chart their close, with the OI skew range drawn as a band
+const fromBucket = (bucket: HistoryBucket): HistoryData => ({
+    timestamp: new Date(bucket.timestamp).getTime(),
+    oiSkew: bucket.oiSkew?.close ?? null,
+    pricingSkew: bucket.pricingSkew?.close ?? null,
+    volumeSkew: bucket.volumeSkew?.close ?? null,
+    underlyingPrice: bucket.underlyingPrice?.close ?? null,
+    oiRange: bucket.oiSkew ? [bucket.oiSkew.low, bucket.oiSkew.high] : null
+});
+
 interface SkewHistoryChartProps {
     symbol: string;
+    params?: SkewParams;
     onClose: () => void;
 }
 
-export function SkewHistoryChart({ symbol, onClose }: SkewHistoryChartProps) {
+export function SkewHistoryChart({ symbol, params, onClose }: SkewHistoryChartProps) {
     const [data, setData] = useState<HistoryData[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [showVolume, setShowVolume] = useState(false);
+    const [historyInterval, setHistoryInterval] = useState<ChartInterval>('1h');
+    // Raw mode only: cursor for the next older page
+    const [nextCursor, setNextCursor] = useState<number | null>(null);
+    const [loadingMore, setLoadingMore] = useState(false);
 
     useEffect(() => {
         const fetchData = async () => {
             try {
                 setLoading(true);
                 setError(null);
-                // Using relative URL based on setup
-                const res = await fetch(`${import.meta.env.VITE_API_BASE_URL}/api/history/${encodeURIComponent(symbol)}?limit=100`);
-                if (!res.ok) throw new Error('Failed to fetch history');
-
-                const json = await res.json();
 
-                // Process data for chart
-                // Reverse if needed (API returns desc order, charts usually left-to-right asc)
-                const chartData = json.data.reverse().map((item: any) => ({
-                    ...item,
-                    timestamp: new Date(item.timestamp).getTime(), // convert to timestamp for axis
-                }));
-
-                setData(chartData);
+                if (historyInterval === 'raw') {
+                    const page = await fetchHistory(symbol, params);
+                    // API returns newest first, charts read left-to-right oldest first
+                    setData(page.data.map(fromSnapshot).reverse());
+                    setNextCursor(page.nextCursor);
+                } else {
+                    const buckets = await fetchHistoryBuckets(symbol, historyInterval, params);
+                    setData(buckets.map(fromBucket));
+                    setNextCursor(null);
+                }
             } catch (err) {
                 setError(err instanceof Error ? err.message : 'Unknown error');
             } finally {
@@ -55,7 +99,23 @@ export function SkewHistoryChart({ symbol, onClose }: SkewHistoryChartProps) {
         };
 
         fetchData();
-    }, [symbol]);
+    }, [symbol, params, historyInterval]);
+
+    const loadOlder = async () => {
+        if (nextCursor === null) return;
+        try {
+            setLoadingMore(true);
+            const page = await fetchHistory(symbol, params, nextCursor);
+            setData(prev => [...page.data.map(fromSnapshot).reverse(), ...prev]);
+            setNextCursor(page.nextCursor);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    const dateFormats = DATE_FORMATS[historyInterval];
 
     if (loading) {
         return (
@@ -76,9 +136,16 @@ export function SkewHistoryChart({ symbol, onClose }: SkewHistoryChartProps) {
             <div className="flex h-64 w-full items-center justify-center rounded-2xl bg-black/40 backdrop-blur-md">
                 <div className="text-center">
                     <p className="text-red-400 mb-2">{error || 'No historical data available'}</p>
-                    <button onClick={onClose} className="text-xs text-white/40 hover:text-white underline">
-                        Close
-                    </button>
+                    <div className="flex items-center justify-center gap-3">
+                        {historyInterval !== 'raw' && (
+                            <button onClick={() => setHistoryInterval('raw')} className="text-xs text-white/40 hover:text-white underline">
+                                Show raw snapshots
+                            </button>
+                        )}
+                        <button onClick={onClose} className="text-xs text-white/40 hover:text-white underline">
+                            Close
+                        </button>
+                    </div>
                 </div>
             </div>
         );
@@ -91,16 +158,60 @@ export function SkewHistoryChart({ symbol, onClose }: SkewHistoryChartProps) {
                 <div>
                     <h3 className="text-lg font-bold text-white flex items-center gap-2">
                         {symbol} <span className="text-xs font-normal text-white/40 bg-white/5 px-2 py-0.5 rounded-full">History</span>
+                        {params && (
+                            <span className="text-xs font-normal text-white/40 bg-white/5 px-2 py-0.5 rounded-full">
+                                {formatDeltaBand(params)}Δ · {params.targetDte} DTE
+                            </span>
+                        )}
                     </h3>
                 </div>
-                <button
-                    onClick={onClose}
-                    className="rounded-full p-2 text-white/40 hover:bg-white/10 hover:text-white transition-colors"
-                >
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                    </svg>
-                </button>
+                <div className="flex items-center gap-2">
+                    <div className="flex items-center rounded-md bg-white/5 p-0.5">
+                        {INTERVAL_OPTIONS.map(option => (
+                            <button
+                                key={option.value}
+                                onClick={() => setHistoryInterval(option.value)}
+                                className={`text-xs px-2 py-0.5 rounded transition-colors ${historyInterval === option.value ? 'bg-white/15 text-white' : 'text-white/40 hover:text-white'}`}
+                                title={option.title}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    {historyInterval === 'raw' && nextCursor !== null && (
+                        <button
+                            onClick={loadOlder}
+                            disabled={loadingMore}
+                            className="text-xs px-2 py-1 rounded-md bg-white/5 text-white/40 hover:text-white transition-colors disabled:opacity-50"
+                            title={`${data.length} snapshots loaded`}
+                        >
+                            {loadingMore ? 'Loading...' : 'Load older'}
+                        </button>
+                    )}
+                    <a
+                        href={getHistoryExportUrl(symbol)}
+                        download
+                        className="text-xs px-2 py-1 rounded-md bg-white/5 text-white/40 hover:text-white transition-colors"
+                        title="Download every stored snapshot of this symbol as CSV"
+                    >
+                        CSV
+                    </a>
+                    <button
+                        onClick={() => setShowVolume(v => !v)}
+                        className={`text-xs px-2 py-1 rounded-md transition-colors ${showVolume ? 'bg-sky-500/20 text-sky-300' : 'bg-white/5 text-white/40 hover:text-white'}`}
+                        title="Put/Call day volume in the same delta band"
+                    >
+                        Volume Skew
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="rounded-full p-2 text-white/40 hover:bg-white/10 hover:text-white transition-colors"
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
             </div>
 
             {/* Chart */}
@@ -116,7 +227,7 @@ export function SkewHistoryChart({ symbol, onClose }: SkewHistoryChartProps) {
                         <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
                         <XAxis
                             dataKey="timestamp"
-                            tickFormatter={(unix) => format(unix, 'MM/dd HH:mm')}
+                            tickFormatter={(unix) => format(unix, dateFormats.tick)}
                             stroke="rgba(255,255,255,0.2)"
                             tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 10 }}
                             minTickGap={30}
@@ -147,12 +258,24 @@ export function SkewHistoryChart({ symbol, onClose }: SkewHistoryChartProps) {
                                 borderRadius: '8px',
                                 boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.5)'
                             }}
-                            labelFormatter={(label) => format(label, 'MMM dd, HH:mm')}
+                            labelFormatter={(label) => format(label, dateFormats.label)}
                             itemStyle={{ fontSize: '12px' }}
                         />
 
                         <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }} />
 
+                        {historyInterval !== 'raw' && (
+                            <Area
+                                yAxisId="left"
+                                type="monotone"
+                                dataKey="oiRange"
+                                name="OI Skew Range"
+                                stroke="none"
+                                fill="url(#colorOi)"
+                                connectNulls
+                            />
+                        )}
+
                         <Line
                             yAxisId="left"
                             type="monotone"
@@ -176,6 +299,19 @@ export function SkewHistoryChart({ symbol, onClose }: SkewHistoryChartProps) {
                             connectNulls
                         />
 
+                        {showVolume && (
+                            <Line
+                                yAxisId="left"
+                                type="monotone"
+                                dataKey="volumeSkew"
+                                name="Volume Skew"
+                                stroke="#38bdf8"
+                                strokeWidth={2}
+                                dot={false}
+                                connectNulls
+                            />
+                        )}
+
                         <Line
                             yAxisId="right"
                             type="monotone"
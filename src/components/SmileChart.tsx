@@ -0,0 +1,181 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+    ComposedChart,
+    Line,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    ResponsiveContainer,
+    Legend
+} from 'recharts';
+import { fetchSmile } from '../services/tasty';
+import type { SmileResult, ExpirationTypeFilter } from '../services/tasty';
+
+type SmileAxis = 'strike' | 'delta';
+
+interface SmileChartProps {
+    symbol: string;
+    targetDte?: number;
+    expirationType?: ExpirationTypeFilter;
+    expirationDate?: string;
+    onClose: () => void;
+}
+
+const formatIv = (iv: number) => `${(iv * 100).toFixed(1)}%`;
+
+export function SmileChart({ symbol, targetDte, expirationType, expirationDate, onClose }: SmileChartProps) {
+    const [smile, setSmile] = useState<SmileResult | null>(null);
+    const [axis, setAxis] = useState<SmileAxis>('strike');
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchData = async () => {
+            try {
+                setLoading(true);
+                setError(null);
+                setSmile(await fetchSmile(symbol, { targetDte, expirationType, expirationDate }));
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Unknown error');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchData();
+    }, [symbol, targetDte, expirationType, expirationDate]);
+
+    // By delta: calls on the right (positive), puts on the left (negative)
+    const deltaData = useMemo(() => (smile?.byDelta ?? []).map(p => ({
+        delta: p.delta,
+        strike: p.strike,
+        callIv: p.type === 'call' ? p.iv : null,
+        putIv: p.type === 'put' ? p.iv : null
+    })), [smile]);
+
+    if (loading) {
+        return (
+            <div className="flex h-64 w-full items-center justify-center rounded-2xl bg-black/40 backdrop-blur-md">
+                <div className="flex items-center gap-2 text-white/60">
+                    <svg className="h-5 w-5 animate-spin" viewBox="0 0 24 24" fill="none">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                    </svg>
+                    <span>Collecting Greeks...</span>
+                </div>
+            </div>
+        );
+    }
+
+    if (error || !smile || smile.byStrike.length === 0) {
+        return (
+            <div className="flex h-64 w-full items-center justify-center rounded-2xl bg-black/40 backdrop-blur-md">
+                <div className="text-center">
+                    <p className="text-red-400 mb-2">{error || 'No smile data available'}</p>
+                    <button onClick={onClose} className="text-xs text-white/40 hover:text-white underline">
+                        Close
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="relative w-full overflow-hidden rounded-2xl bg-[#0a0a0a]/95 border border-white/10 p-4 shadow-2xl backdrop-blur-xl animate-in zoom-in-95 duration-200">
+            {/* Header */}
+            <div className="flex items-center justify-between mb-4 px-2">
+                <div>
+                    <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                        {symbol} <span className="text-xs font-normal text-white/40 bg-white/5 px-2 py-0.5 rounded-full">IV Smile</span>
+                        <span className="text-xs font-normal text-white/40 bg-white/5 px-2 py-0.5 rounded-full">
+                            {smile.expirationDate} · {smile.dte} DTE
+                        </span>
+                    </h3>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className="view-toggle">
+                        <button
+                            className={`view-toggle__btn ${axis === 'strike' ? 'view-toggle__btn--active' : ''}`}
+                            onClick={() => setAxis('strike')}
+                        >
+                            Strike
+                        </button>
+                        <button
+                            className={`view-toggle__btn ${axis === 'delta' ? 'view-toggle__btn--active' : ''}`}
+                            onClick={() => setAxis('delta')}
+                        >
+                            Delta
+                        </button>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="rounded-full p-2 text-white/40 hover:bg-white/10 hover:text-white transition-colors"
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+
+            {/* Chart */}
+            <div className="h-[300px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={axis === 'strike' ? smile.byStrike : deltaData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+                        <XAxis
+                            dataKey={axis}
+                            type="number"
+                            domain={['dataMin', 'dataMax']}
+                            tickFormatter={(val) => axis === 'delta' ? val.toFixed(2) : String(val)}
+                            stroke="rgba(255,255,255,0.2)"
+                            tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 10 }}
+                        />
+
+                        <YAxis
+                            stroke="rgba(255,255,255,0.2)"
+                            tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 10 }}
+                            domain={['auto', 'auto']}
+                            tickFormatter={formatIv}
+                        />
+
+                        <Tooltip
+                            contentStyle={{
+                                backgroundColor: '#171717',
+                                border: '1px solid rgba(255,255,255,0.1)',
+                                borderRadius: '8px',
+                                boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.5)'
+                            }}
+                            labelFormatter={(val) => axis === 'delta' ? `Δ ${Number(val).toFixed(3)}` : `Strike ${val}`}
+                            formatter={(val) => typeof val === 'number' ? formatIv(val) : val}
+                            itemStyle={{ fontSize: '12px' }}
+                        />
+
+                        <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }} />
+
+                        <Line
+                            type="monotone"
+                            dataKey="callIv"
+                            name="Call IV"
+                            stroke="#3b82f6"
+                            strokeWidth={2}
+                            dot={false}
+                            connectNulls
+                        />
+
+                        <Line
+                            type="monotone"
+                            dataKey="putIv"
+                            name="Put IV"
+                            stroke="#10b981"
+                            strokeWidth={2}
+                            dot={false}
+                            connectNulls
+                        />
+                    </ComposedChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+}
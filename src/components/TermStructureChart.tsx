@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import {
+    ComposedChart,
+    Line,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    ResponsiveContainer,
+    Legend
+} from 'recharts';
+import { streamTermStructure, formatDeltaBand } from '../services/tasty';
+import type { SkewParams, SkewResult } from '../services/tasty';
+
+const HORIZONS = [90, 180, 365];
+
+interface TermStructureChartProps {
+    symbol: string;
+    params?: SkewParams;
+    onClose: () => void;
+}
+
+export function TermStructureChart({ symbol, params, onClose }: TermStructureChartProps) {
+    const [maxDte, setMaxDte] = useState(180);
+    const [points, setPoints] = useState<SkewResult[]>([]);
+    const [failed, setFailed] = useState<Record<string, string>>({});
+    const [error, setError] = useState<string | null>(null);
+    // Loading until a result or error arrives for the current request
+    const requestKey = `${symbol}|${maxDte}|${JSON.stringify(params ?? null)}`;
+    const [loadedKey, setLoadedKey] = useState<string | null>(null);
+    const [progressStatus, setProgressStatus] = useState<{ key: string; status: string } | null>(null);
+    const loading = loadedKey !== requestKey;
+    const status = progressStatus?.key === requestKey ? progressStatus.status : 'Connecting to server...';
+
+    useEffect(() => {
+        const cleanup = streamTermStructure(
+            symbol,
+            (progress) => {
+                switch (progress.type) {
+                    case 'cached':
+                        setProgressStatus({ key: requestKey, status: '⚡ Using cached result' });
+                        break;
+                    case 'chain':
+                        setProgressStatus({ key: requestKey, status: progress.message || 'Fetched option chain...' });
+                        break;
+                    case 'phase1':
+                    case 'phase2':
+                        setProgressStatus({ key: requestKey, status: progress.message || '' });
+                        break;
+                }
+            },
+            (result) => {
+                setPoints(result.points);
+                setFailed(result.errors);
+                setError(null);
+                setLoadedKey(requestKey);
+            },
+            (err) => {
+                setError(err);
+                setLoadedKey(requestKey);
+            },
+            { params, maxDte }
+        );
+
+        return cleanup;
+    }, [requestKey, symbol, params, maxDte]);
+
+    return (
+        <div className="relative w-full overflow-hidden rounded-2xl bg-[#0a0a0a]/95 border border-white/10 p-4 shadow-2xl backdrop-blur-xl animate-in zoom-in-95 duration-200">
+            {/* Header */}
+            <div className="flex items-center justify-between mb-4 px-2">
+                <div>
+                    <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                        {symbol} <span className="text-xs font-normal text-white/40 bg-white/5 px-2 py-0.5 rounded-full">Term Structure</span>
+                        {params && (
+                            <span className="text-xs font-normal text-white/40 bg-white/5 px-2 py-0.5 rounded-full">
+                                {formatDeltaBand(params)}Δ
+                            </span>
+                        )}
+                    </h3>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className="view-toggle">
+                        {HORIZONS.map(h => (
+                            <button
+                                key={h}
+                                className={`view-toggle__btn ${maxDte === h ? 'view-toggle__btn--active' : ''}`}
+                                onClick={() => setMaxDte(h)}
+                                disabled={loading}
+                            >
+                                {h}d
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="rounded-full p-2 text-white/40 hover:bg-white/10 hover:text-white transition-colors"
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="flex h-[300px] w-full items-center justify-center">
+                    <div className="flex items-center gap-2 text-white/60">
+                        <svg className="h-5 w-5 animate-spin" viewBox="0 0 24 24" fill="none">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                        </svg>
+                        <span>{status}</span>
+                    </div>
+                </div>
+            ) : error || points.length === 0 ? (
+                <div className="flex h-[300px] w-full items-center justify-center">
+                    <p className="text-red-400">{error || 'No term structure data available'}</p>
+                </div>
+            ) : (
+                <>
+                    {/* Chart */}
+                    <div className="h-[300px] w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <ComposedChart data={points}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+                                <XAxis
+                                    dataKey="dte"
+                                    type="number"
+                                    domain={['dataMin', 'dataMax']}
+                                    tickFormatter={(dte) => `${dte}d`}
+                                    stroke="rgba(255,255,255,0.2)"
+                                    tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 10 }}
+                                />
+
+                                {/* Left Axis: Skew */}
+                                <YAxis
+                                    yAxisId="left"
+                                    stroke="rgba(255,255,255,0.2)"
+                                    tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 10 }}
+                                    domain={['auto', 'auto']}
+                                />
+
+                                {/* Right Axis: Implied Move */}
+                                <YAxis
+                                    yAxisId="right"
+                                    orientation="right"
+                                    stroke="rgba(56, 189, 248, 0.2)"
+                                    tick={{ fill: 'rgba(56, 189, 248, 0.4)', fontSize: 10 }}
+                                    domain={['auto', 'auto']}
+                                    tickFormatter={(val) => `${val.toFixed(1)}%`}
+                                />
+
+                                <Tooltip
+                                    contentStyle={{
+                                        backgroundColor: '#171717',
+                                        border: '1px solid rgba(255,255,255,0.1)',
+                                        borderRadius: '8px',
+                                        boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.5)'
+                                    }}
+                                    labelFormatter={(dte) => {
+                                        const point = points.find(p => p.dte === dte);
+                                        return point ? `${point.expirationDate} (${dte} DTE)` : `${dte} DTE`;
+                                    }}
+                                    itemStyle={{ fontSize: '12px' }}
+                                />
+
+                                <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }} />
+
+                                <Line
+                                    yAxisId="left"
+                                    type="monotone"
+                                    dataKey="skew"
+                                    name="OI Skew"
+                                    stroke="#a855f7"
+                                    strokeWidth={2}
+                                    dot={{ r: 3, strokeWidth: 0, fill: '#a855f7' }}
+                                />
+
+                                <Line
+                                    yAxisId="left"
+                                    type="monotone"
+                                    dataKey="pricingSkew"
+                                    name="Pricing Skew"
+                                    stroke="#facc15"
+                                    strokeWidth={2}
+                                    strokeDasharray="4 4"
+                                    dot={false}
+                                    connectNulls
+                                />
+
+                                <Line
+                                    yAxisId="right"
+                                    type="monotone"
+                                    dataKey="impliedMove"
+                                    name="Implied Move"
+                                    stroke="#38bdf8"
+                                    strokeWidth={1.5}
+                                    dot={false}
+                                    connectNulls
+                                />
+                            </ComposedChart>
+                        </ResponsiveContainer>
+                    </div>
+
+                    {Object.keys(failed).length > 0 && (
+                        <div className="mt-2 px-2 text-[11px] text-white/30">
+                            Skipped: {Object.entries(failed).map(([exp, msg]) => `${exp} (${msg})`).join(', ')}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -4,6 +4,55 @@ export interface ChainResult {
     symbols: string[];
     expirationDate: string;
     dte: number;
+    expirationType: string;
+    underlyingSymbol: string | null;
+}
+
+export type ExpirationTypeFilter = 'Regular' | 'Weekly' | 'Quarterly' | 'End-Of-Month' | 'any';
+
+export const EXPIRATION_TYPE_OPTIONS: { value: ExpirationTypeFilter | ''; label: string }[] = [
+    { value: '', label: 'Monthly (Regular + EOM)' },
+    { value: 'Weekly', label: 'Weekly' },
+    { value: 'Quarterly', label: 'Quarterly' },
+    { value: 'End-Of-Month', label: 'End of Month' },
+    { value: 'Regular', label: 'Regular' },
+    { value: 'any', label: 'Any' }
+];
+
+export interface SkewParams {
+    minDelta: number;
+    maxDelta: number;
+    centerDelta: number;
+    targetDte: number;
+    // Expiration types to choose from (server default: Regular + End-Of-Month)
+    expirationType?: ExpirationTypeFilter;
+    // Exact expiration date (YYYY-MM-DD), overrides targetDte and expirationType
+    expirationDate?: string;
+}
+
+export interface ExpirationInfo {
+    expirationDate: string;
+    dte: number;
+    expirationType: string;
+    strikeCount: number;
+    underlyingSymbol: string | null;
+}
+
+export const DEFAULT_SKEW_PARAMS: SkewParams = {
+    minDelta: 0.10,
+    maxDelta: 0.30,
+    centerDelta: 0.20,
+    targetDte: 30
+};
+
+export type GreeksSource = 'feed' | 'computed';
+
+export interface BandOption {
+    symbol: string;
+    strike: number;
+    type: 'call' | 'put';
+    delta: number;
+    greeksSource: GreeksSource;
 }
 
 export interface SkewResult {
@@ -11,45 +60,212 @@ export interface SkewResult {
     pricingSkew: number | null;
     impliedMove: number | null;
     underlyingPrice: number | null;
+    underlyingSymbol: string | null;
+    underlyingStreamerSymbol: string | null;
     expirationDate: string;
     dte: number;
+    expirationType: string;
     callOi: number;
     putOi: number;
+    volumeSkew: number | null;
+    callVolume: number;
+    putVolume: number;
+    deltaWeightedSkew: number | null;
+    premiumWeightedSkew: number | null;
+    notionalWeightedSkew: number | null;
     callDelta: number;
     putDelta: number;
     callStreamerSymbol: string;
     putStreamerSymbol: string;
+    riskReversal25: number | null;
+    butterfly25: number | null;
+    riskReversal10: number | null;
+    atmIv: number | null;
+    totalGex: number | null;
+    gammaFlip: number | null;
+    bandOptions: BandOption[];
+    // ISO timestamp of when the server ran the calculation
+    calculatedAt: string;
+    minDelta: number;
+    maxDelta: number;
+    centerDelta: number;
+    targetDte: number;
 }
 
-export interface StreamProgress {
-    type: 'connected' | 'chain' | 'phase1' | 'phase2' | 'cached' | 'result' | 'error';
-    message?: string;
-    data?: any;
+export interface SmilePoint {
+    strike: number;
+    callIv: number | null;
+    putIv: number | null;
+    callDelta: number | null;
+    putDelta: number | null;
+    callGamma: number | null;
+    putGamma: number | null;
+    callVega: number | null;
+    putVega: number | null;
+    callTheta: number | null;
+    putTheta: number | null;
+}
+
+export interface SmileDeltaPoint {
+    delta: number;
+    strike: number;
+    type: 'call' | 'put';
+    iv: number;
+}
+
+export interface SmileResult {
+    symbol: string;
+    expirationDate: string;
+    dte: number;
+    byStrike: SmilePoint[];
+    byDelta: SmileDeltaPoint[];
+}
+
+export interface OiStrike {
+    strike: number;
+    callOi: number;
+    putOi: number;
+    putCallRatio: number | null;
+}
+
+export interface OiWall {
+    strike: number;
+    oi: number;
+}
+
+export interface OiDistributionResult {
+    symbol: string;
+    expirationDate: string;
+    dte: number;
+    underlyingSymbol: string | null;
+    underlyingPrice: number | null;
+    totalCallOi: number;
+    totalPutOi: number;
+    putCallRatio: number | null;
+    maxPain: number | null;
+    callWall: OiWall | null;
+    putWall: OiWall | null;
+    strikes: OiStrike[];
+}
+
+export interface GexStrike {
+    strike: number;
+    callOi: number;
+    putOi: number;
+    callGex: number;
+    putGex: number;
+    netGex: number;
+}
+
+export interface GexResult {
+    symbol: string;
+    expirationDate: string;
+    dte: number;
+    underlyingSymbol: string;
+    underlyingPrice: number;
+    multiplier: number;
+    totalGex: number;
+    gammaFlip: number | null;
+    strikes: GexStrike[];
+}
+
+export interface TermStructureResult {
+    symbol: string;
+    maxDte: number;
+    points: SkewResult[];
+    errors: Record<string, string>;
 }
 
+// Share of subscribed symbols that reported during a phase
+export interface ProgressCoverage {
+    received: number;
+    total: number;
+    percent: number;
+}
+
+/**
+ * Progress event of a streamed calculation; `data` depends on the type and
+ * holds the result on the final event
+ */
+export type StreamProgress = { message?: string } & (
+    | { type: 'connected' | 'cached' | 'error'; data?: undefined }
+    | { type: 'chain'; data?: { symbolCount: number } }
+    | { type: 'phase1' | 'phase2'; data?: { coverage?: ProgressCoverage } }
+    | { type: 'result'; data: unknown }
+);
+
 export interface AssetGroup {
     name: string;
     symbols: readonly string[];
 }
 
-export interface AssetGroups {
-    fx: AssetGroup;
-    indices: AssetGroup;
-    bonds: AssetGroup;
-    crypto: AssetGroup;
+// Groups keyed by the server's group key (fx, indices, etfs, ...), in display order
+export type AssetGroups = Record<string, AssetGroup>;
+
+export type TradingCalendar = 'cme-globex' | 'nyse' | '24/7';
+export type SessionState = 'open' | 'pre' | 'closed';
+
+export type RankLookback = '20d' | '60d' | '252d';
+
+export const RANK_LOOKBACK_OPTIONS: { value: RankLookback; label: string }[] = [
+    { value: '20d', label: '1M' },
+    { value: '60d', label: '3M' },
+    { value: '252d', label: '1Y' }
+];
+
+export const DEFAULT_RANK_LOOKBACK: RankLookback = '252d';
+
+export interface MetricRank {
+    value: number;
+    // Share of daily closes in the lookback below the current value (0-100)
+    percentile: number;
+    zScore: number | null;
+    mean: number;
+    stdDev: number;
+    samples: number;
+}
+
+// Current readings ranked against the symbol's own history (like IV rank)
+export interface SkewRank {
+    lookback: RankLookback;
+    since: string | null;
+    oiSkew: MetricRank | null;
+    pricingSkew: MetricRank | null;
+    impliedMove: MetricRank | null;
+}
+
+export interface MarketStatusEntry {
+    cached: boolean;
+    // Past the cache TTL; served while the server recalculates it
+    stale: boolean;
+    refreshing: boolean;
+    updatedAt: string | null;
+    // Trading session of the symbol's market (cache TTLs follow it)
+    calendar: TradingCalendar;
+    session: SessionState;
+    rank: SkewRank | null;
+    data: SkewResult | null;
 }
 
 export interface MarketStatusResponse {
     groups: AssetGroups;
     descriptions: Record<string, string>;
-    status: Record<string, { cached: boolean; data: SkewResult | null }>;
+    lookback: RankLookback;
+    status: Record<string, MarketStatusEntry>;
+}
+
+export interface BatchProgressDetails {
+    message?: string;
+    coverage?: ProgressCoverage;
+    error?: string;
 }
 
 export interface BatchProgressEvent {
     type: 'connected' | 'progress' | 'complete' | 'error';
     symbol?: string;
     status?: 'pending' | 'calculating' | 'phase1' | 'phase2' | 'cached' | 'complete' | 'error';
-    data?: any;
+    // The result for complete/cached, else the phase coverage or error
+    data?: SkewResult | BatchProgressDetails;
     symbols?: string[];
     total?: number;
     results?: Record<string, SkewResult>;
@@ -58,6 +274,58 @@ export interface BatchProgressEvent {
     message?: string;
 }
 
+/**
+ * Expiration selection of a smile, GEX or OI distribution request
+ */
+export type ExpirationParams = Partial<Pick<SkewParams, 'targetDte' | 'expirationType' | 'expirationDate'>>;
+
+/**
+ * Build a query string for skew params (omits params left at their defaults)
+ */
+export const buildParamsQuery = (params?: Partial<SkewParams>): string => {
+    if (!params) return '';
+    const search = new URLSearchParams();
+    for (const key of Object.keys(DEFAULT_SKEW_PARAMS) as (keyof SkewParams)[]) {
+        const value = params[key];
+        if (value !== undefined && value !== DEFAULT_SKEW_PARAMS[key]) {
+            search.set(key, String(value));
+        }
+    }
+    if (params.expirationType) search.set('expirationType', params.expirationType);
+    if (params.expirationDate) search.set('expirationDate', params.expirationDate);
+    return search.toString();
+};
+
+/**
+ * Human-readable delta band, e.g. "10-30"
+ */
+export const formatDeltaBand = (params: Pick<SkewParams, 'minDelta' | 'maxDelta'>): string => {
+    const min = Math.round(params.minDelta * 100);
+    const max = Math.round(params.maxDelta * 100);
+    return min === max ? `${min}` : `${min}-${max}`;
+};
+
+export type SkewVariant = 'oi' | 'delta' | 'premium' | 'notional';
+
+export const SKEW_VARIANTS: { key: SkewVariant; label: string; short: string; description: string }[] = [
+    { key: 'oi', label: 'Open Interest', short: 'OI', description: 'Put OI / Call OI' },
+    { key: 'delta', label: 'Delta-weighted', short: 'ΔW', description: 'Put OI × |delta| / Call OI × |delta|' },
+    { key: 'premium', label: 'Premium-weighted', short: 'PREM', description: 'Put OI × mid / Call OI × mid' },
+    { key: 'notional', label: 'Notional-weighted', short: 'NOTL', description: 'Put OI × strike / Call OI × strike' }
+];
+
+/**
+ * Value of a skew variant, falling back to the OI skew when it wasn't available
+ */
+export const getSkewVariantValue = (result: SkewResult, variant: SkewVariant): number => {
+    switch (variant) {
+        case 'delta': return result.deltaWeightedSkew ?? result.skew;
+        case 'premium': return result.premiumWeightedSkew ?? result.skew;
+        case 'notional': return result.notionalWeightedSkew ?? result.skew;
+        default: return result.skew;
+    }
+};
+
 /**
  * Fetch option chain from backend
  */
@@ -79,9 +347,11 @@ export const streamSkewCalculation = (
     symbol: string,
     onProgress: (progress: StreamProgress) => void,
     onComplete: (result: SkewResult) => void,
-    onError: (error: string) => void
+    onError: (error: string) => void,
+    params?: Partial<SkewParams>
 ): (() => void) => {
-    const url = `${API_BASE_URL}/api/stream-skew/${encodeURIComponent(symbol)}`;
+    const query = buildParamsQuery(params);
+    const url = `${API_BASE_URL}/api/stream-skew/${encodeURIComponent(symbol)}${query ? `?${query}` : ''}`;
     const eventSource = new EventSource(url);
 
     eventSource.onmessage = (event) => {
@@ -113,6 +383,118 @@ export const streamSkewCalculation = (
     };
 };
 
+/**
+ * Stream skew term structure (all monthly expirations out to maxDte) using Server-Sent Events
+ */
+export const streamTermStructure = (
+    symbol: string,
+    onProgress: (progress: StreamProgress) => void,
+    onComplete: (result: TermStructureResult) => void,
+    onError: (error: string) => void,
+    options: { params?: Partial<SkewParams>; maxDte?: number } = {}
+): (() => void) => {
+    const search = new URLSearchParams(buildParamsQuery(options.params));
+    search.delete('targetDte');
+    if (options.maxDte !== undefined) search.set('maxDte', String(options.maxDte));
+    const query = search.toString();
+
+    const url = `${API_BASE_URL}/api/stream-term-structure/${encodeURIComponent(symbol)}${query ? `?${query}` : ''}`;
+    const eventSource = new EventSource(url);
+
+    eventSource.onmessage = (event) => {
+        try {
+            const data = JSON.parse(event.data) as StreamProgress;
+
+            if (data.type === 'result') {
+                onComplete(data.data as TermStructureResult);
+                eventSource.close();
+            } else if (data.type === 'error') {
+                onError(data.message || 'Unknown error');
+                eventSource.close();
+            } else {
+                onProgress(data);
+            }
+        } catch (e) {
+            console.error('Failed to parse SSE data:', e);
+        }
+    };
+
+    eventSource.onerror = () => {
+        onError('Connection to server lost');
+        eventSource.close();
+    };
+
+    // Return cleanup function
+    return () => {
+        eventSource.close();
+    };
+};
+
+/**
+ * Fetch the implied volatility smile for the expiration closest to targetDte
+ * (or the one picked by expirationType / expirationDate)
+ */
+export const fetchSmile = async (symbol: string, params?: ExpirationParams): Promise<SmileResult> => {
+    const query = buildParamsQuery(params);
+    const response = await fetch(`${API_BASE_URL}/api/smile/${encodeURIComponent(symbol)}${query ? `?${query}` : ''}`);
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch smile');
+    }
+
+    const json = await response.json();
+    return json.data;
+};
+
+/**
+ * List every upcoming expiration (all types) for a symbol
+ */
+export const fetchExpirations = async (symbol: string): Promise<ExpirationInfo[]> => {
+    const response = await fetch(`${API_BASE_URL}/api/expirations/${encodeURIComponent(symbol)}`);
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch expirations');
+    }
+
+    const json = await response.json();
+    return json.data;
+};
+
+/**
+ * Fetch open interest by strike (max pain, OI walls, put/call per strike)
+ */
+export const fetchOiDistribution = async (symbol: string, params?: ExpirationParams): Promise<OiDistributionResult> => {
+    const query = buildParamsQuery(params);
+    const response = await fetch(`${API_BASE_URL}/api/oi-distribution/${encodeURIComponent(symbol)}${query ? `?${query}` : ''}`);
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch OI distribution');
+    }
+
+    const json = await response.json();
+    return json.data;
+};
+
+/**
+ * Fetch dealer gamma exposure by strike for the expiration closest to targetDte
+ * (or the one picked by expirationType / expirationDate)
+ */
+export const fetchGex = async (symbol: string, params?: ExpirationParams): Promise<GexResult> => {
+    const query = buildParamsQuery(params);
+    const response = await fetch(`${API_BASE_URL}/api/gex/${encodeURIComponent(symbol)}${query ? `?${query}` : ''}`);
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch GEX');
+    }
+
+    const json = await response.json();
+    return json.data;
+};
+
 /**
  * Health check
  */
@@ -148,10 +530,10 @@ export const searchSymbols = async (query: string): Promise<SymbolSearchResult[]
 };
 
 /**
- * Get market status for all assets (cached/uncached)
+ * Get market status for all assets (cached/uncached), with skew ranks over the lookback
  */
-export const getMarketStatus = async (): Promise<MarketStatusResponse> => {
-    const response = await fetch(`${API_BASE_URL}/api/market-status`);
+export const getMarketStatus = async (lookback?: RankLookback): Promise<MarketStatusResponse> => {
+    const response = await fetch(`${API_BASE_URL}/api/market-status${lookback ? `?lookback=${lookback}` : ''}`);
 
     if (!response.ok) {
         throw new Error('Failed to fetch market status');
@@ -164,19 +546,24 @@ export const getMarketStatus = async (): Promise<MarketStatusResponse> => {
  * Stream batch skew calculation using Server-Sent Events
  */
 export const streamBatchCalculation = (
-    options: { symbols?: string[]; group?: 'fx' | 'indices' | 'bonds' | 'crypto' },
+    options: { symbols?: string[]; group?: 'fx' | 'indices' | 'bonds' | 'crypto'; params?: Partial<SkewParams> },
     onProgress: (event: BatchProgressEvent) => void,
     onComplete: () => void,
     onError: (error: string) => void
 ): (() => void) => {
-    let url = `${API_BASE_URL}/api/stream-batch`;
+    const queryParts: string[] = [];
 
     if (options.symbols && options.symbols.length > 0) {
-        url += `?symbols=${options.symbols.map(s => encodeURIComponent(s)).join(',')}`;
+        queryParts.push(`symbols=${options.symbols.map(s => encodeURIComponent(s)).join(',')}`);
     } else if (options.group) {
-        url += `?group=${options.group}`;
+        queryParts.push(`group=${options.group}`);
     }
 
+    const paramsQuery = buildParamsQuery(options.params);
+    if (paramsQuery) queryParts.push(paramsQuery);
+
+    const url = `${API_BASE_URL}/api/stream-batch${queryParts.length > 0 ? `?${queryParts.join('&')}` : ''}`;
+
     const eventSource = new EventSource(url);
 
     eventSource.onmessage = (event) => {
@@ -209,3 +596,367 @@ export const streamBatchCalculation = (
         eventSource.close();
     };
 };
+
+export interface SchedulerRun {
+    trigger: 'schedule' | 'manual';
+    startedAt: string;
+    finishedAt: string | null;
+    symbols: string[];
+    completed: string[];
+    errors: Record<string, string>;
+    cancelled: boolean;
+}
+
+export interface SchedulerGroupStatus {
+    group: string;
+    calendar: TradingCalendar;
+    session: SessionState;
+    symbols: string[];
+}
+
+export interface SchedulerStatus {
+    enabled: boolean;
+    paused: boolean;
+    running: boolean;
+    cron: string;
+    timezone: string;
+    marketHoursOnly: boolean;
+    // Whether any watchlist symbol's session is open
+    marketOpen: boolean;
+    groups: SchedulerGroupStatus[];
+    nextRunAt: string | null;
+    symbols: string[];
+    currentSymbol: string | null;
+    currentRun: SchedulerRun | null;
+    lastRun: SchedulerRun | null;
+}
+
+/**
+ * Get the server-side snapshot collector status
+ */
+export const getSchedulerStatus = async (): Promise<SchedulerStatus> => {
+    const response = await fetch(`${API_BASE_URL}/api/scheduler`);
+
+    if (!response.ok) {
+        throw new Error('Failed to fetch scheduler status');
+    }
+
+    return response.json();
+};
+
+/**
+ * Run the snapshot collector now, or pause/resume its schedule
+ */
+export const controlScheduler = async (action: 'run' | 'pause' | 'resume'): Promise<SchedulerStatus> => {
+    const response = await fetch(`${API_BASE_URL}/api/scheduler/${action}`, { method: 'POST' });
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to ${action} scheduler`);
+    }
+
+    return response.json();
+};
+
+export interface HistorySnapshot {
+    id: number;
+    timestamp: string;
+    oiSkew: number;
+    pricingSkew: number | null;
+    impliedMove: number | null;
+    volumeSkew: number | null;
+    underlyingPrice: number | null;
+}
+
+export type HistoryInterval = '1h' | '1d' | '1w';
+
+export interface MetricStats {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    mean: number;
+}
+
+export interface HistoryBucket {
+    // Bucket start (ISO timestamp)
+    timestamp: string;
+    count: number;
+    oiSkew: MetricStats | null;
+    pricingSkew: MetricStats | null;
+    impliedMove: MetricStats | null;
+    volumeSkew: MetricStats | null;
+    underlyingPrice: MetricStats | null;
+}
+
+export interface HistoryPage {
+    data: HistorySnapshot[];
+    // Pass back as cursor for the next (older) page, null at the end
+    nextCursor: number | null;
+}
+
+/**
+ * Fetch one page of raw history snapshots, newest first
+ */
+export const fetchHistory = async (
+    symbol: string,
+    params?: Partial<SkewParams>,
+    cursor?: number | null,
+    limit = 100
+): Promise<HistoryPage> => {
+    const query = new URLSearchParams({ limit: String(limit) });
+    if (cursor != null) query.set('cursor', String(cursor));
+    const paramsQuery = buildParamsQuery(params);
+    const response = await fetch(`${API_BASE_URL}/api/history/${encodeURIComponent(symbol)}?${query}${paramsQuery ? `&${paramsQuery}` : ''}`);
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch history');
+    }
+
+    const json = await response.json();
+    return { data: json.data, nextCursor: json.nextCursor };
+};
+
+/**
+ * Fetch history aggregated into open/high/low/close/mean buckets, oldest first
+ */
+export const fetchHistoryBuckets = async (
+    symbol: string,
+    interval: HistoryInterval,
+    params?: Partial<SkewParams>,
+    range?: { startDate?: Date; endDate?: Date }
+): Promise<HistoryBucket[]> => {
+    const query = new URLSearchParams({ interval });
+    if (range?.startDate) query.set('startDate', range.startDate.toISOString());
+    if (range?.endDate) query.set('endDate', range.endDate.toISOString());
+    const paramsQuery = buildParamsQuery(params);
+    const response = await fetch(`${API_BASE_URL}/api/history/${encodeURIComponent(symbol)}?${query}${paramsQuery ? `&${paramsQuery}` : ''}`);
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch history');
+    }
+
+    const json = await response.json();
+    return json.data;
+};
+
+export type HistoryExportFormat = 'csv' | 'ndjson';
+
+/**
+ * Download URL for a symbol's stored history (every param set and metric version)
+ */
+export const getHistoryExportUrl = (symbol: string, format: HistoryExportFormat = 'csv'): string =>
+    `${API_BASE_URL}/api/history/${encodeURIComponent(symbol)}/export?format=${format}`;
+
+export type RunTrigger = 'ui' | 'batch' | 'scheduler' | 'revalidate';
+export type RunStatus = 'success' | 'error' | 'cancelled';
+
+/**
+ * One skew calculation from the server's audit log
+ */
+export interface CalculationRun {
+    id: number;
+    symbol: string;
+    trigger: RunTrigger;
+    status: RunStatus;
+    cacheHit: boolean;
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    // Phase durations (null when the run ended before the phase)
+    chainMs: number | null;
+    phase1Ms: number | null;
+    phase2Ms: number | null;
+    // Coverage at the end of each phase (percentages 0-100)
+    symbolsSubscribed: number | null;
+    deltaReceived: number | null;
+    deltaCoverage: number | null;
+    oiSymbols: number | null;
+    oiReceived: number | null;
+    oiCoverage: number | null;
+    quoteCoverage: number | null;
+    underlyingReceived: boolean | null;
+    expirationDate: string | null;
+    dte: number | null;
+    error: string | null;
+    minDelta: number;
+    maxDelta: number;
+    centerDelta: number;
+    targetDte: number;
+}
+
+export interface RunFilters {
+    symbol?: string;
+    trigger?: RunTrigger;
+    status?: RunStatus;
+}
+
+/**
+ * Fetch one page of calculation runs, newest first
+ */
+export const fetchRuns = async (
+    filters: RunFilters = {},
+    cursor?: number | null
+): Promise<{ data: CalculationRun[]; nextCursor: number | null }> => {
+    const query = new URLSearchParams();
+    if (filters.symbol) query.set('symbol', filters.symbol);
+    if (filters.trigger) query.set('trigger', filters.trigger);
+    if (filters.status) query.set('status', filters.status);
+    if (cursor != null) query.set('cursor', String(cursor));
+    const queryString = query.toString();
+    const response = await fetch(`${API_BASE_URL}/api/runs${queryString ? `?${queryString}` : ''}`);
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch runs');
+    }
+
+    const json = await response.json();
+    return { data: json.data, nextCursor: json.nextCursor };
+};
+
+export type AlertCondition =
+    | 'crosses_above'
+    | 'crosses_below'
+    | 'change_pct'
+    | 'sentiment_change'
+    | 'percentile_above'
+    | 'percentile_below';
+export type AlertDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export const ALERT_CONDITION_OPTIONS: { value: AlertCondition; label: string }[] = [
+    { value: 'crosses_above', label: 'Crosses above' },
+    { value: 'crosses_below', label: 'Crosses below' },
+    { value: 'change_pct', label: 'Changes by %' },
+    { value: 'sentiment_change', label: 'Sentiment changes' },
+    { value: 'percentile_above', label: 'Percentile above' },
+    { value: 'percentile_below', label: 'Percentile below' }
+];
+
+export const ALERT_METRIC_OPTIONS: { value: string; label: string; rankable?: boolean }[] = [
+    { value: 'oiSkew', label: 'OI skew', rankable: true },
+    { value: 'pricingSkew', label: 'Pricing skew', rankable: true },
+    { value: 'impliedMove', label: 'Implied move', rankable: true },
+    { value: 'volumeSkew', label: 'Volume skew' },
+    { value: 'deltaWeightedSkew', label: 'Delta-weighted skew' },
+    { value: 'premiumWeightedSkew', label: 'Premium-weighted skew' },
+    { value: 'notionalWeightedSkew', label: 'Notional-weighted skew' },
+    { value: 'underlyingPrice', label: 'Underlying price' }
+];
+
+// Same bands as the asset card sentiment label
+export const SENTIMENT_LABELS = [
+    'Extr. Bullish',
+    'Bullish',
+    'Mildly Bullish',
+    'Neutral',
+    'Mildly Bearish',
+    'Bearish',
+    'Extr. Bearish'
+];
+
+/**
+ * Editable fields of an alert rule (fields the condition doesn't use are null)
+ */
+export interface AlertRuleInput {
+    name: string;
+    symbol: string;
+    condition: AlertCondition;
+    metric: string;
+    // Level, percent change (negative for a fall) or percentile
+    threshold: number | null;
+    windowMinutes: number | null;
+    lookback: RankLookback | null;
+    fromSentiment: string | null;
+    toSentiment: string | null;
+    // Falls back to the server's ALERT_WEBHOOK_URL when null
+    webhookUrl: string | null;
+    cooldownMinutes: number;
+    enabled: boolean;
+}
+
+export interface AlertRule extends AlertRuleInput, SkewParams {
+    id: number;
+    // Whether the condition held at the last evaluation
+    active: boolean;
+    lastTriggeredAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface AlertDelivery {
+    id: number;
+    ruleId: number;
+    snapshotId: number | null;
+    symbol: string;
+    message: string;
+    url: string;
+    status: AlertDeliveryStatus;
+    attempts: number;
+    responseStatus: number | null;
+    error: string | null;
+    createdAt: string;
+    deliveredAt: string | null;
+}
+
+const sendAlertRequest = async <T>(path: string, init: RequestInit, failure: string): Promise<T> => {
+    const response = await fetch(`${API_BASE_URL}/api/alerts${path}`, {
+        ...init,
+        headers: init.body ? { 'Content-Type': 'application/json' } : undefined
+    });
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || failure);
+    }
+
+    return response.json();
+};
+
+/**
+ * Fetch all alert rules
+ */
+export const fetchAlertRules = async (): Promise<AlertRule[]> => {
+    const json = await sendAlertRequest<{ data: AlertRule[] }>('/rules', {}, 'Failed to fetch alert rules');
+    return json.data;
+};
+
+export const createAlertRule = (rule: AlertRuleInput): Promise<AlertRule> =>
+    sendAlertRequest('/rules', { method: 'POST', body: JSON.stringify(rule) }, 'Failed to create alert rule');
+
+/**
+ * Update a rule (fields left out keep their current value)
+ */
+export const updateAlertRule = (id: number, rule: Partial<AlertRuleInput>): Promise<AlertRule> =>
+    sendAlertRequest(`/rules/${id}`, { method: 'PUT', body: JSON.stringify(rule) }, 'Failed to update alert rule');
+
+export const deleteAlertRule = async (id: number): Promise<void> => {
+    await sendAlertRequest(`/rules/${id}`, { method: 'DELETE' }, 'Failed to delete alert rule');
+};
+
+/**
+ * Send a test alert through a rule's webhook
+ */
+export const testAlertRule = (id: number): Promise<AlertDelivery> =>
+    sendAlertRequest(`/rules/${id}/test`, { method: 'POST' }, 'Failed to send test alert');
+
+/**
+ * Fetch one page of webhook deliveries, newest first
+ */
+export const fetchAlertDeliveries = async (
+    ruleId?: number,
+    cursor?: number | null
+): Promise<{ data: AlertDelivery[]; nextCursor: number | null }> => {
+    const query = new URLSearchParams();
+    if (ruleId !== undefined) query.set('ruleId', String(ruleId));
+    if (cursor != null) query.set('cursor', String(cursor));
+    const queryString = query.toString();
+    const json = await sendAlertRequest<{ data: AlertDelivery[]; nextCursor: number | null }>(
+        `/deliveries${queryString ? `?${queryString}` : ''}`,
+        {},
+        'Failed to fetch alert deliveries'
+    );
+    return { data: json.data, nextCursor: json.nextCursor };
+};